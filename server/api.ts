@@ -0,0 +1,391 @@
+// Backend API - the only place that holds provider keys
+// Mounted into Vite's dev server by vitePlugin.ts and served standalone by index.ts
+//
+//   GET  /api/status   which upstreams are configured
+//   POST /api/chat     canvas-mode completion   { messages, stream?, cacheLanguage?, economy?, tools? }
+//   POST /api/mermaid  diagram-mode completion  { messages, stream?, cacheLanguage?, economy?, tools? }
+//                      (user messages may carry images: [{ mediaType, data (base64) }];
+//                      tools are [{ name, description, parameters (JSON Schema) }];
+//                      cacheLanguage offers the answer to the shared cache)
+//   POST /api/tts      ElevenLabs speech        { text, language? } -> audio (+ X-Usage-* headers)
+//   POST /api/cache    shared cached completion { mode, language, messages } -> { text }
+//   DELETE /api/cache  drop every shared entry (needs x-admin-token = CACHE_ADMIN_TOKEN)
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ChatImage, ChatMessage, LLMMode, ToolDefinition } from '../src/types';
+import { ProviderRegistry, loadRegistryConfig } from './llmProviders';
+import type { Env } from './llmProviders';
+import { completeWithFallback } from './completions';
+import { RateLimiter } from './rateLimiter';
+import { loadTTSConfig, synthesizeSpeech } from './tts';
+import { FAKE_MODEL, startFakeUpstream } from './fakeUpstream';
+import { SharedCache, isShareableAnswer, sharedCacheKey } from './sharedCache';
+import { PriceList } from './pricing';
+import { FixtureStore, readFixtureMode } from './fixtures';
+import { CircuitBreaker, RequestError, reasonForStatus } from '../src/services/retryPolicy';
+import type { FailureReason } from '../src/services/retryPolicy';
+
+export type ApiMiddleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+
+// Request bodies are small JSON documents; anything bigger is refused
+const MAX_BODY_BYTES = 1_000_000;
+// Completions may carry a few photos (the client scales them down before sending)
+const MAX_COMPLETION_BODY_BYTES = 12_000_000;
+const MAX_IMAGES_PER_MESSAGE = 4;
+const IMAGE_MEDIA_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+const MAX_TOOLS = 16;
+// ElevenLabs bills per character, so cap what one request can cost
+const MAX_TTS_CHARS = 2_000;
+
+class HttpError extends Error {
+  status: number;
+  retryAfterMs?: number;
+  // Sent to the client so its request layer knows whether retrying can help
+  reason: FailureReason;
+
+  constructor(status: number, message: string, retryAfterMs?: number, reason = reasonForStatus(status)) {
+    super(message);
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.reason = reason;
+  }
+}
+
+// Upstream failures keep their meaning for the client: rate limited upstreams answer 429,
+// temporarily unavailable ones 503, both with Retry-After; anything else is a plain 502
+function upstreamError(error: unknown): HttpError {
+  if (!(error instanceof RequestError)) {
+    return new HttpError(502, error instanceof Error ? error.message : String(error));
+  }
+  const status = error.reason === 'rate-limited' ? 429 : error.retryable ? 503 : 502;
+  return new HttpError(status, error.message, error.retryAfterMs, error.reason);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new Error();
+    return body;
+  } catch {
+    throw new HttpError(400, 'Body must be a JSON object');
+  }
+}
+
+function readMessages(body: Record<string, unknown>): ChatMessage[] {
+  const messages = body.messages;
+  const valid = Array.isArray(messages) && messages.length > 0 && messages.every(m =>
+    m && typeof m === 'object' &&
+    ['system', 'user', 'assistant'].includes(m.role) &&
+    typeof m.content === 'string'
+  );
+  if (!valid) throw new HttpError(400, 'messages must be a non-empty array of {role, content}');
+
+  for (const message of messages as ChatMessage[]) {
+    if (message.images !== undefined) readImages(message);
+  }
+  return messages as ChatMessage[];
+}
+
+function readImages(message: ChatMessage): ChatImage[] {
+  const images = message.images;
+  if (message.role !== 'user' || !Array.isArray(images)) {
+    throw new HttpError(400, 'images must be an array, on user messages only');
+  }
+  if (images.length > MAX_IMAGES_PER_MESSAGE) {
+    throw new HttpError(413, `At most ${MAX_IMAGES_PER_MESSAGE} images per message`);
+  }
+  const valid = images.every(image =>
+    image && typeof image === 'object' &&
+    IMAGE_MEDIA_TYPES.includes(image.mediaType) &&
+    typeof image.data === 'string' && /^[A-Za-z0-9+/]+=*$/.test(image.data)
+  );
+  if (!valid) throw new HttpError(400, `images must be {mediaType, data} with base64 data and one of ${IMAGE_MEDIA_TYPES.join(', ')}`);
+  return images;
+}
+
+function readTools(body: Record<string, unknown>): ToolDefinition[] | undefined {
+  const tools = body.tools;
+  if (tools === undefined) return undefined;
+  const valid = Array.isArray(tools) && tools.length <= MAX_TOOLS && tools.every(tool =>
+    tool && typeof tool === 'object' &&
+    typeof tool.name === 'string' && /^[a-zA-Z0-9_-]{1,64}$/.test(tool.name) &&
+    typeof tool.description === 'string' &&
+    tool.parameters && typeof tool.parameters === 'object' && !Array.isArray(tool.parameters)
+  );
+  if (!valid) throw new HttpError(400, `tools must be at most ${MAX_TOOLS} {name, description, parameters} objects`);
+  return tools as ToolDefinition[];
+}
+
+// The address rate limits are counted against. X-Forwarded-For is whatever the client chose to send,
+// so it only counts behind `trustedProxies` reverse proxies of our own (TRUST_PROXY): each of them
+// appends the address it saw, and the one the outermost proxy saw is the client.
+function clientKey(req: IncomingMessage, trustedProxies: number): string {
+  const socket = req.socket.remoteAddress || 'unknown';
+  if (trustedProxies === 0) return socket;
+
+  const header = req.headers['x-forwarded-for'];
+  const forwarded = (Array.isArray(header) ? header.join(',') : header || '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+  const hops = [...forwarded, socket];
+  return hops[Math.max(0, hops.length - 1 - trustedProxies)];
+}
+
+// TRUST_PROXY=true is one proxy; a number is that many in a row
+function readTrustedProxies(value: string | undefined): number {
+  if (value === 'true') return 1;
+  const count = Math.floor(Number(value));
+  return Number.isFinite(count) && count > 0 ? count : 0;
+}
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function createApiMiddleware(env: Env): ApiMiddleware {
+  // FAKE_UPSTREAM=true swaps every real backend for the local fake (no keys, no network)
+  if (env.FAKE_UPSTREAM === 'true') {
+    const port = readLimit(env.FAKE_UPSTREAM_PORT, 8788);
+    startFakeUpstream(port);
+    env = {
+      LOCAL_LLM_BASE_URL: `http://127.0.0.1:${port}/v1`,
+      LOCAL_LLM_MODEL: FAKE_MODEL,
+      LOCAL_LLM_VISION_MODEL: FAKE_MODEL,
+      LOCAL_LLM_TOOLS: 'true',
+      ELEVENLABS_API_KEY: 'fake',
+      ELEVENLABS_BASE_URL: `http://127.0.0.1:${port}`
+    };
+  }
+
+  const registry = new ProviderRegistry(loadRegistryConfig(env));
+  const ttsConfig = loadTTSConfig(env);
+  const ttsBreaker = new CircuitBreaker();
+  const prices = new PriceList(env);
+  // AI_FIXTURES=record|replay - see fixtures.ts
+  const fixtureMode = readFixtureMode(env);
+  const fixtures = new FixtureStore(env.AI_FIXTURES_DIR || undefined);
+  const recorder = fixtureMode === 'record' ? fixtures : undefined;
+  if (fixtureMode) console.log(`AI fixtures: ${fixtureMode} (${env.AI_FIXTURES_DIR || 'fixtures/ai'})`);
+  const chatLimiter = new RateLimiter(readLimit(env.RATE_LIMIT_CHAT_PER_MINUTE, 20));
+  const ttsLimiter = new RateLimiter(readLimit(env.RATE_LIMIT_TTS_PER_MINUTE, 60));
+  // Shared cache lookups hash whole prompts, so they are limited too - separately, as one comes
+  // before most questions
+  const cacheLimiter = new RateLimiter(readLimit(env.RATE_LIMIT_CACHE_PER_MINUTE, 60));
+  const sharedCache = env.SHARED_CACHE === 'true'
+    ? new SharedCache(readLimit(env.SHARED_CACHE_TTL_HOURS, 168) * 3_600_000, env.SHARED_CACHE_FILE || undefined)
+    : null;
+  const adminToken = env.CACHE_ADMIN_TOKEN || '';
+  // The shared cache slot for a request, derived from what would be sent to the model. Null when
+  // nothing is shared or the request is not self-contained.
+  const cacheSlot = (mode: LLMMode, language: unknown, messages: ChatMessage[]): string | null => {
+    if (!sharedCache || typeof language !== 'string' || !/^[a-z]{2}$/.test(language)) return null;
+    return sharedCacheKey(mode, registry.getChain(mode)[0]?.model || '', language, messages);
+  };
+  const trustedProxies = readTrustedProxies(env.TRUST_PROXY);
+
+  const enforceLimit = (limiter: RateLimiter, req: IncomingMessage) => {
+    const { allowed, retryAfterMs } = limiter.check(clientKey(req, trustedProxies));
+    if (!allowed) {
+      throw new HttpError(429, 'Too many requests, slow down', retryAfterMs);
+    }
+  };
+
+  const handleCompletion = async (req: IncomingMessage, res: ServerResponse, mode: LLMMode) => {
+    enforceLimit(chatLimiter, req);
+    const body = await readJsonBody(req, MAX_COMPLETION_BODY_BYTES);
+    const messages = readMessages(body);
+    const tools = readTools(body);
+    // The client only offers the answer; whether it is shared, and under which key, is decided
+    // here from the request and the answer itself. Tool calls are not text to store.
+    const cacheKey = tools ? null : cacheSlot(mode, body.cacheLanguage, messages);
+    const remember = (text: string) => {
+      if (sharedCache && cacheKey && isShareableAnswer(mode, text)) sharedCache.set(cacheKey, text);
+    };
+    const economy = body.economy === true;
+    // The client stopped or asked something else: stop paying for an answer nobody will read
+    const disconnected = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) disconnected.abort();
+    });
+    const signal = disconnected.signal;
+
+    if (!body.stream) {
+      const result = await completeWithFallback(registry, mode, messages, { prices, economy, recorder, tools, signal }).catch((error: unknown) => {
+        throw upstreamError(error);
+      });
+      remember(result.text);
+      sendJson(res, 200, result);
+      return;
+    }
+
+    // Newline-delimited JSON events: {type:"delta",text}, {type:"tool",name,arguments} and
+    // {type:"status",...RequestStatus} ... then {type:"done"} (with the cleaned full text) or
+    // {type:"error",reason,retryAfterMs}
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+    const write = (event: Record<string, unknown>) => res.write(JSON.stringify(event) + '\n');
+
+    try {
+      const result = await completeWithFallback(registry, mode, messages, {
+        onChunk: text => write({ type: 'delta', text }),
+        onToolCall: call => write({ type: 'tool', ...call }),
+        onStatus: status => write({ type: 'status', ...status }),
+        prices,
+        economy,
+        recorder,
+        tools,
+        signal
+      });
+      remember(result.text);
+      write({ type: 'done', ...result });
+    } catch (error) {
+      const { message, reason, retryAfterMs } = upstreamError(error);
+      write({ type: 'error', message, reason, retryAfterMs });
+    }
+    res.end();
+  };
+
+  const handleSpeech = async (req: IncomingMessage, res: ServerResponse) => {
+    enforceLimit(ttsLimiter, req);
+    if (!ttsConfig.apiKey && fixtureMode !== 'replay') throw new HttpError(503, 'Text-to-speech is not configured');
+
+    const body = await readJsonBody(req);
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+    if (!text) throw new HttpError(400, 'text is required');
+    if (text.length > MAX_TTS_CHARS) throw new HttpError(413, `text is limited to ${MAX_TTS_CHARS} characters`);
+    const language = body.language === undefined ? 'en' : body.language;
+    if (typeof language !== 'string' || !/^[a-z]{2}$/.test(language)) {
+      throw new HttpError(400, 'language must be a two-letter code');
+    }
+
+    if (fixtureMode === 'replay') {
+      const recorded = fixtures.readSpeech(text, language);
+      // The client falls back to the browser voice, as for any other speech failure
+      if (!recorded) throw new HttpError(404, 'No recorded speech for this text');
+      res.writeHead(200, {
+        'Content-Type': recorded.contentType,
+        'X-Usage-Characters': String(text.length),
+        'X-Usage-Cost-Usd': '0',
+        'X-Usage-Model': 'replay'
+      });
+      res.end(recorded.audio);
+      return;
+    }
+
+    const upstream = await synthesizeSpeech(ttsConfig, ttsBreaker, text, language).catch((error: unknown) => {
+      console.error('ElevenLabs API error:', error);
+      throw upstreamError(error);
+    });
+    const contentType = upstream.headers.get('content-type') || 'audio/mpeg';
+    const audio = Buffer.from(await upstream.arrayBuffer());
+    if (recorder) {
+      recorder.saveSpeech(text, language, contentType, audio)
+        .catch(error => console.warn('Could not record speech fixture:', error));
+    }
+
+    res.writeHead(200, {
+      'Content-Type': contentType,
+      // ElevenLabs bills per character; the client records this in its usage log
+      'X-Usage-Characters': String(text.length),
+      'X-Usage-Cost-Usd': String(prices.speechCost(text.length)),
+      'X-Usage-Model': language === 'en' ? ttsConfig.modelId : ttsConfig.multilingualModelId
+    });
+    res.end(audio);
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+    const path = (req.url || '').split('?')[0];
+
+    if (req.method === 'GET' && path === '/api/status') {
+      sendJson(res, 200, {
+        llm: registry.hasProviders(),
+        tts: !!ttsConfig.apiKey || fixtureMode === 'replay',
+        sharedCache: !!sharedCache,
+        // Some provider can read attached images
+        vision: registry.getChain('canvas', { vision: true }).length > 0,
+        // Some canvas provider can call tools (the tool-calling drawing protocol)
+        tools: registry.getChain('canvas', { tools: true }).length > 0,
+        // Primary model per mode - part of the client's cache key
+        models: {
+          canvas: registry.getChain('canvas')[0]?.model || '',
+          diagram: registry.getChain('diagram')[0]?.model || ''
+        }
+      });
+      return true;
+    }
+    if (path === '/api/cache' && sharedCache) {
+      if (req.method === 'POST') {
+        enforceLimit(cacheLimiter, req);
+        const body = await readJsonBody(req);
+        if (body.mode !== 'canvas' && body.mode !== 'diagram') throw new HttpError(400, 'mode must be canvas or diagram');
+        const key = cacheSlot(body.mode, body.language, readMessages(body));
+        const text = key ? sharedCache.get(key) : null;
+        if (text === null) throw new HttpError(404, 'Not cached');
+        sendJson(res, 200, { text });
+        return true;
+      }
+      if (req.method === 'DELETE') {
+        if (!adminToken || req.headers['x-admin-token'] !== adminToken) {
+          throw new HttpError(403, 'Clearing the shared cache needs CACHE_ADMIN_TOKEN');
+        }
+        sharedCache.clear();
+        sendJson(res, 200, { cleared: true });
+        return true;
+      }
+    }
+    if (req.method === 'POST' && path === '/api/chat') {
+      await handleCompletion(req, res, 'canvas');
+      return true;
+    }
+    if (req.method === 'POST' && path === '/api/mermaid') {
+      await handleCompletion(req, res, 'diagram');
+      return true;
+    }
+    if (req.method === 'POST' && path === '/api/tts') {
+      await handleSpeech(req, res);
+      return true;
+    }
+    if (path.startsWith('/api/')) {
+      throw new HttpError(404, `No route for ${req.method} ${path}`);
+    }
+    return false;
+  };
+
+  return (req, res, next) => {
+    route(req, res)
+      .then(handled => {
+        if (!handled) next();
+      })
+      .catch((error: unknown) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        const message = error instanceof Error ? error.message : String(error);
+        if (status === 500) console.error('API error:', error);
+        if (res.headersSent) {
+          res.end();
+          return;
+        }
+
+        const retryAfterMs = error instanceof HttpError ? error.retryAfterMs : undefined;
+        const headers: Record<string, string> = retryAfterMs
+          ? { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) }
+          : {};
+        const reason = error instanceof HttpError ? error.reason : reasonForStatus(status);
+        sendJson(res, status, { error: message, reason, retryAfterMs }, headers);
+      });
+  };
+}
@@ -0,0 +1,217 @@
+// Runs a completion through the provider chain for a mode, falling back on failure
+
+import type { ChatMessage, CompletionUsage, LLMMode, ToolCall, ToolDefinition } from '../src/types';
+import type { ProviderRegistry, TokenCounts } from './llmProviders';
+import { TOKENS_PER_IMAGE, estimateTokens } from './pricing';
+import type { PriceList } from './pricing';
+import type { FixtureStore } from './fixtures';
+import { RequestError, withRetry } from '../src/services/retryPolicy';
+import type { RequestStatus } from '../src/services/retryPolicy';
+
+export interface CompletionResult {
+  text: string;
+  provider: string;
+  model: string;
+  usage: CompletionUsage;
+  // Calls the model made, in order (only when tools were offered)
+  toolCalls?: ToolCall[];
+}
+
+export interface CompletionCallOptions {
+  // Stream the completion, receiving text deltas as they arrive
+  onChunk?: (chunk: string) => void;
+  onStatus?: (status: RequestStatus) => void;
+  // Prices the result, and orders the chain cheapest first in economy mode
+  prices?: PriceList;
+  // The session ran out of budget: try the cheapest providers first
+  economy?: boolean;
+  // Record mode: save every successful completion as a replay fixture
+  recorder?: FixtureStore;
+  // Offer these tools instead of asking for JSON; only providers with tool calling are tried.
+  // When streaming, each finished call is passed to onToolCall as it arrives.
+  tools?: ToolDefinition[];
+  onToolCall?: (call: ToolCall) => void;
+  // Aborted when nobody is waiting for the answer any more (the client disconnected): the
+  // running attempt is cancelled and no other provider is tried
+  signal?: AbortSignal;
+}
+
+// A slow model can take this long to write a full lesson
+const ATTEMPT_TIMEOUT_MS = 60_000;
+
+// Walk the provider chain for this mode until one returns a completion. Each provider gets a few
+// attempts for transient failures (rate limits, timeouts, 5xx); providers whose circuit is open
+// are skipped. Everything the chain does is reported through `onStatus`.
+// With `onChunk` the completion is streamed; once a provider has produced output we can no
+// longer retry or fall back without duplicating it, so a mid-stream failure is thrown instead.
+export async function completeWithFallback(
+  registry: ProviderRegistry,
+  mode: LLMMode,
+  messages: ChatMessage[],
+  { onChunk, onStatus, prices, economy, recorder, tools, onToolCall, signal }: CompletionCallOptions = {}
+): Promise<CompletionResult> {
+  // Attached images narrow the chain to providers with a vision model, tools to those with tool calling
+  const vision = messages.some(m => m.images?.length);
+  const useTools = !!tools?.length;
+  const chain = registry.getChain(mode, { vision, tools: useTools });
+  if (vision && chain.length === 0) {
+    throw new RequestError('failed', 'No configured AI provider can read images. Set a vision model such as GROQ_VISION_MODEL.');
+  }
+  if (useTools && chain.length === 0) {
+    throw new RequestError('failed', 'No configured AI provider supports tool calling. Use the JSON drawing protocol instead.');
+  }
+  if (economy && prices) {
+    const cost = (model: string) => prices.priceOf(model).input + prices.priceOf(model).output;
+    chain.sort((a, b) => cost(a.model) - cost(b.model));
+  }
+  const failures: RequestError[] = [];
+  let streamed = false;
+
+  for (const [index, { provider, model, breaker }] of chain.entries()) {
+    if (signal?.aborted) throw new RequestError('failed', 'Request was cancelled');
+    const isLast = index === chain.length - 1;
+    if (!breaker.canRequest()) {
+      const retryInMs = breaker.retryInMs();
+      console.log(`Skipping ${provider.id}: circuit open for ${retryInMs}ms`);
+      onStatus?.({ kind: 'skipped', provider: provider.id, reason: 'unavailable', delayMs: retryInMs });
+      failures.push(new RequestError('unavailable', `${provider.id} is temporarily disabled`, 503, retryInMs));
+      continue;
+    }
+
+    try {
+      console.log(`Trying ${provider.id} (${model}) for ${mode}...`);
+
+      // Providers without a JSON mode get an explicit reminder and may still wrap output in markdown.
+      // With tools the text is prose, not JSON.
+      const providerMessages = provider.supportsJsonMode || useTools
+        ? messages
+        : messages.map((m, i) => i === 0
+          ? { ...m, content: m.content + '\n\nIMPORTANT: Respond with ONLY valid JSON, no markdown.' }
+          : m);
+
+      const request = {
+        messages: providerMessages,
+        model,
+        temperature: 0.7,
+        maxTokens: 2500,
+        json: !useTools,
+        tools
+      };
+
+      let counts: TokenCounts | null = null;
+      const onUsage = (usage: TokenCounts) => {
+        counts = usage;
+      };
+
+      let chunks: string[] = [];
+      // Each call with the number of chunks streamed before it, for replay fixtures
+      let toolCalls: { at: number; call: ToolCall }[] = [];
+      let text = await withRetry(async signal => {
+        toolCalls = [];
+        if (!onChunk) {
+          return provider.complete({ ...request, signal, onUsage, onToolCall: call => toolCalls.push({ at: 0, call }) });
+        }
+        chunks = [];
+        const streamToolCall = (call: ToolCall) => {
+          toolCalls.push({ at: chunks.length, call });
+          streamed = true;
+          onToolCall?.(call);
+        };
+        for await (const chunk of provider.stream({ ...request, signal, onUsage, onToolCall: streamToolCall })) {
+          chunks.push(chunk);
+          streamed = true;
+          onChunk(chunk);
+        }
+        return chunks.join('');
+      }, {
+        provider: provider.id,
+        timeoutMs: ATTEMPT_TIMEOUT_MS,
+        onStatus,
+        shouldRetry: () => !streamed,
+        signal
+      });
+      breaker.recordSuccess();
+
+      if (!provider.supportsJsonMode && !useTools) {
+        text = text.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim();
+      }
+
+      console.log(`${provider.id} succeeded`);
+      if (recorder) {
+        // Keep the streamed pieces only when they still add up to the cleaned text
+        recorder.saveChat({
+          provider: provider.id,
+          model,
+          messages,
+          chunks: chunks.join('') === text ? chunks : [text],
+          ...(toolCalls.length > 0 ? { toolCalls } : {}),
+          usage: counts ?? undefined
+        }).catch(error => console.warn('Could not record fixture:', error));
+      }
+      const calls = toolCalls.map(({ call }) => call);
+      // Tool arguments are output tokens too
+      const output = calls.length > 0 ? `${text}${JSON.stringify(calls)}` : text;
+      return {
+        text,
+        provider: provider.id,
+        model,
+        usage: priceUsage(counts, providerMessages, output, model, prices),
+        ...(calls.length > 0 ? { toolCalls: calls } : {})
+      };
+    } catch (caught) {
+      const error = caught instanceof RequestError ? caught : new RequestError('failed', String(caught));
+      // Cancelled, not failed - the provider's circuit has nothing to learn from it
+      if (signal?.aborted) throw error;
+      console.log(`${provider.id} failed:`, error);
+      breaker.recordFailure(error);
+      if (streamed) throw error;
+      failures.push(error);
+      if (!isLast) {
+        onStatus?.({ kind: 'fallback', provider: provider.id, reason: error.reason });
+      }
+    }
+  }
+
+  if (failures.length === 0) {
+    throw new RequestError('failed', 'No AI provider configured. Please check your API keys.');
+  }
+  throw summarizeFailures(failures);
+}
+
+// Provider counts when reported, otherwise estimated from the text
+function priceUsage(
+  counts: TokenCounts | null,
+  messages: ChatMessage[],
+  text: string,
+  model: string,
+  prices?: PriceList
+): CompletionUsage {
+  const images = messages.reduce((sum, m) => sum + (m.images?.length || 0), 0);
+  const promptTokens = counts?.promptTokens ??
+    estimateTokens(messages.map(m => m.content).join('\n')) + images * TOKENS_PER_IMAGE;
+  const completionTokens = counts?.completionTokens ?? estimateTokens(text);
+  return {
+    promptTokens,
+    completionTokens,
+    estimated: !counts,
+    costUsd: prices ? prices.completionCost(model, promptTokens, completionTokens) : 0
+  };
+}
+
+// One error for the whole chain. If every provider is only temporarily out (rate limited,
+// circuit open...) the client is told when the first of them should be back; otherwise it is a
+// plain failure, most likely a key or configuration problem.
+function summarizeFailures(failures: RequestError[]): RequestError {
+  const transient = failures.every(error => error.retryable);
+  const message = `All AI providers failed (${failures.map(error => error.message).join('; ')})`;
+  if (!transient) return new RequestError('failed', `${message}. Please check your API keys.`);
+
+  const waits = failures.map(error => error.retryAfterMs).filter((ms): ms is number => ms !== undefined);
+  const rateLimited = failures.some(error => error.reason === 'rate-limited');
+  return new RequestError(
+    rateLimited ? 'rate-limited' : failures[failures.length - 1].reason,
+    message,
+    rateLimited ? 429 : 503,
+    waits.length > 0 ? Math.min(...waits) : undefined
+  );
+}
@@ -0,0 +1,174 @@
+// Fake upstream for local testing - speaks the OpenAI chat-completions and ElevenLabs TTS
+// wire formats with canned, deterministic answers. Point the proxy at it with FAKE_UPSTREAM=true.
+
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { ChatMessage, ToolCall } from '../src/types';
+
+export const FAKE_MODEL = 'fake-tutor-1';
+
+// Messages arrive in OpenAI wire format: content is a string, or parts when images are attached
+type WireMessage = Omit<ChatMessage, 'content' | 'images'> & { content: string | { type: string; text?: string }[] };
+
+function toChatMessage(message: WireMessage): ChatMessage {
+  if (typeof message.content === 'string') return { role: message.role, content: message.content };
+  const text = message.content.map(part => part.text || '').join('');
+  const images = message.content.filter(part => part.type === 'image_url').length;
+  return { role: message.role, content: images > 0 ? `${text} (with ${images} image${images === 1 ? '' : 's'})` : text };
+}
+
+// Build a canned answer that matches whichever prompt family asked
+function fakeCompletion(messages: ChatMessage[]): string {
+  const question = [...messages].reverse().find(m => m.role === 'user')?.content || 'your question';
+  const topic = question.slice(0, 40);
+  const isDiagram = messages.some(m => m.role === 'system' && m.content.includes('Mermaid'));
+
+  if (isDiagram) {
+    return JSON.stringify({
+      topic,
+      isNewTopic: true,
+      explanation: `This is a fake diagram answer about "${topic}".`,
+      mermaidCode: `graph TD\n    A["Question"] --> B["Fake Answer"]\n    B --> C["Done"]`
+    });
+  }
+
+  return JSON.stringify({
+    topic,
+    isNewTopic: true,
+    taskBreakdown: ['Step 1: Ask', 'Step 2: Answer'],
+    narration: `This is a fake answer. It draws two boxes and an arrow.`,
+    drawCommands: [
+      { type: 'text', x: 300, y: 40, props: { text: 'FAKE LESSON', color: 'black' } },
+      { type: 'rectangle', x: 150, y: 150, props: { w: 100, h: 70, color: 'blue' } },
+      { type: 'text', x: 165, y: 240, props: { text: 'Question', color: 'blue' } },
+      { type: 'arrow', x: 0, y: 0, props: { start: { x: 260, y: 185 }, end: { x: 440, y: 185 }, color: 'black' } },
+      { type: 'rectangle', x: 450, y: 150, props: { w: 100, h: 70, color: 'green' } },
+      { type: 'text', x: 470, y: 240, props: { text: 'Answer', color: 'green' } }
+    ],
+    explanation: `**Fake answer**\nYou asked: "${question}". The fake upstream always answers the same way.`
+  });
+}
+
+// Canned answer for the tool-calling drawing protocol: prose for the chat, then the calls
+function fakeToolCompletion(messages: ChatMessage[]): { text: string; toolCalls: ToolCall[] } {
+  const question = [...messages].reverse().find(m => m.role === 'user')?.content || 'your question';
+  return {
+    text: `**Fake answer**\nYou asked: "${question}". The fake upstream always draws the same two boxes.`,
+    toolCalls: [
+      { name: 'start_lesson', arguments: { topic: question.slice(0, 40), isNewTopic: true, steps: ['Step 1: Ask', 'Step 2: Answer'] } },
+      { name: 'narrate', arguments: { text: 'This is a fake answer. First, the question.' } },
+      { name: 'draw_shape', arguments: { id: 'question', shape: 'rectangle', x: 150, y: 150, w: 100, h: 70, color: 'blue' } },
+      { name: 'label', arguments: { target: 'question', text: 'Question', position: 'below', color: 'blue' } },
+      { name: 'narrate', arguments: { text: 'Then the answer it leads to.' } },
+      { name: 'draw_shape', arguments: { id: 'answer', shape: 'rectangle', x: 450, y: 150, w: 100, h: 70, color: 'green' } },
+      { name: 'label', arguments: { target: 'answer', text: 'Answer', position: 'below', color: 'green' } },
+      { name: 'connect', arguments: { from: 'question', to: 'answer' } },
+      { name: 'highlight', arguments: { target: 'answer', color: 'orange' } }
+    ]
+  };
+}
+
+// Silent 16-bit mono WAV, roughly as long as the text would take to say
+function silentWav(text: string): Buffer {
+  const sampleRate = 8000;
+  const seconds = Math.max(1, text.split(/\s+/).length * 0.3);
+  const dataSize = Math.round(sampleRate * seconds) * 2;
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(dataSize, 40);
+  return buffer;
+}
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const url = req.url || '';
+
+  if (req.method === 'POST' && url.endsWith('/chat/completions')) {
+    const body = await readBody(req);
+    const messages = ((body.messages as WireMessage[]) || []).map(toChatMessage);
+    const { text, toolCalls } = Array.isArray(body.tools) && body.tools.length > 0
+      ? fakeToolCompletion(messages)
+      : { text: fakeCompletion(messages), toolCalls: [] };
+    const base = { id: 'fake-completion', created: Math.floor(Date.now() / 1000), model: FAKE_MODEL };
+    const wireCalls = toolCalls.map((call, index) => ({
+      index,
+      id: `call_${index}`,
+      type: 'function',
+      function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+    }));
+
+    if (!body.stream) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        ...base,
+        object: 'chat.completion',
+        choices: [{
+          index: 0,
+          finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
+          message: { role: 'assistant', content: text, ...(toolCalls.length > 0 ? { tool_calls: wireCalls } : {}) }
+        }]
+      }));
+      return;
+    }
+
+    // Stream in small pieces so incremental parsing is exercised
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    const send = async (delta: Record<string, unknown>) => {
+      const chunk = { ...base, object: 'chat.completion.chunk', choices: [{ index: 0, delta }] };
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      await new Promise(resolve => setTimeout(resolve, 20));
+    };
+    for (let i = 0; i < text.length; i += 24) {
+      await send({ content: text.slice(i, i + 24) });
+    }
+    // Tool call arguments arrive in fragments too, as they do from OpenAI
+    for (const { index, id, type, function: { name, arguments: args } } of wireCalls) {
+      await send({ tool_calls: [{ index, id, type, function: { name, arguments: '' } }] });
+      for (let i = 0; i < args.length; i += 24) {
+        await send({ tool_calls: [{ index, function: { arguments: args.slice(i, i + 24) } }] });
+      }
+    }
+    res.end('data: [DONE]\n\n');
+    return;
+  }
+
+  if (req.method === 'POST' && url.startsWith('/v1/text-to-speech/')) {
+    const body = await readBody(req);
+    res.writeHead(200, { 'Content-Type': 'audio/wav' });
+    res.end(silentWav(String(body.text || '')));
+    return;
+  }
+
+  res.writeHead(404, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: `Fake upstream has no route for ${req.method} ${url}` }));
+}
+
+export function startFakeUpstream(port: number): Server {
+  const server = createServer((req, res) => {
+    handle(req, res).catch(error => {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: String(error) }));
+    });
+  });
+  server.listen(port, '127.0.0.1', () => {
+    console.log(`Fake upstream listening on http://127.0.0.1:${port}`);
+  });
+  return server;
+}
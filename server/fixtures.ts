@@ -0,0 +1,155 @@
+// Record-and-replay fixtures - offline demos and deterministic runs
+// AI_FIXTURES=record saves every real completion and ElevenLabs clip under AI_FIXTURES_DIR;
+// AI_FIXTURES=replay serves them back through the 'replay' provider without touching the network.
+//
+//   <dir>/chat/<key>.json            request messages, streamed chunks, tool calls, token counts
+//   <dir>/speech/<key>.json + audio  text, language, content type
+
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, readdirSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ChatMessage, ToolCall } from '../src/types';
+import type { Env, TokenCounts } from './llmProviders';
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface ChatFixture {
+  key: string;
+  recordedAt: string;
+  // Who answered when it was recorded
+  provider: string;
+  model: string;
+  messages: ChatMessage[];
+  // Deltas as they were streamed (one entry for a non-streamed completion); joined they are the text
+  chunks: string[];
+  // Tool calls, each with the number of chunks that were streamed before it
+  toolCalls?: { at: number; call: ToolCall }[];
+  usage?: TokenCounts;
+}
+
+interface SpeechFixture {
+  key: string;
+  recordedAt: string;
+  text: string;
+  language: string;
+  contentType: string;
+  audioFile: string;
+}
+
+export const DEFAULT_FIXTURES_DIR = 'fixtures/ai';
+
+export function readFixtureMode(env: Env): FixtureMode | null {
+  const mode = env.AI_FIXTURES;
+  return mode === 'record' || mode === 'replay' ? mode : null;
+}
+
+function hash(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 16);
+}
+
+function lastUserMessage(messages: ChatMessage[]): string {
+  return [...messages].reverse().find(m => m.role === 'user')?.content.trim().toLowerCase() || '';
+}
+
+function readJson<T>(path: string): T | null {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as T;
+  } catch (error) {
+    console.warn(`Could not read fixture ${path}:`, error);
+    return null;
+  }
+}
+
+export class FixtureStore {
+  private dir: string;
+  private chats: Map<string, ChatFixture> | null = null;
+  // Newest fixture per final user message - used when the surrounding context (memory, canvas
+  // description...) differs slightly from the recording
+  private chatsByQuestion = new Map<string, ChatFixture>();
+
+  constructor(dir = DEFAULT_FIXTURES_DIR) {
+    this.dir = dir;
+  }
+
+  // The model is not part of the key, so a recording replays whichever provider made it.
+  // Images only enter the key when present, so text-only keys stay as they were.
+  static chatKey(messages: ChatMessage[]): string {
+    return hash(messages.map(m => m.images?.length ? [m.role, m.content, m.images.map(image => hash(image.data))] : [m.role, m.content]));
+  }
+
+  static speechKey(text: string, language: string): string {
+    return hash([text, language]);
+  }
+
+  findChat(messages: ChatMessage[]): ChatFixture | null {
+    const chats = this.loadChats();
+    const exact = chats.get(FixtureStore.chatKey(messages));
+    if (exact) return exact;
+
+    const loose = this.chatsByQuestion.get(lastUserMessage(messages));
+    if (loose) console.log(`Replaying fixture ${loose.key} by question (context differs from the recording)`);
+    return loose || null;
+  }
+
+  async saveChat(fixture: Omit<ChatFixture, 'key' | 'recordedAt'>): Promise<void> {
+    const saved: ChatFixture = { key: FixtureStore.chatKey(fixture.messages), recordedAt: new Date().toISOString(), ...fixture };
+    const dir = join(this.dir, 'chat');
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, `${saved.key}.json`), JSON.stringify(saved, null, 2));
+    this.index(saved);
+  }
+
+  readSpeech(text: string, language: string): { audio: Buffer; contentType: string } | null {
+    const key = FixtureStore.speechKey(text, language);
+    const metaPath = join(this.dir, 'speech', `${key}.json`);
+    if (!existsSync(metaPath)) return null;
+
+    const meta = readJson<SpeechFixture>(metaPath);
+    const audioPath = meta && join(this.dir, 'speech', meta.audioFile);
+    if (!meta || !audioPath || !existsSync(audioPath)) return null;
+    return { audio: readFileSync(audioPath), contentType: meta.contentType };
+  }
+
+  async saveSpeech(text: string, language: string, contentType: string, audio: Buffer): Promise<void> {
+    const key = FixtureStore.speechKey(text, language);
+    const extension = contentType.includes('wav') ? 'wav' : 'mp3';
+    const meta: SpeechFixture = {
+      key,
+      recordedAt: new Date().toISOString(),
+      text,
+      language,
+      contentType,
+      audioFile: `${key}.${extension}`
+    };
+    const dir = join(this.dir, 'speech');
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, meta.audioFile), audio);
+    await writeFile(join(dir, `${key}.json`), JSON.stringify(meta, null, 2));
+  }
+
+  // Read every chat fixture once, oldest first so newer recordings win the question index
+  private loadChats(): Map<string, ChatFixture> {
+    if (this.chats) return this.chats;
+    this.chats = new Map();
+
+    const dir = join(this.dir, 'chat');
+    if (!existsSync(dir)) {
+      console.warn(`No chat fixtures in ${dir} - record some with AI_FIXTURES=record`);
+      return this.chats;
+    }
+    readdirSync(dir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJson<ChatFixture>(join(dir, file)))
+      .filter((fixture): fixture is ChatFixture => !!fixture && Array.isArray(fixture.chunks))
+      .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt))
+      .forEach(fixture => this.index(fixture));
+    console.log(`Loaded ${this.chats.size} chat fixtures from ${dir}`);
+    return this.chats;
+  }
+
+  private index(fixture: ChatFixture) {
+    this.chats?.set(fixture.key, fixture);
+    this.chatsByQuestion.set(lastUserMessage(fixture.messages), fixture);
+  }
+}
@@ -0,0 +1,57 @@
+// Standalone production server: the built front-end from dist/ plus the backend API
+// Build with `npm run build && npm run build:server`, then `npm start`
+
+import { createServer } from 'node:http';
+import { existsSync } from 'node:fs';
+import { readFile, stat } from 'node:fs/promises';
+import { extname, join, normalize, resolve } from 'node:path';
+import { createApiMiddleware } from './api';
+
+if (existsSync('.env')) {
+  process.loadEnvFile('.env');
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const STATIC_DIR = resolve(process.env.STATIC_DIR || 'dist');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.json': 'application/json',
+  '.woff2': 'font/woff2',
+  '.wasm': 'application/wasm',
+};
+
+const api = createApiMiddleware(process.env);
+
+async function serveStatic(urlPath: string): Promise<{ body: Buffer; type: string }> {
+  // normalize() + the prefix check keep requests inside STATIC_DIR
+  const requested = join(STATIC_DIR, normalize(decodeURIComponent(urlPath)));
+  const isFile = requested.startsWith(STATIC_DIR) && await stat(requested).then(s => s.isFile(), () => false);
+  // Unknown paths fall back to the single-page app
+  const file = isFile ? requested : join(STATIC_DIR, 'index.html');
+
+  return {
+    body: await readFile(file),
+    type: CONTENT_TYPES[extname(file)] || 'application/octet-stream'
+  };
+}
+
+createServer((req, res) => {
+  api(req, res, () => {
+    serveStatic((req.url || '/').split('?')[0])
+      .then(({ body, type }) => {
+        res.writeHead(200, { 'Content-Type': type });
+        res.end(body);
+      })
+      .catch(() => {
+        res.writeHead(404);
+        res.end('Not found');
+      });
+  });
+}).listen(PORT, () => {
+  console.log(`AI tutor listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,597 @@
+// LLM provider registry - one interface for every chat-completion backend
+// Providers are tried in order (the fallback chain); each mode can override the chain and models.
+// Runs on the backend only: API keys never reach the browser.
+
+import OpenAI from 'openai';
+import Groq from 'groq-sdk';
+import type { ChatImage, ChatMessage, LLMMode, ToolCall, ToolDefinition } from '../src/types';
+import { CircuitBreaker, RequestError, errorFromResponse } from '../src/services/retryPolicy';
+import { DEFAULT_FIXTURES_DIR, FixtureStore, readFixtureMode } from './fixtures';
+
+export type ProviderKind = 'openai' | 'groq' | 'anthropic' | 'openai-compatible' | 'replay';
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a bare JSON object (only honoured when the provider supports it)
+  json?: boolean;
+  // Aborts the request (the request layer's per-attempt timeout)
+  signal?: AbortSignal;
+  // Called with the provider's own token counts, when it reports them
+  onUsage?: (usage: TokenCounts) => void;
+  // Functions the model may call. Each finished call goes to onToolCall, in order with the text
+  // deltas around it; tool results are never sent back, the calls are the answer.
+  tools?: ToolDefinition[];
+  onToolCall?: (call: ToolCall) => void;
+}
+
+export interface TokenCounts {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMProvider {
+  id: string;
+  kind: ProviderKind;
+  // Default model, used when the mode has no override
+  model: string;
+  // Model for requests with attached images; without one the provider is skipped for them
+  visionModel?: string;
+  // Whether the backend can be forced into JSON output (response_format)
+  supportsJsonMode: boolean;
+  // Whether the backend accepts tools (function calling)
+  supportsTools: boolean;
+  complete(request: CompletionRequest): Promise<string>;
+  // Same request, yielding text deltas as the model writes them
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export interface ProviderConfig {
+  id: string;
+  kind: ProviderKind;
+  model: string;
+  visionModel?: string;
+  apiKey?: string;
+  baseURL?: string;
+  supportsJsonMode?: boolean;
+  supportsTools?: boolean;
+  // replay only: where the recorded fixtures live
+  fixturesDir?: string;
+}
+
+export interface ModeOverride {
+  chain?: string[];
+  // Provider id -> model name for this mode only
+  models?: Record<string, string>;
+}
+
+export interface RegistryConfig {
+  providers: ProviderConfig[];
+  chain: string[];
+  modes: Partial<Record<LLMMode, ModeOverride>>;
+}
+
+// A provider resolved for one mode, with the model it should be called with
+export interface ResolvedProvider {
+  provider: LLMProvider;
+  model: string;
+  // Shared by every mode: a provider that is down is down for all of them
+  breaker: CircuitBreaker;
+}
+
+// What a request needs from a provider beyond plain text
+export interface ChainRequirements {
+  // Attached images: only providers with a vision model, called with it
+  vision?: boolean;
+  // Tool calling: only providers that support it
+  tools?: boolean;
+}
+
+const MODES: LLMMode[] = ['canvas', 'diagram'];
+
+// ============ PROVIDER IMPLEMENTATIONS ============
+
+function imageDataURL(image: ChatImage): string {
+  return `data:${image.mediaType};base64,${image.data}`;
+}
+
+// OpenAI wire format (also Groq and compatible servers): images become image_url content parts
+type OpenAIMessage =
+  | { role: ChatMessage['role']; content: string }
+  | { role: 'user'; content: ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[] };
+
+function toOpenAIMessages(messages: ChatMessage[]): OpenAIMessage[] {
+  return messages.map(({ role, content, images }) => role === 'user' && images?.length
+    ? {
+      role,
+      content: [
+        { type: 'text' as const, text: content },
+        ...images.map(image => ({ type: 'image_url' as const, image_url: { url: imageDataURL(image) } }))
+      ]
+    }
+    : { role, content });
+}
+
+// Arguments arrive as a JSON string; a call with broken arguments still goes through, empty,
+// and is rejected by whoever runs it
+function parseToolArguments(json: string | undefined): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(json || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toOpenAITools(request: CompletionRequest) {
+  return request.tools?.length
+    ? { tools: request.tools.map(tool => ({ type: 'function' as const, function: tool })) }
+    : {};
+}
+
+// Streamed tool calls arrive as fragments keyed by index. A call is complete once a later
+// index starts, or the stream ends.
+class ToolCallAssembler {
+  private calls: { name: string; arguments: string }[] = [];
+  private emitted = 0;
+  private onToolCall?: (call: ToolCall) => void;
+
+  constructor(onToolCall?: (call: ToolCall) => void) {
+    this.onToolCall = onToolCall;
+  }
+
+  add(index: number, name?: string, argumentsFragment?: string) {
+    this.flush(index);
+    const call = this.calls[index] ??= { name: '', arguments: '' };
+    if (name) call.name += name;
+    if (argumentsFragment) call.arguments += argumentsFragment;
+  }
+
+  // Emit every call before `upTo` (all of them by default)
+  flush(upTo = this.calls.length) {
+    for (; this.emitted < Math.min(upTo, this.calls.length); this.emitted++) {
+      const call = this.calls[this.emitted];
+      if (call?.name) this.onToolCall?.({ name: call.name, arguments: parseToolArguments(call.arguments) });
+    }
+  }
+}
+
+// OpenAI-style usage block (Groq uses the same shape)
+function reportUsage(request: CompletionRequest, usage?: { prompt_tokens?: number; completion_tokens?: number } | null) {
+  if (!usage) return;
+  request.onUsage?.({
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0
+  });
+}
+
+function createOpenAIProvider(config: ProviderConfig): LLMProvider {
+  // Retries happen in the shared request layer, not inside the SDK
+  const client = new OpenAI({
+    apiKey: config.apiKey || 'not-needed',
+    baseURL: config.baseURL,
+    maxRetries: 0
+  });
+
+  const supportsJsonMode = config.supportsJsonMode ?? config.kind === 'openai';
+  const supportsTools = config.supportsTools ?? config.kind === 'openai';
+  // Self-hosted OpenAI-compatible servers do not all accept stream_options
+  const streamUsage = config.kind === 'openai';
+
+  return {
+    id: config.id,
+    kind: config.kind,
+    model: config.model,
+    visionModel: config.visionModel,
+    supportsJsonMode,
+    supportsTools,
+    async complete(request) {
+      const completion = await client.chat.completions.create({
+        model: request.model,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...toOpenAITools(request),
+        ...(request.json && supportsJsonMode ? { response_format: { type: 'json_object' as const } } : {})
+      }, { signal: request.signal });
+      reportUsage(request, completion.usage);
+      const message = completion.choices[0]?.message;
+      message?.tool_calls?.forEach(call => {
+        if (call.type === 'function') {
+          request.onToolCall?.({ name: call.function.name, arguments: parseToolArguments(call.function.arguments) });
+        }
+      });
+      return message?.content || '';
+    },
+    async *stream(request) {
+      const stream = await client.chat.completions.create({
+        model: request.model,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+        ...toOpenAITools(request),
+        ...(streamUsage ? { stream_options: { include_usage: true } } : {}),
+        ...(request.json && supportsJsonMode ? { response_format: { type: 'json_object' as const } } : {})
+      }, { signal: request.signal });
+      const toolCalls = new ToolCallAssembler(request.onToolCall);
+      for await (const chunk of stream) {
+        // With include_usage the last chunk has no choices, only the counts
+        reportUsage(request, chunk.usage);
+        const delta = chunk.choices[0]?.delta;
+        delta?.tool_calls?.forEach(call => toolCalls.add(call.index, call.function?.name, call.function?.arguments));
+        if (delta?.content) yield delta.content;
+      }
+      toolCalls.flush();
+    }
+  };
+}
+
+function createGroqProvider(config: ProviderConfig): LLMProvider {
+  const client = new Groq({
+    apiKey: config.apiKey || '',
+    baseURL: config.baseURL,
+    maxRetries: 0
+  });
+
+  const supportsJsonMode = config.supportsJsonMode ?? false;
+
+  return {
+    id: config.id,
+    kind: config.kind,
+    model: config.model,
+    visionModel: config.visionModel,
+    supportsJsonMode,
+    supportsTools: config.supportsTools ?? true,
+    async complete(request) {
+      const completion = await client.chat.completions.create({
+        model: request.model,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...toOpenAITools(request),
+        ...(request.json && supportsJsonMode ? { response_format: { type: 'json_object' as const } } : {})
+      }, { signal: request.signal });
+      reportUsage(request, completion.usage);
+      const message = completion.choices[0]?.message;
+      message?.tool_calls?.forEach(call => {
+        request.onToolCall?.({ name: call.function.name, arguments: parseToolArguments(call.function.arguments) });
+      });
+      return message?.content || '';
+    },
+    async *stream(request) {
+      const stream = await client.chat.completions.create({
+        model: request.model,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+        ...toOpenAITools(request),
+        ...(request.json && supportsJsonMode ? { response_format: { type: 'json_object' as const } } : {})
+      }, { signal: request.signal });
+      // Groq sends each tool call whole, but in the same fragment format as OpenAI
+      const toolCalls = new ToolCallAssembler(request.onToolCall);
+      for await (const chunk of stream) {
+        // Groq puts the counts on the final chunk
+        reportUsage(request, chunk.x_groq?.usage);
+        const delta = chunk.choices[0]?.delta;
+        delta?.tool_calls?.forEach(call => toolCalls.add(call.index, call.function?.name, call.function?.arguments));
+        if (delta?.content) yield delta.content;
+      }
+      toolCalls.flush();
+    }
+  };
+}
+
+// Anthropic Messages API over fetch - no SDK needed, system prompts go in a separate field
+function createAnthropicProvider(config: ProviderConfig): LLMProvider {
+  const baseURL = (config.baseURL || 'https://api.anthropic.com').replace(/\/$/, '');
+
+  const send = async (request: CompletionRequest, stream: boolean): Promise<Response> => {
+    const system = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+    // Images go before the question, as Anthropic recommends
+    const messages = request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({
+        role: m.role,
+        content: m.images?.length
+          ? [
+            ...m.images.map(image => ({
+              type: 'image',
+              source: { type: 'base64', media_type: image.mediaType, data: image.data }
+            })),
+            { type: 'text', text: m.content }
+          ]
+          : m.content
+      }));
+
+    const response = await fetch(`${baseURL}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey || '',
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: request.model,
+        system: system || undefined,
+        messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens ?? 2500,
+        tools: request.tools?.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+        stream
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Anthropic API error');
+    }
+    return response;
+  };
+
+  return {
+    id: config.id,
+    kind: config.kind,
+    model: config.model,
+    visionModel: config.visionModel,
+    supportsJsonMode: false,
+    supportsTools: true,
+    async complete(request) {
+      const response = await send(request, false);
+      const data = await response.json() as {
+        content?: { type: string; text?: string; name?: string; input?: Record<string, unknown> }[];
+        usage?: { input_tokens?: number; output_tokens?: number };
+      };
+      request.onUsage?.({
+        promptTokens: data.usage?.input_tokens || 0,
+        completionTokens: data.usage?.output_tokens || 0
+      });
+      (data.content || [])
+        .filter(block => block.type === 'tool_use' && block.name)
+        .forEach(block => request.onToolCall?.({ name: block.name as string, arguments: block.input || {} }));
+      return (data.content || [])
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join('');
+    },
+    async *stream(request) {
+      const response = await send(request, true);
+      let promptTokens = 0;
+      // The tool_use block being streamed: its input arrives as partial JSON
+      let toolUse: { name: string; json: string } | null = null;
+      for await (const data of readServerSentEvents(response)) {
+        const event = JSON.parse(data) as {
+          type: string;
+          delta?: { type: string; text?: string; partial_json?: string };
+          content_block?: { type: string; name?: string };
+          message?: { usage?: { input_tokens?: number } };
+          usage?: { output_tokens?: number };
+        };
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+          yield event.delta.text;
+        } else if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+          toolUse = { name: event.content_block.name || '', json: '' };
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta' && toolUse) {
+          toolUse.json += event.delta.partial_json || '';
+        } else if (event.type === 'content_block_stop' && toolUse) {
+          request.onToolCall?.({ name: toolUse.name, arguments: parseToolArguments(toolUse.json) });
+          toolUse = null;
+        } else if (event.type === 'message_start') {
+          promptTokens = event.message?.usage?.input_tokens || 0;
+        } else if (event.type === 'message_delta' && event.usage) {
+          // Output tokens so far are cumulative; the last message_delta has the total
+          request.onUsage?.({ promptTokens, completionTokens: event.usage.output_tokens || 0 });
+        }
+      }
+    }
+  };
+}
+
+// Serves recorded completions (see fixtures.ts) - no network, same answer every time
+function createReplayProvider(config: ProviderConfig): LLMProvider {
+  const store = new FixtureStore(config.fixturesDir);
+
+  const find = (request: CompletionRequest) => {
+    const fixture = store.findChat(request.messages);
+    if (!fixture) {
+      // Not retryable: replaying again will not make a recording appear
+      throw new RequestError('failed', 'No recorded fixture matches this request. Record it first with AI_FIXTURES=record.');
+    }
+    if (fixture.usage) request.onUsage?.(fixture.usage);
+    return fixture;
+  };
+
+  return {
+    id: config.id,
+    kind: config.kind,
+    model: config.model,
+    visionModel: config.visionModel,
+    // Recordings are stored after JSON clean-up, so nothing needs stripping on the way out
+    supportsJsonMode: true,
+    supportsTools: true,
+    async complete(request) {
+      const fixture = find(request);
+      fixture.toolCalls?.forEach(({ call }) => request.onToolCall?.(call));
+      return fixture.chunks.join('');
+    },
+    async *stream(request) {
+      const fixture = find(request);
+      const toolCalls = fixture.toolCalls || [];
+      // Tool calls go back where they were made: `at` is the number of chunks streamed before them
+      for (const [index, chunk] of fixture.chunks.entries()) {
+        toolCalls.filter(({ at }) => at === index).forEach(({ call }) => request.onToolCall?.(call));
+        yield chunk;
+      }
+      toolCalls.filter(({ at }) => at >= fixture.chunks.length).forEach(({ call }) => request.onToolCall?.(call));
+    }
+  };
+}
+
+// Yields the `data:` payload of each server-sent event in a streamed response body
+async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.startsWith('data:')) yield line.slice(5).trim();
+    }
+  }
+}
+
+// New backends only need an entry here
+const providerFactories: Record<ProviderKind, (config: ProviderConfig) => LLMProvider> = {
+  'openai': createOpenAIProvider,
+  'groq': createGroqProvider,
+  'anthropic': createAnthropicProvider,
+  // Ollama, llama.cpp, LM Studio, vLLM... all speak the OpenAI wire format
+  'openai-compatible': createOpenAIProvider,
+  'replay': createReplayProvider
+};
+
+// ============ REGISTRY ============
+
+export class ProviderRegistry {
+  private providers = new Map<string, LLMProvider>();
+  private breakers = new Map<string, CircuitBreaker>();
+  private config: RegistryConfig;
+
+  constructor(config: RegistryConfig) {
+    this.config = config;
+    for (const providerConfig of config.providers) {
+      this.providers.set(providerConfig.id, providerFactories[providerConfig.kind](providerConfig));
+      this.breakers.set(providerConfig.id, new CircuitBreaker());
+    }
+  }
+
+  // Ordered providers for a mode, skipping ids that are not configured and providers that
+  // cannot meet the requirements. For images the provider's vision model is used.
+  getChain(mode: LLMMode, { vision = false, tools = false }: ChainRequirements = {}): ResolvedProvider[] {
+    const override = this.config.modes[mode];
+    const chain = override?.chain?.length ? override.chain : this.config.chain;
+
+    return chain
+      .map(id => this.providers.get(id))
+      .filter((provider): provider is LLMProvider =>
+        !!provider && (!vision || !!provider.visionModel) && (!tools || provider.supportsTools))
+      .map(provider => ({
+        provider,
+        model: vision ? provider.visionModel as string : override?.models?.[provider.id] || provider.model,
+        breaker: this.breakers.get(provider.id) as CircuitBreaker
+      }));
+  }
+
+  hasProviders(): boolean {
+    return this.providers.size > 0;
+  }
+}
+
+// ============ CONFIG FROM ENVIRONMENT ============
+
+export type Env = Record<string, string | undefined>;
+
+function splitList(value?: string): string[] {
+  return (value || '')
+    .split(',')
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+// Reads provider settings from env vars, e.g. OPENAI_API_KEY, LLM_CHAIN=local,groq,
+// GROQ_DIAGRAM_MODEL. A provider is only registered when it has a key (or a base URL for local).
+export function loadRegistryConfig(env: Env, prefix = ''): RegistryConfig {
+  const get = (name: string) => env[prefix + name] || undefined;
+  const providers: ProviderConfig[] = [];
+
+  // Replay mode answers everything from recordings; no other provider is registered
+  if (readFixtureMode(env) === 'replay') {
+    return {
+      providers: [{ id: 'replay', kind: 'replay', model: 'replay', visionModel: 'replay', fixturesDir: env.AI_FIXTURES_DIR || DEFAULT_FIXTURES_DIR }],
+      chain: ['replay'],
+      modes: {}
+    };
+  }
+
+  if (get('OPENAI_API_KEY')) {
+    providers.push({
+      id: 'openai',
+      kind: 'openai',
+      apiKey: get('OPENAI_API_KEY'),
+      baseURL: get('OPENAI_BASE_URL'),
+      model: get('OPENAI_MODEL') || 'gpt-4o-mini',
+      visionModel: get('OPENAI_VISION_MODEL') || get('OPENAI_MODEL') || 'gpt-4o-mini'
+    });
+  }
+
+  if (get('GROQ_API_KEY')) {
+    providers.push({
+      id: 'groq',
+      kind: 'groq',
+      apiKey: get('GROQ_API_KEY'),
+      model: get('GROQ_MODEL') || 'llama-3.3-70b-versatile',
+      // Groq's text models are blind; Llama 4 Scout reads images
+      visionModel: get('GROQ_VISION_MODEL') || 'meta-llama/llama-4-scout-17b-16e-instruct'
+    });
+  }
+
+  if (get('ANTHROPIC_API_KEY')) {
+    providers.push({
+      id: 'anthropic',
+      kind: 'anthropic',
+      apiKey: get('ANTHROPIC_API_KEY'),
+      baseURL: get('ANTHROPIC_BASE_URL'),
+      model: get('ANTHROPIC_MODEL') || 'claude-3-5-haiku-latest',
+      visionModel: get('ANTHROPIC_VISION_MODEL') || get('ANTHROPIC_MODEL') || 'claude-3-5-haiku-latest'
+    });
+  }
+
+  if (get('LOCAL_LLM_BASE_URL')) {
+    providers.push({
+      id: 'local',
+      kind: 'openai-compatible',
+      apiKey: get('LOCAL_LLM_API_KEY'),
+      baseURL: get('LOCAL_LLM_BASE_URL'),
+      model: get('LOCAL_LLM_MODEL') || 'llama3.1',
+      // Only when a multimodal model (llava, llama3.2-vision...) is pulled
+      visionModel: get('LOCAL_LLM_VISION_MODEL'),
+      supportsJsonMode: get('LOCAL_LLM_JSON_MODE') === 'true',
+      // Only models trained for function calling (llama3.1, qwen2.5, mistral-nemo...)
+      supportsTools: get('LOCAL_LLM_TOOLS') === 'true'
+    });
+  }
+
+  // Default chain keeps the historical order: OpenAI first, Groq second
+  const chain = splitList(get('LLM_CHAIN'));
+  const modes: Partial<Record<LLMMode, ModeOverride>> = {};
+
+  for (const mode of MODES) {
+    const modeKey = mode.toUpperCase();
+    const models: Record<string, string> = {};
+    for (const provider of providers) {
+      const model = get(`${provider.id.toUpperCase()}_${modeKey}_MODEL`);
+      if (model) models[provider.id] = model;
+    }
+    modes[mode] = { chain: splitList(get(`LLM_${modeKey}_CHAIN`)), models };
+  }
+
+  return {
+    providers,
+    chain: chain.length ? chain : providers.map(p => p.id),
+    modes
+  };
+}
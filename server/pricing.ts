@@ -0,0 +1,66 @@
+// Price list for usage accounting - list prices in USD, close enough for budgets and dashboards.
+// Unknown models can be priced with MODEL_PRICES=model=input/output,... (USD per million tokens).
+
+import type { Env } from './llmProviders';
+
+export interface ModelPrice {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet-latest': { input: 3, output: 15 }
+};
+
+// Rough token count for providers that report none (about four characters per token)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// What one attached photo usually costs as input after the provider scales it down
+export const TOKENS_PER_IMAGE = 1_000;
+
+export class PriceList {
+  private prices: Record<string, ModelPrice>;
+  // ElevenLabs bills per character
+  readonly speechPer1kChars: number;
+
+  constructor(env: Env) {
+    this.prices = { ...DEFAULT_MODEL_PRICES, ...parsePriceOverrides(env.MODEL_PRICES) };
+    const speech = Number(env.ELEVENLABS_COST_PER_1K_CHARS);
+    this.speechPer1kChars = Number.isFinite(speech) && speech >= 0 && env.ELEVENLABS_COST_PER_1K_CHARS ? speech : 0.3;
+  }
+
+  // Self-hosted models (and anything unlisted) count as free
+  priceOf(model: string): ModelPrice {
+    return this.prices[model] || { input: 0, output: 0 };
+  }
+
+  completionCost(model: string, promptTokens: number, completionTokens: number): number {
+    const price = this.priceOf(model);
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+  }
+
+  speechCost(characters: number): number {
+    return characters / 1000 * this.speechPer1kChars;
+  }
+}
+
+// "model=input/output,model2=input/output"
+function parsePriceOverrides(value?: string): Record<string, ModelPrice> {
+  const prices: Record<string, ModelPrice> = {};
+  for (const entry of (value || '').split(',')) {
+    const match = entry.trim().match(/^(.+)=([\d.]+)\/([\d.]+)$/);
+    if (match) prices[match[1]] = { input: Number(match[2]), output: Number(match[3]) };
+  }
+  return prices;
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from './rateLimiter';
+
+describe('RateLimiter', () => {
+  it('allows up to the limit per window and says when to come back', () => {
+    const limiter = new RateLimiter(2, 1_000);
+    expect(limiter.check('a', 0)).toEqual({ allowed: true, retryAfterMs: 0 });
+    expect(limiter.check('a', 100)).toEqual({ allowed: true, retryAfterMs: 0 });
+    expect(limiter.check('a', 400)).toEqual({ allowed: false, retryAfterMs: 600 });
+  });
+
+  it('starts a new window once the old one is over', () => {
+    const limiter = new RateLimiter(1, 1_000);
+    limiter.check('a', 0);
+    expect(limiter.check('a', 999).allowed).toBe(false);
+    expect(limiter.check('a', 1_000).allowed).toBe(true);
+  });
+
+  it('counts each client separately', () => {
+    const limiter = new RateLimiter(1, 1_000);
+    limiter.check('a', 0);
+    expect(limiter.check('b', 0).allowed).toBe(true);
+    expect(limiter.check('a', 0).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+// Per-client fixed-window rate limiting, keyed by client address
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // How long until the client may try again (0 when allowed)
+  retryAfterMs: number;
+}
+
+export class RateLimiter {
+  private limit: number;
+  private windowMs: number;
+  private windows = new Map<string, { start: number; count: number }>();
+
+  constructor(limit: number, windowMs = 60_000) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+  }
+
+  check(clientKey: string, now = Date.now()): RateLimitResult {
+    this.prune(now);
+
+    let window = this.windows.get(clientKey);
+    if (!window || now - window.start >= this.windowMs) {
+      window = { start: now, count: 0 };
+      this.windows.set(clientKey, window);
+    }
+
+    if (window.count >= this.limit) {
+      return { allowed: false, retryAfterMs: window.start + this.windowMs - now };
+    }
+
+    window.count++;
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  // Drop expired windows so the map does not grow with every client ever seen
+  private prune(now: number) {
+    for (const [key, window] of this.windows) {
+      if (now - window.start >= this.windowMs) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
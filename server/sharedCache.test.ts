@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ChatMessage } from '../src/types';
+import { SharedCache, isShareableAnswer, sharedCacheKey } from './sharedCache';
+
+const system: ChatMessage = { role: 'system', content: 'You are a tutor.' };
+
+function key(messages: ChatMessage[], language = 'en') {
+  return sharedCacheKey('canvas', 'model-a', language, messages);
+}
+
+describe('sharedCacheKey', () => {
+  it('files the same question under the same key however it is typed', () => {
+    const a = key([system, { role: 'user', content: 'What is gravity?' }]);
+    expect(a).not.toBeNull();
+    expect(key([system, { role: 'user', content: '  what is GRAVITY ' }])).toBe(a);
+  });
+
+  it('keeps mode, model, language and instructions apart', () => {
+    const messages: ChatMessage[] = [system, { role: 'user', content: 'What is gravity?' }];
+    const a = key(messages);
+    expect(sharedCacheKey('diagram', 'model-a', 'en', messages)).not.toBe(a);
+    expect(sharedCacheKey('canvas', 'model-b', 'en', messages)).not.toBe(a);
+    expect(key(messages, 'de')).not.toBe(a);
+    expect(key([{ role: 'system', content: 'Summary: we talked about apples.' }, messages[1]])).not.toBe(a);
+  });
+
+  it('does not share conversations, photos or anything not ending in a question', () => {
+    const question: ChatMessage = { role: 'user', content: 'And why?' };
+    expect(key([system, { role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello' }, question])).toBeNull();
+    expect(key([system, { ...question, images: [{ mediaType: 'image/png', data: 'AAAA' }] }])).toBeNull();
+    expect(key([system, { role: 'assistant', content: 'Hello' }])).toBeNull();
+    expect(key([])).toBeNull();
+  });
+});
+
+describe('isShareableAnswer', () => {
+  const canvas = { explanation: 'Gravity pulls.', isNewTopic: true, drawCommands: [{ type: 'circle', x: 100, y: 100 }] };
+
+  it('shares only valid canvas answers to a new topic', () => {
+    expect(isShareableAnswer('canvas', JSON.stringify(canvas))).toBe(true);
+    expect(isShareableAnswer('canvas', JSON.stringify({ ...canvas, isNewTopic: false }))).toBe(false);
+    expect(isShareableAnswer('canvas', JSON.stringify({ ...canvas, drawCommands: [{ type: 'text', x: 0, y: 0 }] }))).toBe(false);
+    expect(isShareableAnswer('canvas', '{"explanation": "cut off')).toBe(false);
+  });
+
+  it('shares diagrams with code and an explanation', () => {
+    const diagram = { mermaidCode: 'graph TD; A-->B', explanation: 'A leads to B.' };
+    expect(isShareableAnswer('diagram', JSON.stringify(diagram))).toBe(true);
+    expect(isShareableAnswer('diagram', JSON.stringify({ ...diagram, mermaidCode: ' ' }))).toBe(false);
+    expect(isShareableAnswer('diagram', JSON.stringify({ ...diagram, isNewTopic: false }))).toBe(false);
+  });
+});
+
+describe('SharedCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('expires entries after the ttl', () => {
+    vi.useFakeTimers({ now: 0 });
+    const cache = new SharedCache(1_000);
+    cache.set('k', 'answer');
+    vi.setSystemTime(999);
+    expect(cache.get('k')).toBe('answer');
+    vi.setSystemTime(1_000);
+    expect(cache.get('k')).toBeNull();
+  });
+
+  it('evicts the oldest write beyond maxEntries', () => {
+    const cache = new SharedCache(60_000, undefined, 2);
+    cache.set('a', '1');
+    cache.set('b', '2');
+    cache.set('a', '3');
+    cache.set('c', '4');
+    expect([cache.get('a'), cache.get('b'), cache.get('c')]).toEqual(['3', null, '4']);
+  });
+
+  it('empties on clear', () => {
+    const cache = new SharedCache(60_000);
+    cache.set('a', '1');
+    cache.clear();
+    expect(cache.get('a')).toBeNull();
+  });
+});
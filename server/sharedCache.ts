@@ -0,0 +1,111 @@
+// Shared response cache - completions other clients can reuse for the same question
+// The server files an answer under a key it derives from the request that produced it, and only
+// once the answer has passed validation. Clients look entries up by sending the same request;
+// they never name a slot or upload text.
+
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import type { ChatMessage, LLMMode } from '../src/types';
+import { normalizeQuestion } from '../src/services/questionText';
+import { validateAIResponse } from '../src/services/responseSchema';
+
+interface SharedCacheEntry {
+  text: string;
+  expiresAt: number;
+}
+
+// The slot for a completion request, or null when its answer is not for sharing. Only a single
+// question on top of system instructions is self-contained: no conversation, no photos. The
+// instructions are hashed into the key, so an answer is only ever served for the prompt that
+// produced it - a memory summary or a doctored system prompt lands in a slot nobody else asks for.
+export function sharedCacheKey(mode: LLMMode, model: string, language: string, messages: ChatMessage[]): string | null {
+  const question = messages[messages.length - 1];
+  const instructions = messages.slice(0, -1);
+  if (question?.role !== 'user' || question.images?.length || instructions.some(m => m.role !== 'system')) {
+    return null;
+  }
+
+  const digest = createHash('sha256').update(JSON.stringify(instructions.map(m => m.content))).digest('hex');
+  return `${mode}|${model}|${language}|${digest}|${normalizeQuestion(question.content)}`;
+}
+
+// Whether a completion is a complete, valid answer to a new topic. Follow-ups, and first passes
+// the client will have to repair, are not stored.
+export function isShareableAnswer(mode: LLMMode, text: string): boolean {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return false;
+  }
+
+  if (mode === 'canvas') {
+    const { value, issues } = validateAIResponse(parsed);
+    return issues.length === 0 && value.isNewTopic === true;
+  }
+  // Diagrams are compile-checked by the client that renders them, shared or not
+  const { mermaidCode, explanation, isNewTopic } = (parsed && typeof parsed === 'object' ? parsed : {}) as Record<string, unknown>;
+  return typeof mermaidCode === 'string' && !!mermaidCode.trim() &&
+    typeof explanation === 'string' && !!explanation.trim() &&
+    isNewTopic !== false;
+}
+
+export class SharedCache {
+  private entries = new Map<string, SharedCacheEntry>();
+  private filePath?: string;
+  private ttlMs: number;
+  private maxEntries: number;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(ttlMs: number, filePath?: string, maxEntries = 1000) {
+    this.ttlMs = ttlMs;
+    this.filePath = filePath;
+    this.maxEntries = maxEntries;
+
+    if (filePath && existsSync(filePath)) {
+      try {
+        const saved = JSON.parse(readFileSync(filePath, 'utf8')) as Record<string, SharedCacheEntry>;
+        this.entries = new Map(Object.entries(saved));
+      } catch (error) {
+        console.warn('Could not read shared cache file:', error);
+      }
+    }
+  }
+
+  get(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.text;
+  }
+
+  set(key: string, text: string) {
+    this.entries.delete(key);
+    this.entries.set(key, { text, expiresAt: Date.now() + this.ttlMs });
+
+    // Map keeps insertion order, so the first key is the oldest write
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    this.scheduleSave();
+  }
+
+  clear() {
+    this.entries.clear();
+    this.scheduleSave();
+  }
+
+  // Batch disk writes - a burst of completions results in one save
+  private scheduleSave() {
+    if (!this.filePath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      writeFile(this.filePath as string, JSON.stringify(Object.fromEntries(this.entries)))
+        .catch(error => console.warn('Could not write shared cache file:', error));
+    }, 1000);
+  }
+}
@@ -0,0 +1,95 @@
+// ElevenLabs text-to-speech upstream - the API key stays on the server
+
+import type { Env } from './llmProviders';
+import { CircuitBreaker, RequestError, errorFromResponse, withRetry } from '../src/services/retryPolicy';
+import type { RequestStatus } from '../src/services/retryPolicy';
+
+// Voice IDs from ElevenLabs
+export const VOICES = {
+  rachel: '21m00Tcm4TlvDq8ikWAM',    // Rachel - calm, warm female
+  adam: 'pNInz6obpgDQGcFmaJgB',       // Adam - deep male
+  josh: 'TxGEqnHWrfWFTfGW9XjX',       // Josh - young male
+  bella: 'EXAVITQu4vr4xnSDxMaL',      // Bella - soft female
+  arnold: 'VR6AewLTigWG4xSOukaG',     // Arnold - crisp male
+  domi: 'AZnzlk1XvdvUeBnXmlld',       // Domi - strong female
+};
+
+export interface TTSConfig {
+  apiKey?: string;
+  baseURL: string;
+  voiceId: string;
+  modelId: string;
+  // Used for every language except English
+  multilingualModelId: string;
+  // ELEVENLABS_VOICE_ID_<LANG> overrides, keyed by lowercase language code
+  languageVoices: Record<string, string>;
+}
+
+export function loadTTSConfig(env: Env): TTSConfig {
+  return {
+    apiKey: env.ELEVENLABS_API_KEY || undefined,
+    baseURL: (env.ELEVENLABS_BASE_URL || 'https://api.elevenlabs.io').replace(/\/$/, ''),
+    // Default voice - Rachel is great for teaching
+    voiceId: env.ELEVENLABS_VOICE_ID || VOICES.rachel,
+    modelId: env.ELEVENLABS_MODEL_ID || 'eleven_monolingual_v1',
+    multilingualModelId: env.ELEVENLABS_MULTILINGUAL_MODEL_ID || 'eleven_multilingual_v2',
+    languageVoices: Object.fromEntries(
+      Object.entries(env)
+        .filter(([key, value]) => key.startsWith('ELEVENLABS_VOICE_ID_') && value)
+        .map(([key, value]) => [key.slice('ELEVENLABS_VOICE_ID_'.length).toLowerCase(), value as string])
+    )
+  };
+}
+
+// Speech is only useful while the lesson is on screen, so give up quickly and let the
+// browser voice take over
+const TTS_RETRY = { maxAttempts: 2, timeoutMs: 15_000, maxRetryAfterMs: 3_000 };
+
+// Returns the upstream response so the audio can be piped straight to the client.
+// Throws a RequestError when ElevenLabs is failing or its circuit is open.
+export async function synthesizeSpeech(
+  config: TTSConfig,
+  breaker: CircuitBreaker,
+  text: string,
+  language = 'en',
+  onStatus?: (status: RequestStatus) => void
+): Promise<Response> {
+  if (!breaker.canRequest()) {
+    throw new RequestError('unavailable', 'Text-to-speech is temporarily disabled', 503, breaker.retryInMs());
+  }
+
+  // The default voice speaks other languages fine through the multilingual model
+  const voiceId = config.languageVoices[language] || config.voiceId;
+  const modelId = language === 'en' ? config.modelId : config.multilingualModelId;
+
+  try {
+    const response = await withRetry(async signal => {
+      const upstream = await fetch(`${config.baseURL}/v1/text-to-speech/${voiceId}`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'audio/mpeg',
+          'Content-Type': 'application/json',
+          'xi-api-key': config.apiKey || '',
+        },
+        body: JSON.stringify({
+          text,
+          model_id: modelId,
+          voice_settings: {
+            stability: 0.5,
+            similarity_boost: 0.75,
+            style: 0.0,
+            use_speaker_boost: true
+          }
+        }),
+        signal
+      });
+      if (!upstream.ok) throw await errorFromResponse(upstream, 'ElevenLabs API error');
+      return upstream;
+    }, { ...TTS_RETRY, provider: 'elevenlabs', onStatus });
+    breaker.recordSuccess();
+    return response;
+  } catch (error) {
+    if (error instanceof RequestError) breaker.recordFailure(error);
+    throw error;
+  }
+}
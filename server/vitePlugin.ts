@@ -0,0 +1,20 @@
+// Serves the backend API from Vite's dev and preview servers, so `npm run dev` needs no second process
+
+import { loadEnv } from 'vite';
+import type { Plugin } from 'vite';
+import { createApiMiddleware } from './api';
+
+export function tutorApiPlugin(): Plugin {
+  return {
+    name: 'aitutor-api',
+    configureServer(server) {
+      // Empty prefix: the backend reads OPENAI_API_KEY etc., which are never exposed to the client
+      const env = loadEnv(server.config.mode, server.config.envDir || process.cwd(), '');
+      server.middlewares.use(createApiMiddleware(env));
+    },
+    configurePreviewServer(server) {
+      const env = loadEnv(server.config.mode, server.config.envDir || process.cwd(), '');
+      server.middlewares.use(createApiMiddleware(env));
+    }
+  };
+}
@@ -2,6 +2,10 @@ import { useEffect, useCallback } from 'react';
 import { Tldraw, Editor } from 'tldraw';
 import 'tldraw/tldraw.css';
 import { drawingController } from '../services/drawingController';
+import { FormulaShapeUtil } from './FormulaShape';
+
+// Custom shapes the tutor can draw besides tldraw's built-in ones
+const SHAPE_UTILS = [FormulaShapeUtil];
 
 interface CanvasProps {
   onEditorReady?: (editor: Editor) => void;
@@ -31,6 +35,7 @@ export function Canvas({ onEditorReady }: CanvasProps) {
       <div className="canvas-wrapper">
         <Tldraw
           onMount={handleMount}
+          shapeUtils={SHAPE_UTILS}
           hideUi={false}
           inferDarkMode={true}
         />
@@ -1,11 +1,51 @@
 import { useState, useRef, useEffect } from 'react';
-import type { Message, TutorState } from '../types';
-import { getAIResponse, getMermaidResponse, isAPIKeyConfigured, resetTopicContext } from '../services/aiService';
+import type { ChatImage, Message, TutorState } from '../types';
+import {
+  getAIResponse,
+  getCachedAIResponse,
+  getCachedMermaidResponse,
+  getMermaidResponse,
+  isAPIKeyConfigured,
+  summarizeConversation
+} from '../services/aiService';
+import { TutorSession } from '../services/tutorSession';
 import { speechService } from '../services/speechService';
 import { elevenLabsService } from '../services/elevenLabsService';
 import { drawingController } from '../services/drawingController';
 import { stepSyncController } from '../services/stepSyncController';
-import { findPreGeneratedTopic, getQuickPrompts } from '../services/preGeneratedTopics';
+import { findPreGeneratedTopic, getPreGeneratedTopicByName, getQuickPrompts } from '../services/preGeneratedTopics';
+import {
+  createQuiz,
+  formatQuestion,
+  gradeAnswer,
+  isQuizFinished,
+  recordAnswer,
+  summarizeQuiz
+} from '../services/quizService';
+import type { Quiz } from '../services/quizService';
+import {
+  advanceLesson,
+  createSocraticLesson,
+  isLessonFinished,
+  judgeReply,
+  recordMiss
+} from '../services/socraticService';
+import type { SocraticLesson } from '../services/socraticService';
+import { QuizPanel } from './QuizPanel';
+import { LearnerProfileEditor } from './LearnerProfileEditor';
+import { UsagePanel } from './UsagePanel';
+import { MarkdownMessage } from './MarkdownMessage';
+import { MessageCitations } from './MessageCitations';
+import { NotesPanel } from './NotesPanel';
+import { PACE_TIMINGS, loadLearnerProfile, saveLearnerProfile } from '../services/learnerProfile';
+import type { LearnerProfile } from '../services/learnerProfile';
+import { LANGUAGES, LANGUAGE_CODES, loadLanguage, saveLanguage } from '../services/language';
+import type { LanguageCode } from '../services/language';
+import { getBackendStatus, onRequestStatus } from '../services/apiClient';
+import { MAX_ATTACHMENTS, imageFilesFrom, prepareImage, toDataURL } from '../services/imageAttachments';
+import { courseNotes } from '../services/courseNotes';
+import { describeRequestError, describeRequestStatus } from '../services/retryPolicy';
+import { loadSessionBudget, saveSessionBudget } from '../services/usageTracker';
 import type { ViewMode } from '../App';
 
 interface ChatProps {
@@ -27,30 +67,162 @@ export function Chat({ tutorState, setTutorState, viewMode, onDiagramGenerated }
   const [input, setInput] = useState('');
   const [taskBreakdown, setTaskBreakdown] = useState<string[]>([]);
   const [currentStep, setCurrentStep] = useState<number>(-1);
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  // Socratic mode asks a guiding question before drawing each step
+  const [socraticEnabled, setSocraticEnabled] = useState(false);
+  const [lesson, setLesson] = useState<SocraticLesson | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const [conversationHistory, setConversationHistory] = useState<
-    { role: 'user' | 'assistant'; content: string }[]
-  >([]);
+  // Topic history and conversation memory belong to this chat, not to the AI service
+  const [profile, setProfile] = useState<LearnerProfile>(loadLearnerProfile);
+  const [isEditingProfile, setIsEditingProfile] = useState(false);
+  const [language, setLanguage] = useState<LanguageCode>(loadLanguage);
+  // Latest retry/fallback from the request layer, e.g. "groq rate limited, retrying in 5s"
+  const [requestNote, setRequestNote] = useState('');
+  const [budgetUsd, setBudgetUsd] = useState(loadSessionBudget);
+  const [isShowingUsage, setIsShowingUsage] = useState(false);
+  const [isShowingNotes, setIsShowingNotes] = useState(false);
+  // Photos and screenshots waiting to go out with the next question
+  const [attachments, setAttachments] = useState<ChatImage[]>([]);
+  const [attachmentNote, setAttachmentNote] = useState('');
+  const [visionAvailable, setVisionAvailable] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // The answer still being fetched, so stopping or asking something else can cancel it
+  const requestRef = useRef<AbortController | null>(null);
+  const [session] = useState(() => {
+    const created: TutorSession = new TutorSession({
+      mode: viewMode,
+      profile,
+      language,
+      budgetUsd,
+      memory: {
+        // Summaries are billed to this session like every other call
+        summarize: (previousSummary, turns) => summarizeConversation(previousSummary, turns, created),
+        describeCanvas: () => drawingController.describeCanvas(),
+      },
+    });
+    return created;
+  });
+  const { memory } = session;
+
+  useEffect(() => {
+    session.mode = viewMode;
+  }, [session, viewMode]);
+
+  useEffect(() => {
+    session.profile = profile;
+    stepSyncController.setPacing(PACE_TIMINGS[profile.pace]);
+  }, [session, profile]);
+
+  useEffect(() => {
+    session.language = language;
+    speechService.setLanguage(LANGUAGES[language].locale);
+    elevenLabsService.setLanguage(language);
+  }, [session, language]);
+
+  useEffect(() => {
+    session.budgetUsd = budgetUsd;
+  }, [session, budgetUsd]);
+
+  useEffect(() => {
+    elevenLabsService.setSession(session);
+    return () => elevenLabsService.setSession(null);
+  }, [session]);
+
+  useEffect(() => {
+    return onRequestStatus(status => setRequestNote(describeRequestStatus(status)));
+  }, []);
+
+  useEffect(() => {
+    getBackendStatus().then(status => setVisionAvailable(status.vision));
+  }, []);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const quickPrompts = getQuickPrompts();
+  const quickPrompts = getQuickPrompts(language);
+
+  const handleAttachFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    if (!visionAvailable) {
+      setAttachmentNote('Image questions need a vision model on the server.');
+      return;
+    }
+
+    const room = MAX_ATTACHMENTS - attachments.length;
+    const results = await Promise.allSettled(files.slice(0, room).map(prepareImage));
+    const prepared = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    setAttachments(prev => [...prev, ...prepared].slice(0, MAX_ATTACHMENTS));
+    setAttachmentNote(
+      failed ? (failed.reason instanceof Error ? failed.reason.message : 'An image could not be read')
+        : files.length > room ? `Up to ${MAX_ATTACHMENTS} images per question.`
+          : ''
+    );
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = imageFilesFrom(e.clipboardData);
+    if (files.length === 0) return;
+    e.preventDefault();
+    handleAttachFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    const files = imageFilesFrom(e.dataTransfer);
+    if (files.length === 0) return;
+    e.preventDefault();
+    handleAttachFiles(files);
+  };
+
+  const handleRemoveAttachment = (index: number) => {
+    setAttachments(prev => prev.filter((_, i) => i !== index));
+    setAttachmentNote('');
+  };
 
   const handleSend = async (overrideInput?: string) => {
-    const messageText = overrideInput || input.trim();
+    // Quizzes and Socratic lessons take text replies only
+    const images = quiz || lesson ? [] : attachments;
+    // A photo alone is a question too
+    const messageText = overrideInput || input.trim() || (images.length > 0 ? 'Explain this problem.' : '');
     if (!messageText || tutorState.isProcessing) return;
+    setRequestNote('');
+
+    // While a quiz is running every message is an answer
+    if (quiz) {
+      await handleQuizAnswer(messageText);
+      return;
+    }
+    if (lesson) {
+      await handleSocraticReply(messageText);
+      return;
+    }
 
     const userMessage: Message = {
       id: Date.now().toString(),
       role: 'user',
       content: messageText,
       timestamp: new Date(),
+      ...(images.length > 0 ? { images } : {}),
     };
+    // Memory keeps text only; note the photo so follow-ups still make sense
+    const rememberedQuestion = images.length > 0
+      ? `${messageText} [attached ${images.length} image${images.length === 1 ? '' : 's'}]`
+      : messageText;
+
+    // A new question replaces an answer that is still coming in, drawing and narration included
+    if (requestRef.current) {
+      requestRef.current.abort();
+      stepSyncController.stop();
+    }
+    const request = new AbortController();
+    requestRef.current = request;
 
     setMessages(prev => [...prev, userMessage]);
     setInput('');
+    setAttachments([]);
+    setAttachmentNote('');
     setTutorState({ ...tutorState, isProcessing: true });
     setTaskBreakdown([]);
     setCurrentStep(-1);
@@ -58,25 +230,27 @@ export function Chat({ tutorState, setTutorState, viewMode, onDiagramGenerated }
     try {
       // DIAGRAM MODE - Generate Mermaid diagram (no stepwise, output whole diagram)
       if (viewMode === 'diagram') {
-        if (!isAPIKeyConfigured()) {
+        // Cached diagram first, then the network
+        const cached = images.length > 0 ? null : await getCachedMermaidResponse(messageText, session);
+        if (!cached && !isAPIKeyConfigured()) {
           throw new Error('API key not configured');
         }
 
-        const response = await getMermaidResponse(messageText, conversationHistory);
+        const response = cached || await getMermaidResponse(messageText, session, images, request.signal);
+        if (request.signal.aborted) return;
 
         const assistantMessage: Message = {
           id: (Date.now() + 1).toString(),
           role: 'assistant',
           content: response.explanation,
           timestamp: new Date(),
+          fromCache: !!cached,
+          citations: response.citations,
         };
 
         setMessages(prev => [...prev, assistantMessage]);
-        setConversationHistory(prev => [
-          ...prev,
-          { role: 'user', content: messageText },
-          { role: 'assistant', content: response.explanation },
-        ]);
+        memory.addExchange(rememberedQuestion, response.explanation);
+        memory.recordConcepts([response.topic]);
 
         // Send diagram to parent - whole diagram at once
         onDiagramGenerated(response.mermaidCode);
@@ -87,10 +261,21 @@ export function Chat({ tutorState, setTutorState, viewMode, onDiagramGenerated }
           setTutorState(prev => ({ ...prev, isSpeaking: false }));
         });
       }
+      // SOCRATIC MODE - Ask first, draw each step once the student has reasoned it through
+      else if (socraticEnabled && images.length === 0) {
+        await startSocraticLesson(messageText);
+      }
       // CANVAS MODE - Real-time drawing
       else {
-        // Check for pre-generated topic first (instant response)
-        const preGenerated = findPreGeneratedTopic(messageText);
+        // Check for pre-generated topic first (instant response), then the response cache.
+        // Over budget, any built-in lesson that roughly fits beats another paid answer.
+        // A question about a photo, or one the course notes cover, always needs the model.
+        const notesCoverIt = images.length === 0 && (await courseNotes.search(messageText, 1)).length > 0;
+        const preGenerated = images.length > 0 || notesCoverIt
+          ? null
+          : findPreGeneratedTopic(messageText, language, session.isOverBudget());
+        const cached = preGenerated || images.length > 0 ? null : await getCachedAIResponse(messageText, session);
+        if (request.signal.aborted) return;
         
         if (preGenerated) {
           // Use pre-generated content with step-by-step sync
@@ -105,11 +290,9 @@ export function Chat({ tutorState, setTutorState, viewMode, onDiagramGenerated }
             timestamp: new Date(),
           };
           setMessages(prev => [...prev, assistantMessage]);
-          setConversationHistory(prev => [
-            ...prev,
-            { role: 'user', content: messageText },
-            { role: 'assistant', content: preGenerated.explanation },
-          ]);
+          session.recordTopic('canvas', preGenerated.topic, true);
+          memory.addExchange(messageText, preGenerated.explanation);
+          memory.recordConcepts(preGenerated.taskBreakdown);
 
           setTutorState({ isProcessing: false, isSpeaking: true, isListening: false });
 
@@ -122,62 +305,332 @@ export function Chat({ tutorState, setTutorState, viewMode, onDiagramGenerated }
               setCurrentStep(-1);
             }
           );
+        } else if (cached) {
+          // Replay a cached lesson exactly like a finished AI response
+          if (cached.taskBreakdown && cached.taskBreakdown.length > 0) {
+            setTaskBreakdown(cached.taskBreakdown);
+          }
+          if (cached.isNewTopic) {
+            drawingController.clearCanvas();
+          }
+
+          const assistantMessage: Message = {
+            id: (Date.now() + 1).toString(),
+            role: 'assistant',
+            content: cached.explanation,
+            timestamp: new Date(),
+            fromCache: true,
+            citations: cached.citations,
+          };
+          setMessages(prev => [...prev, assistantMessage]);
+          memory.addExchange(messageText, cached.explanation);
+          memory.recordConcepts([cached.topic, ...(cached.taskBreakdown || [])]);
+
+          setTutorState({ isProcessing: false, isSpeaking: true, isListening: false });
+
+          await stepSyncController.executeAIResponse(
+            cached.narration,
+            cached.drawCommands,
+            () => {},
+            () => setTutorState(prev => ({ ...prev, isSpeaking: false }))
+          );
         } else {
           // Use AI API for non-pre-generated queries
           if (!isAPIKeyConfigured()) {
             throw new Error('API key not configured');
           }
 
-          const response = await getAIResponse(messageText, conversationHistory);
+          // Stream the response: strokes, narration and chat text start before the model finishes
+          const assistantId = (Date.now() + 1).toString();
+          let streamedExplanation = '';
+          let streamedNarration = false;
+          let streamedCommands = false;
+          let started = false;
+
+          const live = stepSyncController.startLiveResponse();
+          const markStarted = () => {
+            if (started) return;
+            started = true;
+            setTutorState({ isProcessing: false, isSpeaking: true, isListening: false });
+          };
 
+          let response;
+          try {
+            response = await getAIResponse(messageText, session, {
+              onField: (key, value) => {
+                if (key === 'isNewTopic' && value === true && !streamedCommands) {
+                  drawingController.clearCanvas();
+                }
+                if (key === 'taskBreakdown' && Array.isArray(value) && value.length > 0) {
+                  setTaskBreakdown(value.map(String));
+                }
+              },
+              onDrawCommand: (command) => {
+                streamedCommands = true;
+                markStarted();
+                live.addDrawCommand(command);
+              },
+              onToolCall: (call) => {
+                streamedCommands = true;
+                markStarted();
+                live.addToolCall(call);
+              },
+              onRedraw: (commands, narration) => {
+                // The repaired answer is played in full; nothing is left for the end
+                streamedCommands = true;
+                streamedNarration = true;
+                markStarted();
+                live.redraw(commands, narration);
+              },
+              onNarrationSentence: (sentence) => {
+                streamedNarration = true;
+                markStarted();
+                live.addNarration(sentence);
+              },
+              onExplanationSentence: (sentence) => {
+                const isFirst = !streamedExplanation;
+                streamedExplanation += sentence;
+                const content = streamedExplanation;
+                setMessages(prev => isFirst
+                  ? [...prev, { id: assistantId, role: 'assistant', content, timestamp: new Date() }]
+                  : prev.map(m => m.id === assistantId ? { ...m, content } : m));
+              }
+            }, images, request.signal);
+          } catch (error) {
+            // Stopped or replaced, and whoever aborted it already closed its playback
+            if (request.signal.aborted) return;
+            stepSyncController.stop();
+            await live.finish();
+            throw error;
+          } finally {
+            if (requestRef.current === request) requestRef.current = null;
+          }
+
+          // Anything the stream could not deliver piecewise (e.g. non-JSON output) plays now
           if (response.taskBreakdown && response.taskBreakdown.length > 0) {
             setTaskBreakdown(response.taskBreakdown);
           }
-
-          if (response.isNewTopic) {
-            drawingController.clearCanvas();
+          if (!streamedCommands) {
+            if (response.isNewTopic) drawingController.clearCanvas();
+            response.drawCommands?.forEach(command => live.addDrawCommand(command));
+          }
+          if (!streamedNarration && response.narration) {
+            live.addNarration(response.narration);
           }
 
           const assistantMessage: Message = {
-            id: (Date.now() + 1).toString(),
+            id: assistantId,
             role: 'assistant',
             content: response.explanation,
             timestamp: new Date(),
+            citations: response.citations,
           };
 
-          setMessages(prev => [...prev, assistantMessage]);
-          setConversationHistory(prev => [
-            ...prev,
-            { role: 'user', content: messageText },
-            { role: 'assistant', content: response.explanation },
-          ]);
-
-          setTutorState({ isProcessing: false, isSpeaking: true, isListening: false });
+          setMessages(prev => streamedExplanation
+            ? prev.map(m => m.id === assistantId ? assistantMessage : m)
+            : [...prev, assistantMessage]);
+          memory.addExchange(rememberedQuestion, response.explanation);
+          memory.recordConcepts([response.topic, ...(response.taskBreakdown || [])]);
 
-          // Execute with improved sync
-          await stepSyncController.executeAIResponse(
-            response.narration,
-            response.drawCommands,
-            () => {},
-            () => setTutorState(prev => ({ ...prev, isSpeaking: false }))
-          );
+          markStarted();
+          await live.finish();
+          setTutorState(prev => ({ ...prev, isSpeaking: false }));
         }
       }
     } catch (error) {
+      if (request.signal.aborted) return;
       console.error('Error:', error);
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
         content: isAPIKeyConfigured() 
-          ? 'Something went wrong. Please try again.'
-          : 'API Key Required. Please add your OpenAI API key to the .env file.',
+          ? describeRequestError(error) || 'Something went wrong. Please try again.'
+          : 'API Key Required. Please add an AI provider key (e.g. GROQ_API_KEY) to the server .env file.',
         timestamp: new Date(),
       };
       setMessages(prev => [...prev, errorMessage]);
       setTutorState(prev => ({ ...prev, isProcessing: false }));
+    } finally {
+      if (requestRef.current === request) requestRef.current = null;
+    }
+  };
+
+  const postAssistantMessage = (content: string) => {
+    setMessages(prev => [...prev, {
+      id: `${Date.now()}-${prev.length}`,
+      role: 'assistant',
+      content,
+      timestamp: new Date(),
+    }]);
+  };
+
+  const handleStartQuiz = async () => {
+    const topic = session.getCurrentTopic(viewMode);
+    if (!topic || tutorState.isProcessing) return;
+
+    setRequestNote('');
+    setTutorState(prev => ({ ...prev, isProcessing: true }));
+    try {
+      const newQuiz = await createQuiz({ topic, taskBreakdown, preGenerated: getPreGeneratedTopicByName(topic, language) }, session);
+      const questionText = formatQuestion(newQuiz);
+      setQuiz(newQuiz);
+      postAssistantMessage(questionText);
+
+      setTutorState({ isProcessing: false, isSpeaking: true, isListening: false });
+      await elevenLabsService.speak(questionText, () => {
+        setTutorState(prev => ({ ...prev, isSpeaking: false }));
+      });
+    } catch (error) {
+      console.error('Quiz error:', error);
+      postAssistantMessage(describeRequestError(error) || "I couldn't put a quiz together right now. Please try again.");
+      setTutorState(prev => ({ ...prev, isProcessing: false }));
     }
   };
 
+  const handleQuizAnswer = async (answer: string) => {
+    if (!quiz || tutorState.isProcessing) return;
+    const question = quiz.questions[quiz.index];
+
+    elevenLabsService.stop();
+    setMessages(prev => [...prev, { id: Date.now().toString(), role: 'user', content: answer, timestamp: new Date() }]);
+    setInput('');
+    setTutorState({ isProcessing: true, isSpeaking: false, isListening: false });
+
+    try {
+      const grade = await gradeAnswer(question, answer, session);
+      const nextQuiz = recordAnswer(quiz, answer, grade);
+      const finished = isQuizFinished(nextQuiz);
+      const followUp = finished ? summarizeQuiz(nextQuiz) : formatQuestion(nextQuiz);
+
+      setQuiz(finished ? null : nextQuiz);
+      postAssistantMessage(grade.feedback);
+      postAssistantMessage(followUp);
+      memory.addExchange(`Quiz question: ${question.question}\nMy answer: ${answer}`, grade.feedback);
+
+      // Corrective diagram replaces the lesson drawing, like a new topic would
+      const corrective = viewMode === 'canvas' && !!grade.drawCommands && grade.drawCommands.length > 0;
+      if (corrective) drawingController.clearCanvas();
+
+      setTutorState({ isProcessing: false, isSpeaking: true, isListening: false });
+      await stepSyncController.executeAIResponse(
+        `${grade.feedback} ${followUp}`,
+        corrective ? grade.drawCommands : [],
+        () => {},
+        () => setTutorState(prev => ({ ...prev, isSpeaking: false }))
+      );
+    } catch (error) {
+      console.error('Quiz grading error:', error);
+      postAssistantMessage(describeRequestError(error) || 'Something went wrong while grading. Please answer again.');
+      setTutorState(prev => ({ ...prev, isProcessing: false }));
+    }
+  };
+
+  const startSocraticLesson = async (messageText: string) => {
+    const preGenerated = findPreGeneratedTopic(messageText, language);
+    if (!preGenerated?.socratic && !isAPIKeyConfigured()) {
+      throw new Error('API key not configured');
+    }
+
+    const newLesson = await createSocraticLesson(messageText, session, preGenerated);
+    const opening = newLesson.steps[0].question;
+
+    drawingController.clearCanvas();
+    session.recordTopic('canvas', newLesson.topic, true);
+    setTaskBreakdown(newLesson.taskBreakdown);
+    setCurrentStep(0);
+    setLesson(newLesson);
+    postAssistantMessage(opening);
+    memory.addExchange(messageText, opening);
+
+    setTutorState({ isProcessing: false, isSpeaking: true, isListening: false });
+    await stepSyncController.executeAIResponse(
+      [newLesson.intro?.narration, opening].filter(Boolean).join(' '),
+      newLesson.intro?.drawCommands,
+      () => {},
+      () => setTutorState(prev => ({ ...prev, isSpeaking: false }))
+    );
+  };
+
+  const handleSocraticReply = async (reply: string) => {
+    if (!lesson || tutorState.isProcessing) return;
+    const step = lesson.steps[lesson.currentStep];
+
+    elevenLabsService.stop();
+    setMessages(prev => [...prev, { id: Date.now().toString(), role: 'user', content: reply, timestamp: new Date() }]);
+    setInput('');
+    setTutorState({ isProcessing: true, isSpeaking: false, isListening: false });
+
+    try {
+      const judgement = await judgeReply(lesson, reply, session);
+      memory.addExchange(reply, judgement.feedback);
+      const miss = judgement.understood ? null : recordMiss(lesson);
+
+      if (miss && !miss.reveal) {
+        // Stay on this step and let the student try again
+        setLesson(miss.lesson);
+        postAssistantMessage(judgement.feedback);
+        setTutorState({ isProcessing: false, isSpeaking: true, isListening: false });
+        await elevenLabsService.speak(judgement.feedback, () => {
+          setTutorState(prev => ({ ...prev, isSpeaking: false }));
+        });
+        return;
+      }
+
+      // Understood (or out of attempts): draw this part, then move on
+      const confirmation = judgement.understood
+        ? judgement.feedback
+        : `${judgement.feedback} Let me show you: ${step.expectedInsight}`;
+      const nextLesson = advanceLesson(lesson);
+      const finished = isLessonFinished(nextLesson);
+      const followUp = finished
+        ? 'That completes the picture. Ask a follow-up question, or press "Quiz me" to check yourself.'
+        : nextLesson.steps[nextLesson.currentStep].question;
+
+      memory.recordConcepts([lesson.taskBreakdown[lesson.currentStep]]);
+      setLesson(finished ? null : nextLesson);
+      postAssistantMessage(confirmation);
+
+      setTutorState({ isProcessing: false, isSpeaking: true, isListening: false });
+      await stepSyncController.executeAIResponse(
+        `${confirmation} ${step.narration}`,
+        step.drawCommands,
+        () => {},
+        () => {}
+      );
+
+      setCurrentStep(nextLesson.currentStep);
+      postAssistantMessage(followUp);
+      await elevenLabsService.speak(followUp, () => {
+        setTutorState(prev => ({ ...prev, isSpeaking: false }));
+      });
+    } catch (error) {
+      console.error('Socratic judging error:', error);
+      postAssistantMessage(describeRequestError(error) || 'Something went wrong. Please answer again.');
+      setTutorState(prev => ({ ...prev, isProcessing: false }));
+    }
+  };
+
+  const handleSaveProfile = (updated: LearnerProfile) => {
+    saveLearnerProfile(updated);
+    setProfile(updated);
+    setIsEditingProfile(false);
+  };
+
+  const handleToggleSocratic = () => {
+    if (socraticEnabled && lesson) {
+      setLesson(null);
+      setCurrentStep(-1);
+    }
+    setSocraticEnabled(!socraticEnabled);
+  };
+
+  const handleEndQuiz = () => {
+    if (!quiz) return;
+    elevenLabsService.stop();
+    if (quiz.results.length > 0) postAssistantMessage(summarizeQuiz(quiz));
+    setQuiz(null);
+  };
+
   const handleVoiceInput = () => {
     if (tutorState.isListening) {
       speechService.stopListening();
@@ -200,6 +653,8 @@ export function Chat({ tutorState, setTutorState, viewMode, onDiagramGenerated }
   };
 
   const handleStop = () => {
+    requestRef.current?.abort();
+    requestRef.current = null;
     stepSyncController.stop();
     elevenLabsService.stop();
     speechService.stopListening();
@@ -213,11 +668,22 @@ export function Chat({ tutorState, setTutorState, viewMode, onDiagramGenerated }
     } else {
       onDiagramGenerated('');
     }
-    resetTopicContext();
+    session.resetTopics(viewMode);
+    setLesson(null);
     setTaskBreakdown([]);
     setCurrentStep(-1);
   };
 
+  const handleBudgetChange = (updated: number) => {
+    saveSessionBudget(updated);
+    setBudgetUsd(updated);
+  };
+
+  const handleChangeLanguage = (code: LanguageCode) => {
+    saveLanguage(code);
+    setLanguage(code);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -226,18 +692,76 @@ export function Chat({ tutorState, setTutorState, viewMode, onDiagramGenerated }
   };
 
   const isActive = tutorState.isProcessing || tutorState.isSpeaking || tutorState.isListening;
+  const canStartQuiz = !quiz && !lesson && !!session.getCurrentTopic(viewMode);
 
   return (
-    <div className="chat-container">
+    <div className="chat-container" onDragOver={(e) => e.preventDefault()} onDrop={handleDrop}>
       <div className="chat-header">
         <div className="header-left">
           <span className="chat-title">Ai tutor</span>
           <button className="clear-canvas-btn" onClick={handleClearCanvas} title="Clear canvas">
             Clear
           </button>
+          <button
+            className={`clear-canvas-btn ${isEditingProfile ? 'active' : ''}`}
+            onClick={() => setIsEditingProfile(!isEditingProfile)}
+            title="Grade level, reading level and pace"
+          >
+            Profile
+          </button>
+          <button
+            className={`clear-canvas-btn ${isShowingUsage ? 'active' : ''}`}
+            onClick={() => setIsShowingUsage(!isShowingUsage)}
+            title="Tokens, characters and estimated cost"
+          >
+            Usage
+          </button>
+          <button
+            className={`clear-canvas-btn ${isShowingNotes ? 'active' : ''}`}
+            onClick={() => setIsShowingNotes(!isShowingNotes)}
+            title="Course notes the tutor grounds its answers in"
+          >
+            Notes
+          </button>
+          <select
+            className="language-select"
+            value={language}
+            onChange={(e) => handleChangeLanguage(e.target.value as LanguageCode)}
+            disabled={tutorState.isProcessing}
+            title="Tutoring language: speech, voice and lessons"
+          >
+            {LANGUAGE_CODES.map(code => (
+              <option key={code} value={code}>{LANGUAGES[code].nativeName}</option>
+            ))}
+          </select>
+          {viewMode === 'canvas' && (
+            <button
+              className={`clear-canvas-btn ${socraticEnabled ? 'active' : ''}`}
+              onClick={handleToggleSocratic}
+              title="Socratic mode: answer a guiding question before each step is drawn"
+            >
+              Socratic
+            </button>
+          )}
+          {canStartQuiz && (
+            <button
+              className="clear-canvas-btn"
+              onClick={handleStartQuiz}
+              disabled={tutorState.isProcessing}
+              title="Check your understanding of the current topic"
+            >
+              Quiz me
+            </button>
+          )}
         </div>
         <div className="status-indicators">
           {tutorState.isProcessing && <span className="clear-canvas-btn">Thinking...</span>}
+          {tutorState.isProcessing && requestNote && <span className="status retrying">{requestNote}</span>}
+          {session.isOverBudget() && (
+            <span className="status retrying" title="Using the cheapest models, built-in lessons and the browser voice">
+              Budget reached
+            </span>
+          )}
           {tutorState.isSpeaking && <span className="clear-canvas-btn">Speaking...</span>}
           {tutorState.isListening && <span className="status listening">Listening...</span>}
           {isActive && (
@@ -262,6 +786,34 @@ export function Chat({ tutorState, setTutorState, viewMode, onDiagramGenerated }
         </div>
       )}
 
+      {isEditingProfile && (
+        <LearnerProfileEditor
+          profile={profile}
+          onSave={handleSaveProfile}
+          onClose={() => setIsEditingProfile(false)}
+        />
+      )}
+
+      {isShowingUsage && (
+        <UsagePanel
+          session={session}
+          budgetUsd={budgetUsd}
+          onBudgetChange={handleBudgetChange}
+          onClose={() => setIsShowingUsage(false)}
+        />
+      )}
+
+      {isShowingNotes && <NotesPanel onClose={() => setIsShowingNotes(false)} />}
+
+      {quiz && (
+        <QuizPanel
+          quiz={quiz}
+          disabled={tutorState.isProcessing}
+          onAnswer={handleQuizAnswer}
+          onEnd={handleEndQuiz}
+        />
+      )}
+
       {/* Quick Prompts */}
       {messages.length <= 1 && (
         <div className="quick-prompts">
@@ -284,23 +836,75 @@ export function Chat({ tutorState, setTutorState, viewMode, onDiagramGenerated }
       <div className="messages-container">
         {messages.map((message) => (
           <div key={message.id} className={`message ${message.role}`}>
+            {message.images && (
+              <div className="message-images">
+                {message.images.map((image, i) => (
+                  <img key={i} src={toDataURL(image)} alt={`Attachment ${i + 1}`} />
+                ))}
+              </div>
+            )}
             <div className="message-content">
-              {message.content.split('\n').map((line, i) => (
-                <span key={i}>
-                  {line}
-                  {i < message.content.split('\n').length - 1 && <br />}
-                </span>
-              ))}
+              {message.role === 'assistant' ? (
+                <MarkdownMessage content={message.content} />
+              ) : (
+                message.content.split('\n').map((line, i) => (
+                  <span key={i}>
+                    {line}
+                    {i < message.content.split('\n').length - 1 && <br />}
+                  </span>
+                ))
+              )}
             </div>
+            {message.citations && message.citations.length > 0 && (
+              <MessageCitations citations={message.citations} />
+            )}
             <div className="message-time">
               {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              {message.fromCache && (
+                <span className="message-cached" title="Served from the response cache">Cached</span>
+              )}
             </div>
           </div>
         ))}
         <div ref={messagesEndRef} />
       </div>
 
+      {(attachments.length > 0 || attachmentNote) && (
+        <div className="attachment-strip">
+          {attachments.map((image, i) => (
+            <div key={i} className="attachment-thumb">
+              <img src={toDataURL(image)} alt={`Attachment ${i + 1}`} />
+              <button onClick={() => handleRemoveAttachment(i)} title="Remove image">×</button>
+            </div>
+          ))}
+          {attachmentNote && <span className="attachment-note">{attachmentNote}</span>}
+        </div>
+      )}
+
       <div className="input-container">
+        <button
+          className="voice-btn"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={tutorState.isProcessing || !!quiz || !!lesson || attachments.length >= MAX_ATTACHMENTS || !visionAvailable}
+          title={visionAvailable ? 'Attach a photo or screenshot' : 'Image questions need a vision model on the server'}
+        >
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <rect x="3" y="3" width="18" height="18" rx="2"/>
+            <circle cx="8.5" cy="8.5" r="1.5"/>
+            <polyline points="21 15 16 10 5 21"/>
+          </svg>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          hidden
+          onChange={(e) => {
+            handleAttachFiles([...(e.target.files || [])]);
+            e.target.value = '';
+          }}
+        />
         <button
           className={`voice-btn ${tutorState.isListening ? 'listening' : ''}`}
           onClick={handleVoiceInput}
@@ -318,14 +922,15 @@ export function Chat({ tutorState, setTutorState, viewMode, onDiagramGenerated }
           value={input}
           onChange={(e) => setInput(e.target.value)}
           onKeyPress={handleKeyPress}
-          placeholder="Ask me to explain something..."
+          onPaste={handlePaste}
+          placeholder={quiz ? 'Type or say your answer...' : lesson ? 'Type or say your reasoning...' : 'Ask me to explain something...'}
           disabled={tutorState.isProcessing}
           rows={1}
         />
         <button
           className="send-btn"
           onClick={() => handleSend()}
-          disabled={!input.trim() || tutorState.isProcessing}
+          disabled={(!input.trim() && attachments.length === 0) || tutorState.isProcessing}
         >
           <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
             <line x1="22" y1="2" x2="11" y2="13"/>
@@ -0,0 +1,75 @@
+import { BaseBoxShapeUtil, DefaultColorStyle, HTMLContainer, T, getDefaultColorTheme, resizeBox } from 'tldraw';
+import type { RecordProps, TLDefaultColorStyle, TLResizeInfo, TLShape } from 'tldraw';
+import 'katex/dist/katex.min.css';
+import { DEFAULT_FORMULA_FONT_SIZE, FORMULA_CLASS, renderFormula } from '../services/formulaRenderer';
+
+// Typeset LaTeX equation drawn by the tutor ("formula" draw command)
+
+declare module 'tldraw' {
+  export interface TLGlobalShapePropsMap {
+    formula: {
+      w: number;
+      h: number;
+      latex: string;
+      color: TLDefaultColorStyle;
+      // Grows and shrinks with the shape, so resizing scales the typesetting
+      fontSize: number;
+    };
+  }
+}
+
+export type FormulaShape = TLShape<'formula'>;
+
+export class FormulaShapeUtil extends BaseBoxShapeUtil<FormulaShape> {
+  static override type = 'formula' as const;
+  static override props: RecordProps<FormulaShape> = {
+    w: T.number,
+    h: T.number,
+    latex: T.string,
+    color: DefaultColorStyle,
+    fontSize: T.number
+  };
+
+  getDefaultProps(): FormulaShape['props'] {
+    return { w: 160, h: 60, latex: 'E = mc^2', color: 'black', fontSize: DEFAULT_FORMULA_FONT_SIZE };
+  }
+
+  override canEdit() {
+    return false;
+  }
+
+  override isAspectRatioLocked() {
+    return true;
+  }
+
+  override onResize(shape: FormulaShape, info: TLResizeInfo<FormulaShape>) {
+    const resized = resizeBox(shape, info);
+    const scale = resized.props.h / info.initialShape.props.h;
+    return { ...resized, props: { ...resized.props, fontSize: info.initialShape.props.fontSize * scale } };
+  }
+
+  override getInterpolatedProps(start: FormulaShape, end: FormulaShape, t: number): FormulaShape['props'] {
+    return {
+      ...super.getInterpolatedProps(start, end, t),
+      fontSize: start.props.fontSize + (end.props.fontSize - start.props.fontSize) * t
+    };
+  }
+
+  component(shape: FormulaShape) {
+    // Read reactively, so the formula recolors when the editor switches theme
+    const theme = getDefaultColorTheme({ isDarkMode: this.editor.user.getIsDarkMode() });
+    const { w, h, latex, color, fontSize } = shape.props;
+
+    return (
+      <HTMLContainer
+        className={FORMULA_CLASS}
+        style={{ width: w, height: h, fontSize, color: theme[color].solid }}
+        dangerouslySetInnerHTML={{ __html: renderFormula(latex) }}
+      />
+    );
+  }
+
+  indicator(shape: FormulaShape) {
+    return <rect width={shape.props.w} height={shape.props.h} />;
+  }
+}
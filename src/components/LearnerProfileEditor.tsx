@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { GRADE_LABELS, GRADE_LEVELS, LESSON_PACES, READING_LEVELS } from '../services/learnerProfile';
+import type { GradeLevel, LearnerProfile, LessonPace, ReadingLevel } from '../services/learnerProfile';
+
+interface LearnerProfileEditorProps {
+  profile: LearnerProfile;
+  onSave: (profile: LearnerProfile) => void;
+  onClose: () => void;
+}
+
+const PACE_LABELS: Record<LessonPace, string> = {
+  slow: 'Slow',
+  normal: 'Normal',
+  fast: 'Fast'
+};
+
+const READING_LABELS: Record<ReadingLevel, string> = {
+  simple: 'Simple words',
+  standard: 'Standard',
+  advanced: 'Technical'
+};
+
+export function LearnerProfileEditor({ profile, onSave, onClose }: LearnerProfileEditorProps) {
+  const [draft, setDraft] = useState<LearnerProfile>(profile);
+
+  const update = <K extends keyof LearnerProfile>(key: K, value: LearnerProfile[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="profile-editor">
+      <div className="task-title">Learner Profile</div>
+
+      <label className="profile-field">
+        <span>Grade level</span>
+        <select value={draft.gradeLevel} onChange={(e) => update('gradeLevel', e.target.value as GradeLevel)}>
+          {GRADE_LEVELS.map(level => (
+            <option key={level} value={level}>{GRADE_LABELS[level]}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="profile-field">
+        <span>Reading level</span>
+        <select value={draft.readingLevel} onChange={(e) => update('readingLevel', e.target.value as ReadingLevel)}>
+          {READING_LEVELS.map(level => (
+            <option key={level} value={level}>{READING_LABELS[level]}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="profile-field">
+        <span>Pace</span>
+        <select value={draft.pace} onChange={(e) => update('pace', e.target.value as LessonPace)}>
+          {LESSON_PACES.map(pace => (
+            <option key={pace} value={pace}>{PACE_LABELS[pace]}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="profile-field">
+        <span>Already knows</span>
+        <textarea
+          value={draft.priorKnowledge}
+          onChange={(e) => update('priorKnowledge', e.target.value)}
+          placeholder="e.g. basic algebra, what a force is"
+          rows={2}
+        />
+      </label>
+
+      <div className="profile-actions">
+        <button className="clear-canvas-btn" onClick={onClose}>
+          Cancel
+        </button>
+        <button className="clear-canvas-btn active" onClick={() => onSave(draft)}>
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
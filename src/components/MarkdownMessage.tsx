@@ -0,0 +1,46 @@
+import ReactMarkdown from 'react-markdown';
+import type { Components, Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'katex/dist/katex.min.css';
+
+// Tutor answers are Markdown with $...$ / $$...$$ math. Raw HTML in the text is never rendered
+// (no rehype-raw), and react-markdown drops javascript: and other unsafe link targets.
+
+const REMARK_PLUGINS: Options['remarkPlugins'] = [remarkGfm, remarkMath];
+// A malformed formula is shown in red instead of breaking the whole message
+const REHYPE_PLUGINS: Options['rehypePlugins'] = [
+  [rehypeKatex, { throwOnError: false, strict: 'ignore' }],
+  rehypeHighlight
+];
+
+const COMPONENTS: Components = {
+  // Links leave the tutor in a new tab
+  a: ({ href, children }) => <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>,
+  // Wide tables scroll inside the bubble rather than stretching the chat
+  table: ({ children }) => (
+    <div className="markdown-table">
+      <table>{children}</table>
+    </div>
+  )
+};
+
+interface MarkdownMessageProps {
+  content: string;
+}
+
+export function MarkdownMessage({ content }: MarkdownMessageProps) {
+  return (
+    <div className="markdown">
+      <ReactMarkdown
+        remarkPlugins={REMARK_PLUGINS}
+        rehypePlugins={REHYPE_PLUGINS}
+        components={COMPONENTS}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
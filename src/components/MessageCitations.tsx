@@ -0,0 +1,22 @@
+import type { Citation } from '../types';
+
+interface MessageCitationsProps {
+  citations: Citation[];
+}
+
+// Sources under an assistant message; each opens to the passage the answer was grounded in
+export function MessageCitations({ citations }: MessageCitationsProps) {
+  return (
+    <div className="message-citations">
+      {citations.map(citation => (
+        <details key={citation.index} className="message-citation">
+          <summary>
+            [{citation.index}] {citation.source}
+            {citation.location && <span className="citation-location"> · {citation.location}</span>}
+          </summary>
+          <blockquote>{citation.text}</blockquote>
+        </details>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from 'react';
+import { NOTE_FILE_ACCEPT, courseNotes } from '../services/courseNotes';
+
+interface NotesPanelProps {
+  onClose: () => void;
+}
+
+export function NotesPanel({ onClose }: NotesPanelProps) {
+  // Re-render whenever notes are loaded, added or removed
+  const [, setVersion] = useState(0);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [note, setNote] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const unsubscribe = courseNotes.subscribe(() => setVersion(v => v + 1));
+    courseNotes.load();
+    return unsubscribe;
+  }, []);
+
+  const documents = courseNotes.getDocuments();
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsIndexing(true);
+    setNote('');
+
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        await courseNotes.addFile(file);
+      } catch (error) {
+        failures.push(error instanceof Error ? error.message : `${file.name} could not be read`);
+      }
+    }
+
+    setNote(failures.join(' · '));
+    setIsIndexing(false);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleRemove = async (docId: string) => {
+    try {
+      await courseNotes.remove(docId);
+    } catch (error) {
+      setNote(error instanceof Error ? error.message : 'Could not remove the notes');
+    }
+  };
+
+  return (
+    <div className="usage-panel">
+      <div className="task-title">Course Notes</div>
+
+      {documents.length === 0 ? (
+        <div className="notes-empty">
+          Upload lecture notes or a textbook chapter (PDF, Markdown or text) and answers will follow them,
+          with citations. Notes stay in this browser.
+        </div>
+      ) : (
+        documents.map(document => (
+          <div key={document.id} className="usage-row notes-document">
+            <span title={document.name}>{document.name}</span>
+            <span>
+              {document.chunkCount} passages
+              <button className="notes-remove" onClick={() => handleRemove(document.id)} title="Remove these notes">
+                ×
+              </button>
+            </span>
+          </div>
+        ))
+      )}
+
+      {isIndexing && <div className="notes-empty">Indexing...</div>}
+      {note && <div className="usage-note">{note}</div>}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={NOTE_FILE_ACCEPT}
+        multiple
+        hidden
+        onChange={(e) => handleUpload(e.target.files)}
+      />
+      <div className="profile-actions">
+        <button className="clear-canvas-btn" onClick={() => fileInputRef.current?.click()} disabled={isIndexing}>
+          Upload notes
+        </button>
+        <button className="clear-canvas-btn active" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
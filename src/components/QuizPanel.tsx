@@ -0,0 +1,51 @@
+import type { Quiz } from '../services/quizService';
+
+interface QuizPanelProps {
+  quiz: Quiz;
+  disabled: boolean;
+  onAnswer: (answer: string) => void;
+  onEnd: () => void;
+}
+
+// Progress, score and tappable choices for the active quiz; typed and spoken answers go
+// through the regular chat input
+export function QuizPanel({ quiz, disabled, onAnswer, onEnd }: QuizPanelProps) {
+  const question = quiz.questions[quiz.index];
+  const score = quiz.results.filter(result => result.grade.correct).length;
+
+  return (
+    <div className="quiz-panel">
+      <div className="quiz-header">
+        <span className="task-title">
+          Quiz: {quiz.topic} · {Math.min(quiz.index + 1, quiz.questions.length)}/{quiz.questions.length} · Score {score}
+        </span>
+        <button className="clear-canvas-btn" onClick={onEnd}>
+          End quiz
+        </button>
+      </div>
+
+      <div className="quiz-progress">
+        {quiz.questions.map((_, i) => {
+          const result = quiz.results[i];
+          const state = result ? (result.grade.correct ? 'correct' : 'wrong') : i === quiz.index ? 'current' : '';
+          return <span key={i} className={`quiz-dot ${state}`} />;
+        })}
+      </div>
+
+      {question?.kind === 'multiple-choice' && question.choices && (
+        <div className="quiz-choices">
+          {question.choices.map((choice, i) => (
+            <button
+              key={choice}
+              className="quick-prompt-btn"
+              onClick={() => onAnswer(choice)}
+              disabled={disabled}
+            >
+              {String.fromCharCode(65 + i)}) {choice}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { formatUsd, usageTracker } from '../services/usageTracker';
+import type { UsageTotals } from '../services/usageTracker';
+import type { TutorSession } from '../services/tutorSession';
+
+interface UsagePanelProps {
+  session: TutorSession;
+  budgetUsd: number;
+  onBudgetChange: (budgetUsd: number) => void;
+  onClose: () => void;
+}
+
+function describeTotals(totals: UsageTotals): string {
+  const parts = [`${totals.requests} requests`];
+  const tokens = totals.promptTokens + totals.completionTokens;
+  if (tokens > 0) parts.push(`${tokens.toLocaleString()} tokens`);
+  if (totals.characters > 0) parts.push(`${totals.characters.toLocaleString()} chars`);
+  return parts.join(' · ');
+}
+
+function downloadCSV(csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `aitutor-usage-${new Date().toISOString().slice(0, 10)}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function UsagePanel({ session, budgetUsd, onBudgetChange, onClose }: UsagePanelProps) {
+  // Re-render whenever a request is recorded
+  const [, setVersion] = useState(0);
+  const [budgetDraft, setBudgetDraft] = useState(budgetUsd > 0 ? String(budgetUsd) : '');
+
+  useEffect(() => usageTracker.subscribe(() => setVersion(v => v + 1)), []);
+
+  const sessionTotals = usageTracker.getTotals(session.id);
+  const allTotals = usageTracker.getTotals();
+  const byModel = usageTracker.getTotalsByModel();
+  const overBudget = session.isOverBudget();
+
+  const handleSetBudget = () => {
+    const parsed = Number(budgetDraft);
+    onBudgetChange(Number.isFinite(parsed) && parsed > 0 ? parsed : 0);
+  };
+
+  return (
+    <div className="usage-panel">
+      <div className="task-title">Usage &amp; Cost</div>
+
+      <div className="usage-row">
+        <span>This session</span>
+        <span className={overBudget ? 'usage-over' : ''}>
+          {formatUsd(sessionTotals.costUsd)}{budgetUsd > 0 && ` of ${formatUsd(budgetUsd)}`} · {describeTotals(sessionTotals)}
+        </span>
+      </div>
+      <div className="usage-row">
+        <span>All time</span>
+        <span>{formatUsd(allTotals.costUsd)} · {describeTotals(allTotals)}</span>
+      </div>
+
+      {byModel.length > 0 && (
+        <div className="usage-models">
+          {byModel.map(({ label, totals }) => (
+            <div key={label} className="usage-row">
+              <span>{label}</span>
+              <span>{formatUsd(totals.costUsd)} · {describeTotals(totals)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {overBudget && (
+        <div className="usage-note">
+          Budget reached - using the cheapest models, built-in lessons and the browser voice.
+        </div>
+      )}
+
+      <label className="profile-field">
+        <span>Session budget (USD)</span>
+        <input
+          type="number"
+          min="0"
+          step="0.05"
+          value={budgetDraft}
+          onChange={(e) => setBudgetDraft(e.target.value)}
+          onBlur={handleSetBudget}
+          placeholder="No limit"
+        />
+      </label>
+
+      <div className="profile-actions">
+        <button className="clear-canvas-btn" onClick={() => usageTracker.clear()} disabled={allTotals.requests === 0}>
+          Clear log
+        </button>
+        <button className="clear-canvas-btn" onClick={() => downloadCSV(usageTracker.toCSV())} disabled={allTotals.requests === 0}>
+          Export CSV
+        </button>
+        <button className="clear-canvas-btn active" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
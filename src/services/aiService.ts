@@ -1,143 +1,485 @@
-import OpenAI from 'openai';
-import Groq from 'groq-sdk';
-import type { AIResponse } from '../types';
-
-// Initialize OpenAI client (primary)
-const openai = new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY || '',
-  dangerouslyAllowBrowser: true
-});
-
-// Initialize Groq client (fallback)
-const groq = new Groq({
-  apiKey: import.meta.env.VITE_GROQ_API_KEY || '',
-  dangerouslyAllowBrowser: true
-});
-
-// Track current topic for smart context
-let currentTopic: string | null = null;
+import type { ChatImage, ChatMessage, Citation, DrawCommand, LLMMode, ToolCall, TutorResponse } from '../types';
+import { fetchSharedCacheEntry, getBackendStatus, requestCompletion } from './apiClient';
+import type { BackendStatus } from './apiClient';
+import { StreamingJSONParser, takeSentence } from './streamingJsonParser';
+import { formatSchemaIssues, validateAIResponse, validateDrawCommand } from './responseSchema';
+import type { SchemaIssue, ValidationResult } from './responseSchema';
+import { checkMermaidSyntax, logMermaidRepair } from './mermaidRepair';
+import { getCachedResponse, putCachedResponse } from './responseCache';
+import type { CacheKeyParts } from './responseCache';
+import type { MemoryTurn } from './conversationMemory';
+import type { TutorSession } from './tutorSession';
+import { buildProfilePrompt, getLessonLimits, profileCacheKey } from './learnerProfile';
+import { buildLanguagePrompt } from './language';
+import { courseNotes } from './courseNotes';
+import { DRAWING_TOOLS } from './drawingTools';
+
+// Which upstreams the backend has keys for - unknown until the first status check returns
+let backendStatus: BackendStatus | null = null;
+getBackendStatus().then(status => { backendStatus = status; });
+
+// The chat renders explanations as Markdown with KaTeX; narration goes to text-to-speech as-is
+const FORMATTING_RULES = `FORMATTING RULES:
+- "explanation" is Markdown: **bold** step headers, bullet lists, tables, fenced code blocks with a language
+- Math is LaTeX in dollar signs: inline $F = ma$, display $$O(n^2)$$. Escape backslashes for JSON: "$\\\\frac{a}{b}$"
+- "narration" and text labels stay plain text - no Markdown, no $ or LaTeX`;
+
+// Bump whenever SYSTEM_PROMPT or MERMAID_SYSTEM_PROMPT changes - invalidates cached answers
+const PROMPT_VERSION = 10;
+
+// VITE_DRAWING_PROTOCOL=tools: the model calls drawing tools between narration instead of writing
+// one JSON object (see drawingTools.ts). Used only when the backend has a provider that can.
+const DRAWING_PROTOCOL = import.meta.env.VITE_DRAWING_PROTOCOL === 'tools' ? 'tools' : 'json';
+
+// Shared by both drawing protocols
+const CANVAS_LAYOUT_RULES = `- Canvas: 800x600 pixels
+- Use zones: TOP (y:30-80), UPPER (y:100-200), MIDDLE (y:220-350), LOWER (y:370-450)
+- Horizontal: LEFT (x:80-250), CENTER (x:300-500), RIGHT (x:550-750)
+- Circle radius: 35-50, Rectangle: 100x70
+- Leave about 40px between elements - small overlaps are nudged apart before drawing
+- Colors: blue (main), green (input), red (output), orange (process), black (text), violet (special)`;
 
 const SYSTEM_PROMPT = `You are an expert AI tutor. Explain concepts with visual diagrams.
 
-RESPOND WITH ONLY A JSON OBJECT (no markdown):
+RESPOND WITH ONLY A JSON OBJECT (no markdown), keys in exactly this order:
 
 {
   "topic": "topic name",
   "isNewTopic": true or false,
   "taskBreakdown": ["Step 1: ...", "Step 2: ...", "Step 3: ..."],
-  "explanation": "Detailed explanation with **bold** headers for each step",
   "narration": "Short 2-3 sentence summary for speech",
   "drawCommands": [
     {"type": "text", "x": 350, "y": 40, "props": {"text": "Title", "color": "black"}},
-    {"type": "circle", "x": 200, "y": 150, "props": {"radius": 45, "color": "blue"}},
-    {"type": "text", "x": 170, "y": 210, "props": {"text": "Label", "color": "blue"}},
-    {"type": "arrow", "x": 0, "y": 0, "props": {"start": {"x": 250, "y": 150}, "end": {"x": 350, "y": 150}, "color": "black"}}
-  ]
+    {"type": "circle", "id": "sun", "x": 200, "y": 150, "props": {"radius": 45, "color": "orange"}},
+    {"type": "text", "props": {"text": "Sun", "color": "orange", "below": "sun", "gap": 10}},
+    {"type": "triangle", "id": "prism", "props": {"w": 90, "h": 80, "color": "green", "fill": "semi", "dash": "dashed", "rightOf": "sun", "gap": 200}},
+    {"type": "arrow", "props": {"from": "sun", "to": "prism", "color": "black"}},
+    {"type": "formula", "x": 420, "y": 260, "props": {"latex": "F = ma", "color": "violet"}},
+    {"type": "freehand", "x": 0, "y": 0, "props": {"points": [{"x": 100, "y": 450}, {"x": 200, "y": 330}, {"x": 300, "y": 450}], "color": "red"}}
+  ],
+  "explanation": "Detailed explanation with **bold** headers for each step and $math$ where it helps"
 }
 
+${FORMATTING_RULES}
+
 DRAWING RULES:
-- Canvas: 800x600 pixels
-- Use zones: TOP (y:30-80), UPPER (y:100-200), MIDDLE (y:220-350), LOWER (y:370-450)
-- Horizontal: LEFT (x:80-250), CENTER (x:300-500), RIGHT (x:550-750)
-- Circle radius: 35-50, Rectangle: 100x70
-- Minimum 80px between elements
-- Colors: blue (main), green (input), red (output), orange (process), black (text), violet (special)
+${CANVAS_LAYOUT_RULES}
 - Always add text labels below shapes
 - Use arrows to show flow/relationships
 
+SHAPE IDS (prefer them to computing coordinates):
+- Give a shape a top-level "id" (e.g. "cpu") to refer to it later - in this answer or a follow-up, where the
+  canvas description lists it as [cpu]
+- Instead of x/y, props.below, above, leftOf or rightOf: "<id>" centers a shape on that side of an earlier one,
+  props.gap pixels away (default 40) - the easy way to place labels
+- arrow, line and curved-arrow take props.from and to ids instead of start/end: they run edge to edge and stay
+  attached when the shapes move
+- Equations and formulas use "formula" (LaTeX in props.latex, no $), never "text": F = ma, E = mc^2, O(n^2), \\frac{d}{t}
+- A formula's x/y is its top-left corner; it is about 40px tall, bigger with props.fontSize (default 28)
+- Curves, trajectories and hand-drawn annotations use "freehand": props.points in canvas coordinates,
+  3-30 points along the stroke; it is smoothed into a curve unless props.smooth is false
+
+SHAPES (x/y is the top-left corner for all but circle, whose x/y is its center):
+- circle (radius), rectangle, triangle, star, diamond, cloud (w, h), polygon (w, h, sides: 3, 4, 5, 6 or 8)
+- note: a 200x200 sticky note with props.text, for key takeaways (color yellow by default)
+- image: props.icon is one emoji drawn as an icon (64x64 unless w/h), e.g. "🌍" - pictures from the web are not shown
+- "curved-arrow": like arrow, bowed by props.bend pixels (default 40, negative bows the other way), for cycles
+- "bracket": a curly brace from props.start to props.end grouping items; top to bottom it is a "{" left of
+  them, left to right it sits under them
+- Optional style props: fill (none, semi, solid, pattern), dash (draw, solid, dashed, dotted),
+  size (stroke width: s, m, l, xl), fontSize (pixels, for text and notes)
+
+GRAPHS (velocity over time, y = x^2, growth curves) - never fake a curve with dots or text:
+- "axes": x/y is the top-left of a w x h box (default 400x300); props.xRange and yRange are [min, max]
+  values shown (default [0, 10]), optional xStep/yStep tick spacing, xLabel/yLabel titles, grid: true
+- "plot": the SAME x, y, w, h, xRange and yRange as its axes, plus props.expression in x (or t, n):
+  "x^2", "9.8 t", "3 sin(2x) + 1", "n log2 n" - or props.data [{"x": 0, "y": 1}, ...] in graph values;
+  optional props.domain [from, to] and color. Put each plot in the step whose narration describes it
+  {"type": "axes", "x": 100, "y": 120, "props": {"w": 400, "h": 300, "xRange": [0, 5], "yRange": [0, 25], "xLabel": "x", "yLabel": "y"}}
+  {"type": "plot", "x": 100, "y": 120, "props": {"w": 400, "h": 300, "xRange": [0, 5], "yRange": [0, 25], "expression": "x^2", "color": "red"}}
+
 Set isNewTopic:true for new subjects, false for follow-ups.`;
 
+const TOOL_SYSTEM_PROMPT = `You are an expert AI tutor. Explain concepts with visual diagrams, drawing while you talk.
+
+Teach by calling the tools:
+1. start_lesson, once, first
+2. Then alternate: narrate one or two sentences, then the drawing calls that go with them
+   (draw_shape, sketch, axes, plot, connect, label, highlight, clear_region). Each drawing appears as its sentence is spoken.
+
+Your reply text is the written explanation shown in the chat: Markdown with **bold** step headers,
+bullet lists, and math as LaTeX in dollar signs ($F = ma$). Narration stays plain text - no Markdown or LaTeX.
+
+DRAWING RULES:
+${CANVAS_LAYOUT_RULES}
+- Give every shape you will connect, label or highlight a short id, and refer to it by that id - ids from
+  earlier answers (listed as [id] in the canvas description) still work
+- draw_shape can place a shape below, above, leftOf or rightOf an earlier one instead of at x/y
+- Use connect for arrows between shapes - never compute arrow coordinates
+- Use sketch for trajectories and hand-drawn annotations; graphs of functions or data are axes, then plot
+- Label every shape, usually below it
+- Equations and formulas are draw_shape with shape "formula" and LaTeX in latex (no $), never "text"
+- Use shape "note" for a key takeaway and shape "image" with an emoji icon for everyday objects
+- Set isNewTopic true for new subjects, false for follow-ups`;
+
+// Callbacks fired while a canvas response is still streaming in
+export interface AIStreamHandlers {
+  onField?: (key: string, value: unknown) => void;
+  onDrawCommand?: (command: DrawCommand) => void;
+  onExplanationSentence?: (sentence: string) => void;
+  onNarrationSentence?: (sentence: string) => void;
+  // Tool-calling protocol only: one drawing call, in order with the narration sentences
+  onToolCall?: (call: ToolCall) => void;
+  // The streamed answer failed validation and was repaired: take back everything onDrawCommand
+  // and onNarrationSentence delivered, and play the repaired drawing and narration instead
+  onRedraw?: (commands: DrawCommand[], narration: string) => void;
+}
+
+// How many times an invalid response is sent back to the model with its errors
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// `images` are photos or screenshots the student attached; those answers are never cached.
+// Aborting `signal` cancels the answer, repairs included, and rejects.
 export async function getAIResponse(
   userMessage: string,
-  conversationHistory: { role: 'user' | 'assistant'; content: string }[]
-): Promise<AIResponse & { isNewTopic?: boolean; taskBreakdown?: string[] }> {
-  const contextMessage = currentTopic 
-    ? `Continue explaining "${currentTopic}". Set isNewTopic:false.`
-    : 'New topic. Set isNewTopic:true.';
-
-  const messagesForOpenAI = [
-    { role: 'system' as const, content: SYSTEM_PROMPT },
-    { role: 'system' as const, content: contextMessage },
-    ...conversationHistory.slice(-4).map(m => ({
-      role: m.role as 'user' | 'assistant',
-      content: m.content
-    })),
-    { role: 'user' as const, content: userMessage }
-  ];
+  session: TutorSession,
+  handlers?: AIStreamHandlers,
+  images: ChatImage[] = [],
+  signal?: AbortSignal
+): Promise<TutorResponse> {
+  const passages = await courseNotes.search(userMessage);
+  if (handlers?.onToolCall && await usesDrawingTools()) {
+    const messages = buildMessages(TOOL_SYSTEM_PROMPT, userMessage, session, 'canvas', { images, passages });
+    return getToolResponse(messages, userMessage, session, handlers, passages, signal);
+  }
 
-  // Try OpenAI first
-  try {
-    console.log('Trying OpenAI...');
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: messagesForOpenAI,
-      temperature: 0.7,
-      max_tokens: 2500,
-      response_format: { type: "json_object" }
-    });
+  const messages = buildMessages(SYSTEM_PROMPT, userMessage, session, 'canvas', { images, passages });
+  const cacheParts = await getCacheKeyParts('canvas', userMessage, session);
+  const cacheable = images.length === 0 && isSelfContained(session, 'canvas');
+  const cacheLanguage = cacheable ? session.language : undefined;
+  const limits = getLessonLimits(session.profile);
+  // Indices of draw commands already handed to the caller while streaming
+  const delivered = new Set<number>();
+  let narrated = false;
+
+  const deliverCommand = (raw: unknown, index: number) => {
+    if (delivered.has(index) || delivered.size >= limits.maxDrawCommands) return;
+    const { value } = validateDrawCommand(raw, `drawCommands[${index}]`);
+    if (value) {
+      delivered.add(index);
+      handlers?.onDrawCommand?.(value);
+    }
+  };
+
+  let responseText: string;
+  if (handlers) {
+    // Stream the completion and surface each finished piece as soon as it closes
+    const parser = new StreamingJSONParser(
+      {
+        onField: handlers.onField,
+        onArrayItem: (_key, item, index) => deliverCommand(item, index),
+        onSentence: (key, sentence) => {
+          if (key === 'explanation') handlers.onExplanationSentence?.(sentence);
+          else {
+            narrated = true;
+            handlers.onNarrationSentence?.(sentence);
+          }
+        }
+      },
+      { arrayFields: ['drawCommands'], sentenceFields: ['explanation', 'narration'] }
+    );
+
+    responseText = (await requestCompletion('canvas', messages, {
+      onChunk: chunk => parser.push(chunk),
+      cacheLanguage,
+      session,
+      signal
+    })).text;
+    parser.end();
+  } else {
+    responseText = (await requestCompletion('canvas', messages, { cacheLanguage, session, signal })).text;
+  }
+
+  let result = parseAIResponse(responseText);
+
+  // Self-repair: show the model exactly what was wrong and ask for the corrected object
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS && result.issues.length > 0; attempt++) {
+    console.warn(`AI response failed validation (repair ${attempt}/${MAX_REPAIR_ATTEMPTS}):\n${formatSchemaIssues(result.issues)}`);
+
+    messages.push(
+      { role: 'assistant', content: responseText },
+      { role: 'user', content: buildRepairPrompt(result.issues) }
+    );
+
+    try {
+      responseText = (await requestCompletion('canvas', messages, { session, signal })).text;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.log('Repair request failed:', error);
+      break;
+    }
+    result = parseAIResponse(responseText);
 
-    const responseText = completion.choices[0]?.message?.content || '';
-    console.log('OpenAI succeeded');
-    return parseAIResponse(responseText);
-  } catch (openaiError) {
-    console.log('OpenAI failed:', openaiError);
+    // The student must never see or hear the rejected answer mixed with the corrected one
+    if (delivered.size > 0 || narrated) {
+      handlers?.onRedraw?.(result.value.drawCommands?.slice(0, limits.maxDrawCommands) || [], result.value.narration || '');
+    }
   }
 
-  // Fallback to Groq
-  try {
-    console.log('Trying Groq fallback...');
-    const messagesForGroq = [
-      { role: 'system' as const, content: SYSTEM_PROMPT + '\n\nIMPORTANT: Respond with ONLY valid JSON, no markdown.' },
-      { role: 'system' as const, content: contextMessage },
-      ...conversationHistory.slice(-4).map(m => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.content
-      })),
-      { role: 'user' as const, content: userMessage }
-    ];
-
-    const completion = await groq.chat.completions.create({
-      model: 'llama-3.3-70b-versatile',
-      messages: messagesForGroq,
-      temperature: 0.7,
-      max_tokens: 2500
-    });
+  // The profile's lesson size is a hard limit, whatever the model made of the instruction
+  result.value.drawCommands = result.value.drawCommands?.slice(0, limits.maxDrawCommands);
+  result.value.taskBreakdown = result.value.taskBreakdown?.slice(0, limits.maxSteps);
+  if (passages.length > 0) {
+    result.value.citations = citedPassages(`${result.value.explanation} ${result.value.narration || ''}`, passages);
+  }
 
-    let responseText = completion.choices[0]?.message?.content || '';
-    
-    // Clean Groq response (may have markdown)
-    responseText = responseText.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim();
-    console.log('Groq succeeded');
-    return parseAIResponse(responseText);
-  } catch (groqError) {
-    console.log('Groq also failed:', groqError);
-    throw new Error('Both OpenAI and Groq failed. Please check your API keys.');
+  session.recordTopic('canvas', result.value.topic, result.value.isNewTopic);
+
+  // Only self-contained answers are reusable - follow-ups depend on the conversation
+  if (cacheable && result.issues.length === 0 && result.value.isNewTopic) {
+    putCachedResponse(cacheParts, result.value);
   }
+
+  return result.value;
 }
 
-function parseAIResponse(responseText: string): AIResponse & { isNewTopic?: boolean; taskBreakdown?: string[] } {
-  try {
-    const parsed = JSON.parse(responseText);
-    
-    if (parsed.topic && parsed.isNewTopic) {
-      currentTopic = parsed.topic;
+async function usesDrawingTools(): Promise<boolean> {
+  return DRAWING_PROTOCOL === 'tools' && (await getBackendStatus()).tools;
+}
+
+// Tool-calling protocol: the reply text is the explanation, narration and drawing arrive as tool
+// calls, and everything is handed on as it streams in. Never cached - connect, highlight and
+// clear_region act on whatever is on the canvas at that moment.
+async function getToolResponse(
+  messages: ChatMessage[],
+  userMessage: string,
+  session: TutorSession,
+  handlers: AIStreamHandlers,
+  passages: Citation[],
+  signal?: AbortSignal
+): Promise<TutorResponse> {
+  const limits = getLessonLimits(session.profile);
+  // Until start_lesson says otherwise: a follow-up if there is a topic already
+  const currentTopic = session.getCurrentTopic('canvas');
+  const response: TutorResponse = {
+    topic: currentTopic || userMessage.slice(0, 60),
+    isNewTopic: !currentTopic,
+    explanation: '',
+    narration: '',
+    drawCommands: []
+  };
+  let drawingCalls = 0;
+  // Explanation text not yet ending in a full sentence
+  let pending = '';
+
+  const onToolCall = (call: ToolCall) => {
+    const args = call.arguments;
+    if (call.name === 'start_lesson') {
+      if (typeof args.topic === 'string' && args.topic.trim()) response.topic = args.topic.trim();
+      if (typeof args.isNewTopic === 'boolean') response.isNewTopic = args.isNewTopic;
+      if (Array.isArray(args.steps)) response.taskBreakdown = args.steps.map(String).slice(0, limits.maxSteps);
+      handlers.onField?.('topic', response.topic);
+      handlers.onField?.('isNewTopic', response.isNewTopic);
+      if (response.taskBreakdown) handlers.onField?.('taskBreakdown', response.taskBreakdown);
+    } else if (call.name === 'narrate') {
+      const text = typeof args.text === 'string' ? args.text.trim() : '';
+      if (!text) return;
+      response.narration = response.narration ? `${response.narration} ${text}` : text;
+      handlers.onNarrationSentence?.(text);
+    } else if (drawingCalls < limits.maxDrawCommands) {
+      drawingCalls++;
+      handlers.onToolCall?.(call);
     }
-    
-    return {
-      explanation: parsed.explanation || 'No explanation provided.',
-      drawCommands: parsed.drawCommands || [],
-      narration: parsed.narration || parsed.explanation,
-      isNewTopic: parsed.isNewTopic ?? true,
-      taskBreakdown: parsed.taskBreakdown || []
-    };
-  } catch {
+  };
+
+  const onChunk = (chunk: string) => {
+    pending += chunk;
+    // Same sentence rule as the JSON stream
+    let split;
+    while ((split = takeSentence(pending))) {
+      pending = split.rest;
+      handlers.onExplanationSentence?.(split.sentence);
+    }
+  };
+
+  const { text } = await requestCompletion('canvas', messages, { tools: DRAWING_TOOLS, onChunk, onToolCall, session, signal });
+  if (pending) handlers.onExplanationSentence?.(pending);
+
+  // A model that only narrated still leaves something readable in the chat
+  response.explanation = text.trim() || response.narration || '';
+  session.recordTopic('canvas', response.topic, response.isNewTopic);
+  if (passages.length > 0) {
+    response.citations = citedPassages(`${response.explanation} ${response.narration}`, passages);
+  }
+  return response;
+}
+
+// A question asked with no topic under way and nothing in memory stands on its own. Only those are
+// answered from, or stored in, a cache: the key has no room for the conversation, so anything
+// else could be a follow-up ("why?") that a cached lesson would answer as a new topic.
+// The backend's shared cache applies the same rule to the messages it is sent.
+function isSelfContained(session: TutorSession, mode: LLMMode): boolean {
+  return !session.getCurrentTopic(mode) && session.memory.getTurns().length === 0 && !session.memory.getSummary();
+}
+
+async function getCacheKeyParts(mode: LLMMode, question: string, session: TutorSession): Promise<CacheKeyParts> {
+  const [status] = await Promise.all([getBackendStatus(), courseNotes.load()]);
+  return {
+    question,
+    mode,
+    model: status.models[mode],
+    promptVersion: PROMPT_VERSION,
+    audience: profileCacheKey(session.profile),
+    language: session.language,
+    notes: courseNotes.signature() || undefined
+  };
+}
+
+// Fast path before the network: this browser's cache, then the backend's shared cache.
+// Shared entries are raw completions and go through the same validation as fresh ones.
+export async function getCachedAIResponse(question: string, session: TutorSession): Promise<TutorResponse | null> {
+  if (!isSelfContained(session, 'canvas')) return null;
+  const parts = await getCacheKeyParts('canvas', question, session);
+  let response = await getCachedResponse<TutorResponse>(parts);
+
+  if (!response && (await getBackendStatus()).sharedCache) {
+    // The same messages a fresh answer would be asked with - the backend keys its entries on them
+    const passages = await courseNotes.search(question);
+    const messages = buildMessages(SYSTEM_PROMPT, question, session, 'canvas', { passages });
+    const text = await fetchSharedCacheEntry('canvas', session.language, messages);
+    const shared = text ? parseAIResponse(text) : null;
+    if (shared && shared.issues.length === 0 && shared.value.isNewTopic) {
+      response = shared.value;
+      putCachedResponse(parts, response);
+    }
+  }
+
+  if (response) {
+    session.recordTopic('canvas', response.topic, true);
+  }
+  return response;
+}
+
+function buildRepairPrompt(issues: SchemaIssue[]): string {
+  return `Your previous response did not match the required format:
+${formatSchemaIssues(issues)}
+
+Reply with the complete corrected JSON object only. Keep everything that was valid unchanged.`;
+}
+
+// How to use an attached photo, per mode
+const IMAGE_PROMPTS: Record<LLMMode, string> = {
+  canvas: `The student attached a photo or screenshot of their problem. Read it carefully.
+First redraw the figure or setup from the image on the canvas - same labels, values and layout, cleaned up -
+then explain or solve it step by step. If part of the image is unreadable, say so instead of guessing.`,
+  diagram: `The student attached a photo or screenshot of their problem. Read it carefully.
+Reconstruct what it shows (a figure, a process, a structure) as the Mermaid diagram, then explain it.
+If part of the image is unreadable, say so instead of guessing.`
+};
+
+// Grounds the answer in the teacher's own material; the numbers match the citations shown in the chat
+function buildNotesPrompt(passages: Citation[]): string {
+  const quoted = passages
+    .map(p => `[${p.index}] ${p.source}${p.location ? `, ${p.location}` : ''}:\n${p.text}`)
+    .join('\n\n');
+
+  return `COURSE NOTES - passages from the student's own course material that match this question:
+
+${quoted}
+
+Explain the way these notes do: use their terminology, notation and method, and prefer their facts over your own.
+Cite a passage where you use it, as [1], [2] in the explanation. If the notes do not cover the question, answer normally without citations.`;
+}
+
+// Which passages the answer actually cites - all of them if it cites none
+function citedPassages(answer: string, passages: Citation[]): Citation[] {
+  const cited = new Set([...answer.matchAll(/\[(\d+)\]/g)].map(match => Number(match[1])));
+  const used = passages.filter(p => cited.has(p.index));
+  return used.length > 0 ? used : passages;
+}
+
+// Shared prompt layout: system prompt, learner profile and language, topic context, course notes,
+// conversation memory, recent turns, then the question (with any attached images)
+function buildMessages(
+  systemPrompt: string,
+  userMessage: string,
+  session: TutorSession,
+  mode: LLMMode,
+  { images = [], passages = [] }: { images?: ChatImage[]; passages?: Citation[] } = {}
+): ChatMessage[] {
+  const { memoryMessage, recentTurns } = session.memory.buildPromptContext(MEMORY_TOKEN_BUDGET, mode === 'canvas');
+  const languageMessage = buildLanguagePrompt(session.language);
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'system', content: buildProfilePrompt(session.profile, mode) },
+    ...(languageMessage ? [{ role: 'system' as const, content: languageMessage }] : []),
+    { role: 'system', content: buildTopicContext(session, mode) },
+    ...(passages.length > 0 ? [{ role: 'system' as const, content: buildNotesPrompt(passages) }] : []),
+    ...(memoryMessage ? [{ role: 'system' as const, content: memoryMessage }] : []),
+    ...recentTurns,
+    ...(images.length > 0 ? [{ role: 'system' as const, content: IMAGE_PROMPTS[mode] }] : []),
+    images.length > 0 ? { role: 'user', content: userMessage, images } : { role: 'user', content: userMessage }
+  ];
+}
+
+// Where this session's conversation stands, so the model can decide isNewTopic
+function buildTopicContext(session: TutorSession, mode: LLMMode): string {
+  const frame = session.getCurrentFrame(mode);
+  if (!frame) return 'New topic. Set isNewTopic:true.';
+
+  const subtopics = frame.subtopics.length > 0 ? ` (follow-ups so far: ${frame.subtopics.join(', ')})` : '';
+  return `Current topic: "${frame.topic}"${subtopics}. Set isNewTopic:false for follow-ups on it, true only if the student changes subject.`;
+}
+
+// Tokens of summary, covered concepts, canvas contents and past turns per request
+const MEMORY_TOKEN_BUDGET = 1500;
+
+const SUMMARY_PROMPT = `You maintain the running memory of a tutoring session.
+Merge the previous summary and the new conversation turns into one concise summary (max 120 words):
+what the student asked, what was explained, and anything they struggled with.
+
+RESPOND WITH ONLY A JSON OBJECT: {"summary": "..."}`;
+
+// Summarizer for ConversationMemory - folds old turns into the rolling summary
+export async function summarizeConversation(
+  previousSummary: string,
+  turns: MemoryTurn[],
+  session?: TutorSession
+): Promise<string> {
+  const transcript = turns
+    .map(turn => `${turn.role === 'user' ? 'Student' : 'Tutor'}: ${turn.content}`)
+    .join('\n');
+
+  const { text } = await requestCompletion('canvas', [
+    { role: 'system', content: SUMMARY_PROMPT },
+    { role: 'user', content: `Previous summary:\n${previousSummary || '(none)'}\n\nNew turns:\n${transcript}` }
+  ], { session });
+
+  const summary = (JSON.parse(text) as { summary?: unknown }).summary;
+  if (typeof summary !== 'string' || !summary.trim()) {
+    throw new Error('Summary response had no summary');
+  }
+  return summary.trim();
+}
+
+function parseAIResponse(responseText: string): ValidationResult<TutorResponse> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(responseText);
+  } catch (error) {
     return {
-      explanation: responseText,
-      narration: responseText,
-      isNewTopic: true,
-      taskBreakdown: []
+      value: {
+        explanation: responseText,
+        narration: responseText,
+        isNewTopic: true,
+        taskBreakdown: []
+      },
+      issues: [{ path: '$', message: `invalid JSON (${error instanceof Error ? error.message : 'parse error'})` }]
     };
   }
+
+  return validateAIResponse(parsed);
 }
 
 // Mermaid diagram generation prompt
@@ -148,10 +490,12 @@ RESPOND WITH ONLY A JSON OBJECT (no markdown):
 {
   "topic": "topic name",
   "isNewTopic": true or false,
-  "explanation": "Detailed text explanation",
+  "explanation": "Detailed Markdown explanation",
   "mermaidCode": "graph TD\\n    A[Start] --> B[End]"
 }
 
+${FORMATTING_RULES}
+
 CRITICAL MERMAID SYNTAX RULES (MUST FOLLOW):
 
 1. ALWAYS quote node text with special characters:
@@ -216,82 +560,112 @@ export interface MermaidResponse {
   isNewTopic: boolean;
   explanation: string;
   mermaidCode: string;
+  citations?: Citation[];
 }
 
+// How many corrected diagrams we ask for before showing the render error
+const MAX_MERMAID_REPAIR_ROUNDS = 2;
+
 export async function getMermaidResponse(
   userMessage: string,
-  conversationHistory: { role: 'user' | 'assistant'; content: string }[]
+  session: TutorSession,
+  images: ChatImage[] = [],
+  signal?: AbortSignal
 ): Promise<MermaidResponse> {
-  const contextMessage = currentTopic 
-    ? `Continue explaining "${currentTopic}". Set isNewTopic:false.`
-    : 'New topic. Set isNewTopic:true.';
-
-  const messages = [
-    { role: 'system' as const, content: MERMAID_SYSTEM_PROMPT },
-    { role: 'system' as const, content: contextMessage },
-    ...conversationHistory.slice(-4).map(m => ({
-      role: m.role as 'user' | 'assistant',
-      content: m.content
-    })),
-    { role: 'user' as const, content: userMessage }
-  ];
+  const passages = await courseNotes.search(userMessage);
+  const messages = buildMessages(MERMAID_SYSTEM_PROMPT, userMessage, session, 'diagram', { images, passages });
+  const cacheParts = await getCacheKeyParts('diagram', userMessage, session);
+  const cacheable = images.length === 0 && isSelfContained(session, 'diagram');
+  const cacheLanguage = cacheable ? session.language : undefined;
+  let responseText = (await requestCompletion('diagram', messages, { cacheLanguage, session, signal })).text;
+  let result = parseMermaidResponse(responseText);
+
+  // Compile-check with mermaid's own parser; on failure hand the exact error back to the model
+  let parserError = result.mermaidCode ? await checkMermaidSyntax(result.mermaidCode) : null;
+
+  for (let round = 1; parserError && round <= MAX_MERMAID_REPAIR_ROUNDS; round++) {
+    console.warn(`Mermaid diagram failed to parse (repair ${round}/${MAX_MERMAID_REPAIR_ROUNDS}):`, parserError);
+
+    messages.push(
+      { role: 'assistant', content: responseText },
+      { role: 'user', content: buildMermaidRepairPrompt(result.mermaidCode, parserError) }
+    );
+
+    try {
+      responseText = (await requestCompletion('diagram', messages, { session, signal })).text;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.log('Mermaid repair request failed:', error);
+      break;
+    }
 
-  // Try OpenAI first
-  try {
-    console.log('Trying OpenAI for Mermaid...');
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages,
-      temperature: 0.7,
-      max_tokens: 2500,
-      response_format: { type: "json_object" }
+    const repaired = parseMermaidResponse(responseText);
+    const repairedError = repaired.mermaidCode ? await checkMermaidSyntax(repaired.mermaidCode) : 'empty diagram';
+
+    logMermaidRepair({
+      question: userMessage,
+      round,
+      failedCode: result.mermaidCode,
+      parserError,
+      repairedCode: repaired.mermaidCode,
+      repaired: !repairedError
     });
 
-    const responseText = completion.choices[0]?.message?.content || '';
-    console.log('OpenAI Mermaid succeeded');
-    return parseMermaidResponse(responseText);
-  } catch (openaiError) {
-    console.log('OpenAI failed:', openaiError);
+    if (repaired.mermaidCode) {
+      result = repaired;
+    }
+    parserError = repairedError;
   }
 
-  // Fallback to Groq
-  try {
-    console.log('Trying Groq fallback for Mermaid...');
-    const groqMessages = [
-      { role: 'system' as const, content: MERMAID_SYSTEM_PROMPT + '\n\nIMPORTANT: Respond with ONLY valid JSON, no markdown wrapping.' },
-      { role: 'system' as const, content: contextMessage },
-      ...conversationHistory.slice(-4).map(m => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.content
-      })),
-      { role: 'user' as const, content: userMessage }
-    ];
-
-    const completion = await groq.chat.completions.create({
-      model: 'llama-3.3-70b-versatile',
-      messages: groqMessages,
-      temperature: 0.7,
-      max_tokens: 2500
-    });
+  session.recordTopic('diagram', result.topic, result.isNewTopic);
+  if (passages.length > 0) {
+    result.citations = citedPassages(result.explanation, passages);
+  }
 
-    let responseText = completion.choices[0]?.message?.content || '';
-    responseText = responseText.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim();
-    console.log('Groq Mermaid succeeded');
-    return parseMermaidResponse(responseText);
-  } catch (groqError) {
-    console.log('Groq also failed:', groqError);
-    throw new Error('Both OpenAI and Groq failed. Please check your API keys.');
+  if (cacheable && !parserError && result.mermaidCode && result.isNewTopic) {
+    putCachedResponse(cacheParts, result);
   }
+
+  return result;
+}
+
+export async function getCachedMermaidResponse(question: string, session: TutorSession): Promise<MermaidResponse | null> {
+  if (!isSelfContained(session, 'diagram')) return null;
+  const parts = await getCacheKeyParts('diagram', question, session);
+  let response = await getCachedResponse<MermaidResponse>(parts);
+
+  if (!response && (await getBackendStatus()).sharedCache) {
+    const passages = await courseNotes.search(question);
+    const messages = buildMessages(MERMAID_SYSTEM_PROMPT, question, session, 'diagram', { passages });
+    const text = await fetchSharedCacheEntry('diagram', session.language, messages);
+    const shared = text ? parseMermaidResponse(text) : null;
+    if (shared?.mermaidCode && shared.isNewTopic && !(await checkMermaidSyntax(shared.mermaidCode))) {
+      response = shared;
+      putCachedResponse(parts, response);
+    }
+  }
+
+  if (response) {
+    session.recordTopic('diagram', response.topic, true);
+  }
+  return response;
+}
+
+function buildMermaidRepairPrompt(code: string, parserError: string): string {
+  return `The mermaidCode you returned does not compile. Mermaid's parser reported:
+
+${parserError}
+
+Failing code:
+${code}
+
+Fix the diagram and reply with the complete JSON object again. Follow the syntax rules exactly.`;
 }
 
 function parseMermaidResponse(responseText: string): MermaidResponse {
   try {
     const parsed = JSON.parse(responseText);
     
-    if (parsed.topic && parsed.isNewTopic) {
-      currentTopic = parsed.topic;
-    }
-    
     // Clean up mermaid code
     let mermaidCode = parsed.mermaidCode || '';
     mermaidCode = mermaidCode.replace(/\\n/g, '\n');
@@ -344,14 +718,7 @@ function sanitizeMermaidCode(code: string): string {
   return code;
 }
 
+// Optimistic until the backend has answered; the backend reports missing keys itself
 export function isAPIKeyConfigured(): boolean {
-  return !!(import.meta.env.VITE_OPENAI_API_KEY || import.meta.env.VITE_GROQ_API_KEY);
-}
-
-export function resetTopicContext(): void {
-  currentTopic = null;
-}
-
-export function getCurrentTopic(): string | null {
-  return currentTopic;
+  return backendStatus?.llm ?? true;
 }
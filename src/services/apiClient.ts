@@ -0,0 +1,265 @@
+// Client for the tutor backend - every AI and TTS call goes through it so no API key ships to the browser
+
+import type { ChatMessage, CompletionUsage, LLMMode, ToolCall, ToolDefinition } from '../types';
+import { usageTracker } from './usageTracker';
+import type { TutorSession } from './tutorSession';
+import { RequestError, reasonForStatus, withRetry } from './retryPolicy';
+import type { FailureReason, RequestStatus } from './retryPolicy';
+
+// Same origin by default (Vite dev server or the standalone server)
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/$/, '');
+
+export interface CompletionResult {
+  text: string;
+  provider: string;
+  model: string;
+  usage?: CompletionUsage;
+  // Only when tools were offered
+  toolCalls?: ToolCall[];
+}
+
+export interface BackendStatus {
+  llm: boolean;
+  tts: boolean;
+  sharedCache: boolean;
+  // A configured provider can read attached images
+  vision: boolean;
+  // A configured canvas provider can call tools
+  tools: boolean;
+  // Primary model per mode, '' when none is configured
+  models: Record<LLMMode, string>;
+}
+
+export interface CompletionOptions {
+  // Stream the completion, receiving text deltas as they arrive
+  onChunk?: (chunk: string) => void;
+  // Offer the answer to the backend's shared cache, for students asking in this language. The
+  // backend decides whether it is self-contained and valid enough to share.
+  cacheLanguage?: string;
+  // Usage is recorded against this session, and an exhausted budget asks for cheap providers
+  session?: TutorSession;
+  // Offer the model these tools instead of asking for JSON; while streaming, each finished call
+  // is passed to onToolCall in order with the text around it
+  tools?: ToolDefinition[];
+  onToolCall?: (call: ToolCall) => void;
+  // Aborts the request, and any retry of it, e.g. when the student stops or asks something else
+  signal?: AbortSignal;
+}
+
+const OFFLINE_STATUS: BackendStatus = {
+  llm: false,
+  tts: false,
+  sharedCache: false,
+  vision: false,
+  tools: false,
+  models: { canvas: '', diagram: '' }
+};
+
+export class ApiError extends RequestError {
+  status: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number, reason = reasonForStatus(status)) {
+    super(reason, message, status, retryAfterMs);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+// The server has already retried and failed over between providers, so the browser only
+// retries what the server could not: a dropped connection, or a short rate limit
+const CLIENT_RETRY = {
+  provider: 'tutor server',
+  maxAttempts: 3,
+  // Long enough for the server to work through its whole provider chain
+  timeoutMs: 180_000,
+  shouldRetry: (error: RequestError) => error.reason === 'network' || error.reason === 'rate-limited'
+};
+
+// ============ REQUEST STATUS ============
+
+type RequestStatusListener = (status: RequestStatus) => void;
+
+const statusListeners = new Set<RequestStatusListener>();
+
+function emitStatus(status: RequestStatus) {
+  statusListeners.forEach(listener => listener(status));
+}
+
+// Retries, fallbacks and skipped providers - from the server's stream and from this client.
+// Returns the unsubscribe function.
+export function onRequestStatus(listener: RequestStatusListener): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+async function post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({})) as { error?: string; reason?: FailureReason; retryAfterMs?: number };
+    throw new ApiError(response.status, data.error || `Request failed with ${response.status}`, data.retryAfterMs, data.reason);
+  }
+  return response;
+}
+
+// Canvas prompts go to /api/chat, diagram prompts to /api/mermaid
+export async function requestCompletion(
+  mode: LLMMode,
+  messages: ChatMessage[],
+  { onChunk, cacheLanguage, session, tools, onToolCall, signal }: CompletionOptions = {}
+): Promise<CompletionResult> {
+  const path = mode === 'diagram' ? '/api/mermaid' : '/api/chat';
+  const economy = session?.isOverBudget() || undefined;
+  const startedAt = Date.now();
+  const track = (result: CompletionResult) => {
+    recordCompletionUsage(result, mode, session, Date.now() - startedAt);
+    return result;
+  };
+
+  if (!onChunk) {
+    return withRetry(async signal => {
+      const response = await post(path, { messages, cacheLanguage, economy, tools }, signal);
+      return track(await response.json());
+    }, { ...CLIENT_RETRY, onStatus: emitStatus, signal });
+  }
+
+  // A failed stream is only retried while nothing has been shown yet
+  let streamed = false;
+  return withRetry(async signal => {
+    const response = await post(path, { messages, cacheLanguage, economy, tools, stream: true }, signal);
+    if (!response.body) throw new ApiError(502, 'Streaming response had no body');
+
+    // Newline-delimited JSON events: delta, tool and status... then done or error
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line) as {
+          type: string;
+          text?: string;
+          name?: string;
+          arguments?: Record<string, unknown>;
+          provider?: string;
+          model?: string;
+          message?: string;
+          reason?: FailureReason;
+          retryAfterMs?: number;
+          usage?: CompletionUsage;
+          toolCalls?: ToolCall[];
+        };
+
+        if (event.type === 'delta' && event.text) {
+          text += event.text;
+          streamed = true;
+          onChunk(event.text);
+        } else if (event.type === 'tool' && event.name) {
+          streamed = true;
+          onToolCall?.({ name: event.name, arguments: event.arguments || {} });
+        } else if (event.type === 'status') {
+          emitStatus(event as unknown as RequestStatus);
+        } else if (event.type === 'done') {
+          // The server sends the final text with any markdown fences stripped
+          return track({
+            text: event.text ?? text,
+            provider: event.provider || '',
+            model: event.model || '',
+            usage: event.usage,
+            toolCalls: event.toolCalls
+          });
+        } else if (event.type === 'error') {
+          throw new ApiError(502, event.message || 'Completion failed', event.retryAfterMs, event.reason);
+        }
+      }
+    }
+
+    throw new ApiError(502, 'Completion stream ended unexpectedly', undefined, 'network');
+  }, {
+    ...CLIENT_RETRY,
+    onStatus: emitStatus,
+    shouldRetry: error => !streamed && CLIENT_RETRY.shouldRetry(error),
+    signal
+  });
+}
+
+function recordCompletionUsage(result: CompletionResult, mode: LLMMode, session: TutorSession | undefined, latencyMs: number) {
+  usageTracker.record({
+    timestamp: Date.now(),
+    sessionId: session?.id || '',
+    mode,
+    provider: result.provider,
+    model: result.model,
+    promptTokens: result.usage?.promptTokens || 0,
+    completionTokens: result.usage?.completionTokens || 0,
+    characters: 0,
+    latencyMs,
+    costUsd: result.usage?.costUsd || 0,
+    estimated: result.usage?.estimated ?? true
+  });
+}
+
+// Returns encoded audio (mp3 from ElevenLabs). Not retried here - the caller falls back to the
+// browser voice instead of keeping the student waiting.
+export async function requestSpeech(text: string, language = 'en', sessionId = ''): Promise<ArrayBuffer> {
+  const startedAt = Date.now();
+  const response = await withRetry(
+    signal => post('/api/tts', { text, language }, signal),
+    { ...CLIENT_RETRY, maxAttempts: 1, timeoutMs: 20_000 }
+  );
+  const audio = await response.arrayBuffer();
+
+  usageTracker.record({
+    timestamp: Date.now(),
+    sessionId,
+    mode: 'speech',
+    provider: 'elevenlabs',
+    model: response.headers.get('X-Usage-Model') || '',
+    promptTokens: 0,
+    completionTokens: 0,
+    characters: Number(response.headers.get('X-Usage-Characters')) || text.length,
+    latencyMs: Date.now() - startedAt,
+    costUsd: Number(response.headers.get('X-Usage-Cost-Usd')) || 0,
+    estimated: false
+  });
+  return audio;
+}
+
+// Raw completion text another client already paid for, or null. The backend finds it from the
+// messages that would be sent for the answer.
+export async function fetchSharedCacheEntry(mode: LLMMode, language: string, messages: ChatMessage[]): Promise<string | null> {
+  try {
+    const response = await post('/api/cache', { mode, language, messages });
+    const data = await response.json() as { text?: string };
+    return data.text ?? null;
+  } catch {
+    return null;
+  }
+}
+
+let statusPromise: Promise<BackendStatus> | null = null;
+
+// Fetched once per page load
+export function getBackendStatus(): Promise<BackendStatus> {
+  if (!statusPromise) {
+    statusPromise = fetch(`${API_BASE_URL}/api/status`)
+      .then(response => response.ok ? response.json() : OFFLINE_STATUS)
+      .catch(() => OFFLINE_STATUS);
+  }
+  return statusPromise;
+}
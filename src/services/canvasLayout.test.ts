@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { DrawCommand } from '../types';
+import { estimateBounds, layoutCommands, placeNextTo } from './canvasLayout';
+
+function overlaps(a: { x: number; y: number; w: number; h: number }, b: { x: number; y: number; w: number; h: number }) {
+  return a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+}
+
+describe('estimateBounds', () => {
+  it('places circles by their center', () => {
+    expect(estimateBounds({ type: 'circle', x: 100, y: 100 })).toEqual({ x: 50, y: 50, w: 100, h: 100 });
+  });
+
+  it('has no box for connectors', () => {
+    expect(estimateBounds({ type: 'arrow', x: 0, y: 0, props: { start: { x: 0, y: 0 }, end: { x: 10, y: 10 } } })).toBeNull();
+  });
+});
+
+describe('placeNextTo', () => {
+  const target = { x: 100, y: 100, w: 100, h: 60 };
+
+  it('centers the shape on the chosen side, a gap away', () => {
+    const rectangle: DrawCommand = { type: 'rectangle', x: 0, y: 0, props: { w: 50, h: 20 } };
+    expect(placeNextTo(rectangle, target, 'below')).toEqual({ x: 125, y: 200 });
+    expect(placeNextTo(rectangle, target, 'rightOf')).toEqual({ x: 240, y: 120 });
+    expect(placeNextTo({ ...rectangle, props: { ...rectangle.props, gap: 0 } }, target, 'above')).toEqual({ x: 125, y: 80 });
+  });
+
+  it('accounts for circles being placed by their center', () => {
+    expect(placeNextTo({ type: 'circle', x: 0, y: 0, props: { radius: 10 } }, target, 'leftOf')).toEqual({ x: 50, y: 130 });
+  });
+});
+
+describe('layoutCommands', () => {
+  it('moves a shape off one already on the canvas', () => {
+    const occupied = [{ x: 100, y: 100, w: 100, h: 60 }];
+    const { commands, moves } = layoutCommands([{ type: 'rectangle', x: 170, y: 110 }], occupied);
+    const box = estimateBounds(commands[0]);
+    expect(box && overlaps(box, occupied[0])).toBe(false);
+    expect(moves).toHaveLength(1);
+  });
+
+  it('treats a shape drawn inside another as a label, not a collision', () => {
+    const command: DrawCommand = { type: 'rectangle', x: 110, y: 110, props: { w: 60, h: 30 } };
+    expect(layoutCommands([command], [{ x: 100, y: 100, w: 100, h: 60 }]).moves).toEqual([]);
+  });
+
+  it('leaves shapes that fit alone', () => {
+    const command: DrawCommand = { type: 'rectangle', x: 300, y: 300 };
+    expect(layoutCommands([command], [{ x: 0, y: 0, w: 100, h: 100 }])).toEqual({ commands: [command], moves: [] });
+  });
+
+  it('keeps shapes on the canvas', () => {
+    const { commands } = layoutCommands([{ type: 'rectangle', x: 780, y: 590 }], []);
+    const box = estimateBounds(commands[0]);
+    expect(box && box.x + box.w <= 800 && box.y + box.h <= 600).toBe(true);
+  });
+
+  it('lets an arrow follow the shape its end was drawn against', () => {
+    const occupied = [{ x: 100, y: 100, w: 100, h: 60 }];
+    const { commands, moves } = layoutCommands([
+      { type: 'rectangle', x: 170, y: 110 },
+      { type: 'arrow', x: 0, y: 0, props: { start: { x: 20, y: 20 }, end: { x: 180, y: 140 } } }
+    ], occupied);
+    const [move] = moves;
+    expect(commands[1].props?.end).toEqual({ x: 180 + move.dx, y: 140 + move.dy });
+    expect(commands[1].props?.start).toEqual({ x: 20, y: 20 });
+  });
+});
@@ -0,0 +1,280 @@
+// Layout pass run before a batch of AI draw commands is drawn
+// Shapes and labels that would overlap what is already on the canvas (or earlier in the batch)
+// are nudged apart, arrows follow the shapes their ends were drawn against, and everything stays
+// inside the canvas. Positions are estimated from the commands - nothing is measured in the DOM.
+
+import type { DrawCommand } from '../types';
+import type { Region } from './drawingController';
+import type { Placement } from './responseSchema';
+
+// A shape the layout pass moved, kept so arrows drawn later still find it
+export interface LayoutMove {
+  type: DrawCommand['type'];
+  // The command's own x/y before the move, and the area it would have covered there
+  anchor: { x: number; y: number };
+  from: Region;
+  dx: number;
+  dy: number;
+}
+
+export interface LayoutResult {
+  commands: DrawCommand[];
+  moves: LayoutMove[];
+}
+
+// The canvas every prompt describes
+export const CANVAS_BOUNDS: Region = { x: 0, y: 0, w: 800, h: 600 };
+
+// Space left between shapes that had to be moved apart, and from the canvas edge
+const GAP = 6;
+const EDGE_MARGIN = 10;
+// Boxes are estimates: touching or barely overlapping is not a collision
+const TOLERANCE = 4;
+// A shape is never pushed further than this from where it was asked for
+const MAX_NUDGE = 200;
+// Rounds of "step out of the way of whatever is still in the way"
+const SEARCH_DEPTH = 3;
+// A box this much inside another is a label on a shape (or a shape within a shape), not a collision
+const INSIDE_RATIO = 0.75;
+// An arrow end this close to a shape was drawn against it
+const ATTACH_MARGIN = 16;
+// Space between a shape and the one it is placed next to, unless the command sets props.gap
+const PLACEMENT_GAP = 40;
+
+// Commands that connect or annotate other shapes: they may cross anything and are never nudged
+export const CONNECTOR_TYPES: DrawCommand['type'][] = ['arrow', 'line', 'curved-arrow', 'bracket', 'freehand', 'plot'];
+const ARROW_TYPES: DrawCommand['type'][] = ['arrow', 'line', 'curved-arrow'];
+
+type Offset = { dx: number; dy: number };
+
+// Roughly what the drawing controller will produce for this command, or null for connectors
+export function estimateBounds(command: DrawCommand): Region | null {
+  const props = command.props || {};
+  const { x, y } = command;
+
+  switch (command.type) {
+    case 'circle': {
+      const radius = props.radius || 50;
+      return { x: x - radius, y: y - radius, w: radius * 2, h: radius * 2 };
+    }
+    case 'rectangle':
+      return { x, y, w: props.w || 100, h: props.h || 60 };
+    case 'cloud':
+      return { x, y, w: props.w || 160, h: props.h || 100 };
+    case 'triangle':
+    case 'star':
+    case 'diamond':
+    case 'polygon':
+      return { x, y, w: props.w || 100, h: props.h || 100 };
+    case 'text': {
+      const fontSize = props.fontSize || 24;
+      const lines = (props.text || '').split('\n');
+      const longest = Math.max(1, ...lines.map(line => line.length));
+      return { x, y, w: longest * fontSize * 0.45, h: lines.length * fontSize * 1.2 };
+    }
+    case 'formula': {
+      const fontSize = props.fontSize || 28;
+      return { x, y, w: Math.max(1, (props.latex || '').length) * fontSize * 0.5, h: fontSize * 1.6 };
+    }
+    case 'note':
+      return { x, y, w: 200, h: 200 };
+    case 'image':
+      return props.icon
+        ? { x, y, w: props.w || 64, h: props.h || 64 }
+        : { x, y, w: props.w || 200, h: props.h || 150 };
+    case 'axes': {
+      // The box plus tick labels left and below, and the axis titles
+      const w = props.w || 400;
+      const h = props.h || 300;
+      const top = props.yLabel ? 36 : 12;
+      const bottom = props.xLabel ? 64 : 36;
+      return { x: x - 44, y: y - top, w: w + 54, h: h + top + bottom };
+    }
+    default:
+      return null;
+  }
+}
+
+// The x/y that centers the command's shape on one side of the target, props.gap away. Works from
+// the estimated box, so it also holds for circles (placed by their center) and axes (tick labels).
+export function placeNextTo(command: DrawCommand, target: Region, placement: Placement): { x: number; y: number } {
+  const box = estimateBounds({ ...command, x: 0, y: 0 }) ?? { x: 0, y: 0, w: 0, h: 0 };
+  const gap = command.props?.gap ?? PLACEMENT_GAP;
+  const centerX = target.x + target.w / 2 - box.w / 2;
+  const centerY = target.y + target.h / 2 - box.h / 2;
+  const corners: Record<Placement, { x: number; y: number }> = {
+    below: { x: centerX, y: target.y + target.h + gap },
+    above: { x: centerX, y: target.y - gap - box.h },
+    leftOf: { x: target.x - gap - box.w, y: centerY },
+    rightOf: { x: target.x + target.w + gap, y: centerY },
+  };
+  const corner = corners[placement];
+  return { x: Math.round(corner.x - box.x), y: Math.round(corner.y - box.y) };
+}
+
+// A negative margin ignores overlaps up to that deep
+function intersects(a: Region, b: Region, margin: number): boolean {
+  return a.x < b.x + b.w + margin && b.x < a.x + a.w + margin && a.y < b.y + b.h + margin && b.y < a.y + a.h + margin;
+}
+
+function overlapArea(a: Region, b: Region): number {
+  const w = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+  return w > 0 && h > 0 ? w * h : 0;
+}
+
+function mostlyInside(inner: Region, outer: Region): boolean {
+  const area = inner.w * inner.h;
+  return area <= outer.w * outer.h && overlapArea(inner, outer) >= area * INSIDE_RATIO;
+}
+
+function collides(a: Region, b: Region): boolean {
+  return intersects(a, b, -TOLERANCE) && !mostlyInside(a, b) && !mostlyInside(b, a);
+}
+
+function shifted(box: Region, { dx, dy }: Offset): Region {
+  return { x: box.x + dx, y: box.y + dy, w: box.w, h: box.h };
+}
+
+function contains(box: Region, point: { x: number; y: number }, margin = 0): boolean {
+  return point.x >= box.x - margin && point.x <= box.x + box.w + margin &&
+    point.y >= box.y - margin && point.y <= box.y + box.h + margin;
+}
+
+// The smallest move that brings the box inside the bounds (top-left wins when it cannot fit)
+function intoBounds(box: Region, bounds: Region): Offset {
+  const axis = (start: number, size: number, min: number, max: number) => {
+    if (start < min) return min - start;
+    if (start + size > max) return Math.max(max - size, min) - start;
+    return 0;
+  };
+  return {
+    dx: axis(box.x, box.w, bounds.x + EDGE_MARGIN, bounds.x + bounds.w - EDGE_MARGIN),
+    dy: axis(box.y, box.h, bounds.y + EDGE_MARGIN, bounds.y + bounds.h - EDGE_MARGIN),
+  };
+}
+
+// Find the cheapest offset that clears every obstacle: step out of the way of each obstacle still
+// in the way, up to SEARCH_DEPTH times. Labels prefer moving up or down, away from the shape they
+// name; shapes move either way. Falls back to the candidate with the least overlap.
+function place(box: Region, obstacles: Region[], bounds: Region, preferVertical: boolean): Offset {
+  const start = intoBounds(box, bounds);
+  const cost = ({ dx, dy }: Offset) => Math.abs(dx) * (preferVertical ? 1.5 : 1) + Math.abs(dy);
+  const inRange = (offset: Offset) => Math.abs(offset.dx - start.dx) <= MAX_NUDGE && Math.abs(offset.dy - start.dy) <= MAX_NUDGE &&
+    isZero(intoBounds(shifted(box, offset), bounds));
+  const blocking = (offset: Offset) => obstacles.filter(obstacle => collides(shifted(box, offset), obstacle));
+
+  let frontier: Offset[] = [start];
+  const seen = new Set<string>();
+  const tried: Offset[] = [];
+
+  for (let depth = 0; depth <= SEARCH_DEPTH && frontier.length > 0; depth++) {
+    frontier.sort((a, b) => cost(a) - cost(b));
+    const free = frontier.find(offset => blocking(offset).length === 0);
+    if (free) return free;
+
+    tried.push(...frontier);
+    frontier = frontier.flatMap(offset => blocking(offset).flatMap(obstacle => {
+      const moved = shifted(box, offset);
+      return [
+        { dx: offset.dx + obstacle.x + obstacle.w + GAP - moved.x, dy: offset.dy },
+        { dx: offset.dx + obstacle.x - GAP - (moved.x + moved.w), dy: offset.dy },
+        { dx: offset.dx, dy: offset.dy + obstacle.y + obstacle.h + GAP - moved.y },
+        { dx: offset.dx, dy: offset.dy + obstacle.y - GAP - (moved.y + moved.h) },
+      ];
+    })).filter(offset => {
+      const key = `${Math.round(offset.dx)},${Math.round(offset.dy)}`;
+      if (seen.has(key) || !inRange(offset)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  const overlap = (offset: Offset) => obstacles.reduce((sum, obstacle) => sum + overlapArea(shifted(box, offset), obstacle), 0);
+  return tried.reduce((best, offset) => overlap(offset) < overlap(best) ? offset : best, start);
+}
+
+function isZero({ dx, dy }: Offset): boolean {
+  return Math.abs(dx) < 0.5 && Math.abs(dy) < 0.5;
+}
+
+function translate(command: DrawCommand, { dx, dy }: Offset): DrawCommand {
+  return { ...command, x: Math.round(command.x + dx), y: Math.round(command.y + dy) };
+}
+
+function clampPoint(point: { x: number; y: number }, bounds: Region): { x: number; y: number } {
+  return {
+    x: Math.min(Math.max(point.x, bounds.x + EDGE_MARGIN), bounds.x + bounds.w - EDGE_MARGIN),
+    y: Math.min(Math.max(point.y, bounds.y + EDGE_MARGIN), bounds.y + bounds.h - EDGE_MARGIN),
+  };
+}
+
+// An arrow end drawn against a shape that has since moved goes with it - unless it already
+// touches the shape where it is now
+function followMoves(point: { x: number; y: number }, moves: LayoutMove[]): { x: number; y: number } {
+  const attached = moves
+    .filter(move => contains(move.from, point, ATTACH_MARGIN) && !contains(shifted(move.from, move), point, ATTACH_MARGIN))
+    .sort((a, b) => a.from.w * a.from.h - b.from.w * b.from.h)[0];
+  return attached ? { x: Math.round(point.x + attached.dx), y: Math.round(point.y + attached.dy) } : point;
+}
+
+// Lay out one batch against the regions already taken on the canvas. Shapes are placed in order,
+// each avoiding the ones before it; connectors are fixed up afterwards, once every move is known.
+// `previousMoves` are moves from earlier batches of the same drawing, for arrows that arrive later.
+export function layoutCommands(
+  commands: DrawCommand[],
+  occupied: Region[],
+  previousMoves: LayoutMove[] = [],
+  bounds: Region = CANVAS_BOUNDS
+): LayoutResult {
+  const obstacles = [...occupied];
+  const moves: LayoutMove[] = [];
+
+  const placed = commands.map(command => {
+    const box = CONNECTOR_TYPES.includes(command.type) ? null : estimateBounds(command);
+    if (!box) return command;
+
+    const offset = place(box, obstacles, bounds, command.type === 'text' || command.type === 'formula');
+    obstacles.push(shifted(box, offset));
+    if (isZero(offset)) return command;
+
+    moves.push({ type: command.type, anchor: { x: command.x, y: command.y }, from: box, ...offset });
+    return translate(command, offset);
+  });
+
+  const allMoves = [...previousMoves, ...moves];
+  const laidOut = placed.map(command => {
+    const props = command.props || {};
+
+    if (command.type === 'plot') {
+      // Plots stay on their axes
+      const axes = allMoves.find(move => move.type === 'axes' && move.anchor.x === command.x && move.anchor.y === command.y);
+      return axes ? translate(command, axes) : command;
+    }
+    if (ARROW_TYPES.includes(command.type) && props.start && props.end) {
+      return {
+        ...command,
+        props: {
+          ...props,
+          start: clampPoint(followMoves(props.start, allMoves), bounds),
+          end: clampPoint(followMoves(props.end, allMoves), bounds),
+        },
+      };
+    }
+    if (command.type === 'bracket' && props.start && props.end) {
+      return { ...command, props: { ...props, start: clampPoint(props.start, bounds), end: clampPoint(props.end, bounds) } };
+    }
+    if (command.type === 'freehand' && props.points?.length) {
+      // Strokes keep their shape: the whole stroke shifts back inside
+      const xs = props.points.map(point => point.x);
+      const ys = props.points.map(point => point.y);
+      const box = { x: Math.min(...xs), y: Math.min(...ys), w: Math.max(...xs) - Math.min(...xs), h: Math.max(...ys) - Math.min(...ys) };
+      const { dx, dy } = intoBounds(box, bounds);
+      if (dx === 0 && dy === 0) return command;
+      return { ...command, props: { ...props, points: props.points.map(point => ({ x: point.x + dx, y: point.y + dy })) } };
+    }
+    return command;
+  });
+
+  return { commands: laidOut, moves };
+}
@@ -0,0 +1,166 @@
+// Conversation memory - keeps a long tutoring session coherent within a token budget
+// Recent turns stay verbatim; older turns are folded into a rolling summary. Alongside that we keep
+// the concepts already covered and (through a callback) what is currently drawn on the canvas.
+
+import type { ChatMessage } from '../types';
+
+export interface MemoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Folds older turns into the running summary; returns the new summary
+export type Summarizer = (previousSummary: string, turns: MemoryTurn[]) => Promise<string>;
+
+export interface ConversationMemoryOptions {
+  summarize?: Summarizer;
+  // Short descriptions of what is on the canvas right now
+  describeCanvas?: () => string[];
+}
+
+export interface PromptContext {
+  // System message with summary, covered concepts and canvas contents ('' when there is nothing yet)
+  memoryMessage: string;
+  // Most recent turns that fit the budget, oldest first
+  recentTurns: ChatMessage[];
+}
+
+// Turns kept verbatim before the oldest are summarized (4 question/answer pairs)
+const MAX_VERBATIM_TURNS = 8;
+// Default prompt budget for everything memory contributes
+const DEFAULT_TOKEN_BUDGET = 1500;
+const MAX_CONCEPTS = 40;
+const MAX_CANVAS_ITEMS = 30;
+
+// Rough but dependable for English prose: ~4 characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function truncateToTokens(text: string, tokens: number): string {
+  const maxChars = tokens * 4;
+  return text.length <= maxChars ? text : text.slice(0, Math.max(0, maxChars - 3)) + '...';
+}
+
+// Fallback when the summarizer is unavailable: first sentence of every folded turn
+function extractiveSummary(previousSummary: string, turns: MemoryTurn[]): string {
+  const lines = turns.map(turn => {
+    const firstSentence = turn.content.split(/(?<=[.!?])\s/)[0].slice(0, 160);
+    return `${turn.role === 'user' ? 'Student asked' : 'Tutor explained'}: ${firstSentence}`;
+  });
+  return [previousSummary, ...lines].filter(Boolean).join('\n');
+}
+
+export class ConversationMemory {
+  private turns: MemoryTurn[] = [];
+  private summary = '';
+  private concepts: string[] = [];
+  private summarize?: Summarizer;
+  private describeCanvas?: () => string[];
+  private isCompacting = false;
+
+  constructor(options: ConversationMemoryOptions = {}) {
+    this.summarize = options.summarize;
+    this.describeCanvas = options.describeCanvas;
+  }
+
+  addExchange(question: string, answer: string) {
+    this.turns.push({ role: 'user', content: question }, { role: 'assistant', content: answer });
+    void this.compact();
+  }
+
+  // Topic names and task steps the student has been taught
+  recordConcepts(concepts: (string | undefined)[]) {
+    for (const raw of concepts) {
+      const concept = raw?.replace(/^Step \d+:\s*/i, '').trim();
+      if (!concept) continue;
+      if (!this.concepts.some(c => c.toLowerCase() === concept.toLowerCase())) {
+        this.concepts.push(concept);
+      }
+    }
+    this.concepts = this.concepts.slice(-MAX_CONCEPTS);
+  }
+
+  getConcepts(): string[] {
+    return [...this.concepts];
+  }
+
+  getSummary(): string {
+    return this.summary;
+  }
+
+  getTurns(): MemoryTurn[] {
+    return [...this.turns];
+  }
+
+  reset() {
+    this.turns = [];
+    this.summary = '';
+    this.concepts = [];
+  }
+
+  // Fit memory into the budget. Priority: the latest exchange, then summary, covered concepts,
+  // canvas contents, and finally as many older verbatim turns as still fit.
+  buildPromptContext(tokenBudget = DEFAULT_TOKEN_BUDGET, includeCanvas = true): PromptContext {
+    let remaining = tokenBudget;
+    const take = (text: string, cap = remaining) => {
+      const fitted = truncateToTokens(text, Math.min(cap, remaining));
+      remaining -= estimateTokens(fitted);
+      return fitted;
+    };
+
+    // Latest exchange always goes in (each turn capped so one long answer cannot eat the budget)
+    const latest = this.turns.slice(-2).map(turn => ({ ...turn, content: take(turn.content, tokenBudget / 4) }));
+
+    const sections: string[] = [];
+    if (this.summary && remaining > 0) {
+      sections.push(`Summary of the earlier conversation:\n${take(this.summary, tokenBudget / 4)}`);
+    }
+    if (this.concepts.length > 0 && remaining > 0) {
+      sections.push(`Concepts already covered (build on them, do not re-explain from scratch): ${take(this.concepts.join('; '), tokenBudget / 8)}`);
+    }
+    const canvasItems = includeCanvas ? (this.describeCanvas?.() || []).slice(-MAX_CANVAS_ITEMS) : [];
+    if (canvasItems.length > 0 && remaining > 0) {
+      sections.push(`Currently drawn on the canvas (reuse or extend it, avoid overlapping it; refer to [id] shapes by their id):\n${take(canvasItems.join('\n'), tokenBudget / 4)}`);
+    }
+
+    // Older verbatim turns, newest first, while they fit whole
+    const older: ChatMessage[] = [];
+    for (let i = this.turns.length - 3; i >= 0; i--) {
+      const cost = estimateTokens(this.turns[i].content);
+      if (cost > remaining) break;
+      remaining -= cost;
+      older.unshift({ ...this.turns[i] });
+    }
+
+    return {
+      memoryMessage: sections.length > 0 ? `CONVERSATION MEMORY:\n${sections.join('\n\n')}` : '',
+      recentTurns: [...older, ...latest]
+    };
+  }
+
+  // Fold the oldest turns into the summary once there are too many to keep verbatim
+  private async compact() {
+    if (this.isCompacting || this.turns.length <= MAX_VERBATIM_TURNS) return;
+    this.isCompacting = true;
+
+    const overflow = this.turns.slice(0, this.turns.length - MAX_VERBATIM_TURNS);
+    let summary: string;
+    try {
+      summary = this.summarize
+        ? await this.summarize(this.summary, overflow)
+        : extractiveSummary(this.summary, overflow);
+    } catch (error) {
+      console.warn('Conversation summary failed, using extractive fallback:', error);
+      summary = extractiveSummary(this.summary, overflow);
+    }
+
+    // Turns are only ever appended, so the folded ones are still at the front.
+    // A reset() while we were summarizing leaves nothing to fold.
+    if (this.turns[0] === overflow[0]) {
+      this.turns = this.turns.slice(overflow.length);
+      this.summary = summary;
+    }
+    this.isCompacting = false;
+  }
+}
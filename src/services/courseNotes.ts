@@ -0,0 +1,348 @@
+// Course notes - a teacher's PDFs, Markdown and text files, chunked and indexed in this browser only
+// (IndexedDB, no outside service). Retrieval is BM25 over the chunks; the best passages ground canvas
+// and diagram answers and come back as citations under the assistant message.
+
+import type { Citation } from '../types';
+
+export type NoteKind = 'pdf' | 'markdown' | 'text';
+
+export interface NoteDocument {
+  id: string;
+  name: string;
+  kind: NoteKind;
+  addedAt: number;
+  chunkCount: number;
+  characters: number;
+}
+
+interface NoteChunk {
+  // `${docId}:${index}`
+  id: string;
+  docId: string;
+  index: number;
+  text: string;
+  // "page 3", the Markdown heading it sits under, or ''
+  location: string;
+}
+
+// A stretch of a document before chunking
+interface NoteSection {
+  location: string;
+  text: string;
+}
+
+export const NOTE_FILE_ACCEPT = '.pdf,.md,.markdown,.txt,application/pdf,text/markdown,text/plain';
+
+const DB_NAME = 'aitutor-notes';
+const DOCUMENTS_STORE = 'documents';
+const CHUNKS_STORE = 'chunks';
+const MAX_FILE_BYTES = 15_000_000;
+// About a paragraph or two - small enough that a few passages fit the prompt
+const CHUNK_CHARS = 900;
+const MAX_PASSAGES = 4;
+// Below this a match is a handful of common words, not a relevant passage
+const MIN_SCORE = 1;
+
+// BM25 parameters (the usual defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// English plus the tutoring languages' most common words
+const STOPWORDS = new Set(`a an and are as at be by for from has have how i in is it its of on or that the
+this to was what when where which who why will with you your can do does explain me tell about
+el la los las de del y en que es un una por para con se como le les des du et est une pour dans qui`.split(/\s+/));
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '').match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    // Crude plural folding: "forces" matches "force"
+    .map(word => word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+}
+
+// ============ EXTRACTION AND CHUNKING ============
+
+function kindOf(file: File): NoteKind | null {
+  const name = file.name.toLowerCase();
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (name.endsWith('.md') || name.endsWith('.markdown') || file.type === 'text/markdown') return 'markdown';
+  if (name.endsWith('.txt') || file.type === 'text/plain') return 'text';
+  return null;
+}
+
+// pdf.js is large, so it is only loaded once someone uploads a PDF
+async function readPdf(file: File): Promise<NoteSection[]> {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const sections: NoteSection[] = [];
+  for (let page = 1; page <= pdf.numPages; page++) {
+    const content = await (await pdf.getPage(page)).getTextContent();
+    const text = content.items
+      .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')
+      .join('');
+    sections.push({ location: `page ${page}`, text });
+  }
+  await pdf.destroy();
+  return sections;
+}
+
+// One section per heading, so a citation can say where in the notes it came from
+function splitMarkdown(markdown: string): NoteSection[] {
+  const sections: NoteSection[] = [];
+  let current: NoteSection = { location: '', text: '' };
+  for (const line of markdown.split('\n')) {
+    const heading = /^#{1,6}\s+(.+?)\s*#*$/.exec(line);
+    if (heading) {
+      sections.push(current);
+      current = { location: heading[1], text: '' };
+    } else {
+      current.text += line + '\n';
+    }
+  }
+  sections.push(current);
+  return sections;
+}
+
+function splitLongParagraph(paragraph: string): string[] {
+  if (paragraph.length <= CHUNK_CHARS) return [paragraph];
+  const pieces: string[] = [];
+  let piece = '';
+  for (const sentence of paragraph.match(/[^.!?]+[.!?]*\s*/g) || [paragraph]) {
+    if (piece && piece.length + sentence.length > CHUNK_CHARS) {
+      pieces.push(piece.trim());
+      piece = '';
+    }
+    piece += sentence;
+  }
+  if (piece.trim()) pieces.push(piece.trim());
+  return pieces;
+}
+
+// Paragraphs are packed into chunks of about CHUNK_CHARS, never across sections
+function chunkSections(docId: string, sections: NoteSection[]): NoteChunk[] {
+  const chunks: NoteChunk[] = [];
+  const push = (text: string, location: string) => {
+    const index = chunks.length;
+    chunks.push({ id: `${docId}:${index}`, docId, index, text, location });
+  };
+
+  for (const section of sections) {
+    const paragraphs = section.text
+      .split(/\n\s*\n/)
+      .map(p => p.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .flatMap(splitLongParagraph);
+
+    let chunk = '';
+    for (const paragraph of paragraphs) {
+      if (chunk && chunk.length + paragraph.length > CHUNK_CHARS) {
+        push(chunk, section.location);
+        chunk = '';
+      }
+      chunk = chunk ? `${chunk}\n\n${paragraph}` : paragraph;
+    }
+    if (chunk) push(chunk, section.location);
+  }
+  return chunks;
+}
+
+// ============ BM25 ============
+
+interface IndexedChunk {
+  chunk: NoteChunk;
+  termCounts: Map<string, number>;
+  length: number;
+}
+
+class Bm25Index {
+  private entries: IndexedChunk[] = [];
+  private documentFrequency = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(chunks: NoteChunk[]) {
+    for (const chunk of chunks) {
+      // The heading counts too - "Photosynthesis" may only appear above the paragraph
+      const terms = tokenize(`${chunk.location} ${chunk.text}`);
+      const termCounts = new Map<string, number>();
+      terms.forEach(term => termCounts.set(term, (termCounts.get(term) || 0) + 1));
+      termCounts.forEach((_, term) => this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1));
+      this.entries.push({ chunk, termCounts, length: terms.length });
+    }
+    this.averageLength = this.entries.reduce((sum, entry) => sum + entry.length, 0) / (this.entries.length || 1);
+  }
+
+  search(query: string, limit: number): { chunk: NoteChunk; score: number }[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+    const total = this.entries.length;
+
+    return this.entries
+      .map(({ chunk, termCounts, length }) => {
+        let score = 0;
+        for (const term of terms) {
+          const frequency = termCounts.get(term);
+          if (!frequency) continue;
+          const df = this.documentFrequency.get(term) || 0;
+          const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+          score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / this.averageLength));
+        }
+        return { chunk, score };
+      })
+      .filter(result => result.score >= MIN_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+// ============ STORAGE ============
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+        request.result.createObjectStore(CHUNKS_STORE, { keyPath: 'id' }).createIndex('docId', 'docId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+// Resolves once the whole transaction has committed
+async function transact(mode: IDBTransactionMode, run: (tx: IDBTransaction) => void): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([DOCUMENTS_STORE, CHUNKS_STORE], mode);
+    run(tx);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// ============ LIBRARY ============
+
+class CourseNotesLibrary {
+  private documents: NoteDocument[] = [];
+  private chunks: NoteChunk[] = [];
+  private index = new Bm25Index([]);
+  private loading: Promise<void> | null = null;
+  private listeners = new Set<() => void>();
+
+  getDocuments(): NoteDocument[] {
+    return this.documents;
+  }
+
+  async addFile(file: File): Promise<NoteDocument> {
+    await this.load();
+    const kind = kindOf(file);
+    if (!kind) throw new Error(`${file.name}: only PDF, Markdown and text notes are supported`);
+    if (file.size > MAX_FILE_BYTES) throw new Error(`${file.name} is too large (max 15 MB)`);
+
+    const sections = kind === 'pdf' ? await readPdf(file)
+      : kind === 'markdown' ? splitMarkdown(await file.text())
+        : [{ location: '', text: await file.text() }];
+    const id = crypto.randomUUID().slice(0, 8);
+    const chunks = chunkSections(id, sections);
+    if (chunks.length === 0) {
+      throw new Error(`${file.name} has no readable text${kind === 'pdf' ? ' (scanned PDFs are not supported)' : ''}`);
+    }
+
+    const document: NoteDocument = {
+      id,
+      name: file.name,
+      kind,
+      addedAt: Date.now(),
+      chunkCount: chunks.length,
+      characters: chunks.reduce((sum, chunk) => sum + chunk.text.length, 0)
+    };
+    await transact('readwrite', tx => {
+      tx.objectStore(DOCUMENTS_STORE).put(document);
+      chunks.forEach(chunk => tx.objectStore(CHUNKS_STORE).put(chunk));
+    });
+
+    this.documents = [...this.documents, document];
+    this.chunks = [...this.chunks, ...chunks];
+    this.changed();
+    return document;
+  }
+
+  async remove(docId: string): Promise<void> {
+    await this.load();
+    const chunkIds = this.chunks.filter(chunk => chunk.docId === docId).map(chunk => chunk.id);
+    await transact('readwrite', tx => {
+      tx.objectStore(DOCUMENTS_STORE).delete(docId);
+      chunkIds.forEach(id => tx.objectStore(CHUNKS_STORE).delete(id));
+    });
+
+    this.documents = this.documents.filter(document => document.id !== docId);
+    this.chunks = this.chunks.filter(chunk => chunk.docId !== docId);
+    this.changed();
+  }
+
+  // Best passages for a question, numbered [1], [2]... as they will be cited
+  async search(query: string, limit = MAX_PASSAGES): Promise<Citation[]> {
+    await this.load();
+    if (this.chunks.length === 0) return [];
+
+    const names = new Map(this.documents.map(document => [document.id, document.name]));
+    return this.index.search(query, limit).map(({ chunk }, i) => ({
+      index: i + 1,
+      source: names.get(chunk.docId) || 'Notes',
+      location: chunk.location,
+      text: chunk.text
+    }));
+  }
+
+  // Changes whenever notes are added or removed - part of the response cache key
+  signature(): string {
+    return this.documents.map(document => document.id).sort().join(',');
+  }
+
+  // Returns the unsubscribe function
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Notes are read from IndexedDB once, on first use
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = Promise.all([this.readAll<NoteDocument>(DOCUMENTS_STORE), this.readAll<NoteChunk>(CHUNKS_STORE)])
+        .then(([documents, chunks]) => {
+          this.documents = documents.sort((a, b) => a.addedAt - b.addedAt);
+          this.chunks = chunks;
+          this.changed();
+        })
+        .catch(error => console.warn('Could not load course notes:', error));
+    }
+    return this.loading;
+  }
+
+  private async readAll<T>(storeName: string): Promise<T[]> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+      request.onsuccess = () => resolve(request.result as T[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private changed() {
+    this.index = new Bm25Index(this.chunks);
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const courseNotes = new CourseNotesLibrary();
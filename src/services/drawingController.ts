@@ -1,12 +1,77 @@
-import { Editor, createShapeId } from 'tldraw';
-import type { TLShapeId, TLDefaultColorStyle } from 'tldraw';
+import { AssetRecordType, Editor, FONT_SIZES, b64Vecs, createShapeId } from 'tldraw';
+import type {
+  Box,
+  TLArrowBinding,
+  TLDefaultColorStyle,
+  TLDefaultDashStyle,
+  TLDefaultFillStyle,
+  TLDefaultSizeStyle,
+  TLGeoShapeGeoStyle,
+  TLDrawShape,
+  TLShapeId,
+  TLShapePartial,
+  VecModel,
+} from 'tldraw';
 import type { DrawCommand } from '../types';
+import { PLACEMENTS } from './responseSchema';
+import type { PaletteColor } from './responseSchema';
+import { DEFAULT_FORMULA_FONT_SIZE, measureFormula, normalizeLatex } from './formulaRenderer';
+import { axisOrigin, formatTick, graphFrame, plotRuns, tickValues, toCanvas } from './plotGeometry';
+import type { Point } from './plotGeometry';
+import { CONNECTOR_TYPES, layoutCommands, placeNextTo } from './canvasLayout';
+import type { LayoutMove } from './canvasLayout';
+
+// Formulas fade in over this long once typeset
+const FORMULA_FADE_MS = 400;
+
+// Freehand strokes are drawn progressively, like a teacher's pen, over this long by default
+const FREEHAND_DURATION_MS = 1200;
+const MAX_FREEHAND_DURATION_MS = 5000;
+// How often a stroke being drawn grows
+const STROKE_FRAME_MS = 30;
+// Corner-cutting passes when smoothing; each one doubles the points
+const SMOOTHING_PASSES = 3;
+
+// Default sizes for the shapes placed by their top-left corner
+const DEFAULT_GEO_SIZE: Partial<Record<TLGeoShapeGeoStyle, { w: number; h: number }>> = {
+  cloud: { w: 160, h: 100 },
+};
+const DEFAULT_ICON_SIZE = 64;
+const DEFAULT_IMAGE_SIZE = { w: 200, h: 150 };
+const DEFAULT_BEND = 40;
+// Plots are longer than most strokes, so they take a little longer to draw
+const PLOT_DURATION_MS = 2000;
+// Axes: tick mark length, and size 's' tick label metrics, roughly
+const TICK_LENGTH = 6;
+const TICK_CHAR_WIDTH = 9;
+const TICK_LINE_HEIGHT = 24;
+// How far a bracket's ends and middle point stick out from the span it covers
+const BRACKET_DEPTH = 14;
+
+const POLYGON_GEO: Record<number, TLGeoShapeGeoStyle> = {
+  3: 'triangle',
+  4: 'diamond',
+  5: 'pentagon',
+  6: 'hexagon',
+  8: 'octagon',
+};
+
+// Commands drawn progressively over props.duration, like a pen stroke
+export const ANIMATED_TYPES: DrawCommand['type'][] = ['freehand', 'bracket', 'plot'];
+
+// An area of the canvas in page coordinates
+export interface Region {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
 
 // Valid tldraw color values
 type TLColor = TLDefaultColorStyle;
 
-// Maps color names to tldraw color values
-const colorMap: Record<string, TLColor> = {
+// Maps palette color names to tldraw color values
+const colorMap: Record<PaletteColor, TLColor> = {
   red: 'red',
   blue: 'blue',
   green: 'green',
@@ -18,12 +83,166 @@ const colorMap: Record<string, TLColor> = {
 };
 
 function getColor(color?: string): TLColor {
-  return colorMap[color || 'black'] || 'black';
+  return colorMap[(color || 'black') as PaletteColor] || 'black';
+}
+
+// Stroke and fill styles shared by every outlined shape
+function getStyle(command: DrawCommand, defaultFill: TLDefaultFillStyle = 'none') {
+  return {
+    color: getColor(command.props?.color),
+    fill: command.props?.fill || defaultFill,
+    dash: command.props?.dash || 'draw' as TLDefaultDashStyle,
+    size: command.props?.size || 'm' as TLDefaultSizeStyle,
+  };
+}
+
+// The tldraw size whose font is closest to the requested pixel size
+function getFontSize(command: DrawCommand): TLDefaultSizeStyle {
+  const fontSize = command.props?.fontSize;
+  if (!fontSize) return command.props?.size || 'm';
+  const sizes = Object.entries(FONT_SIZES) as [TLDefaultSizeStyle, number][];
+  return sizes.reduce((best, size) => Math.abs(size[1] - fontSize) < Math.abs(best[1] - fontSize) ? size : best)[0];
+}
+
+function richText(text: string) {
+  return { type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text }] }] };
+}
+
+// An emoji as a square SVG image, so icons scale like any other image
+function iconDataUrl(icon: string): string {
+  const escaped = icon.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="100" height="100" viewBox="0 0 100 100">` +
+    `<text x="50" y="54" font-size="80" text-anchor="middle" dominant-baseline="middle">${escaped}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+// Props of a draw shape showing these points as one freehand stroke
+function strokeProps(points: Point[], isComplete: boolean) {
+  const path = b64Vecs.encodePoints(points.map((p): VecModel => ({ x: p.x, y: p.y, z: 0.5 })));
+  return { segments: [{ type: 'free' as const, path }], isComplete };
+}
+
+// Chaikin corner cutting: rounds the corners between the given points, keeping both ends
+function smoothPoints(points: Point[]): Point[] {
+  let result = points;
+  for (let pass = 0; pass < SMOOTHING_PASSES && result.length > 2; pass++) {
+    const next = [result[0]];
+    for (let i = 0; i < result.length - 1; i++) {
+      const a = result[i];
+      const b = result[i + 1];
+      next.push({ x: a.x * 0.75 + b.x * 0.25, y: a.y * 0.75 + b.y * 0.25 });
+      next.push({ x: a.x * 0.25 + b.x * 0.75, y: a.y * 0.25 + b.y * 0.75 });
+    }
+    next.push(result[result.length - 1]);
+    result = next;
+  }
+  return result;
+}
+
+// A curly brace along start -> end, its middle pointing to the right of that direction (on
+// screen): drawn top to bottom it is a "{", drawn left to right it points down, under the span
+function bracketPoints(start: Point, end: Point): Point[] {
+  const length = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+  const along = { x: (end.x - start.x) / length, y: (end.y - start.y) / length };
+  const out = { x: -along.y, y: along.x };
+  const at = (distance: number, depth: number) => ({
+    x: start.x + along.x * distance + out.x * depth,
+    y: start.y + along.y * distance + out.y * depth,
+  });
+  const depth = Math.min(BRACKET_DEPTH, length / 4);
+  const middle = length / 2;
+  return [
+    at(0, -depth),
+    at(depth, 0),
+    at(middle - depth, 0),
+    at(middle, depth),
+    at(middle + depth, 0),
+    at(length - depth, 0),
+    at(length, -depth),
+  ];
+}
+
+// The first `length` pixels of a polyline, ending part way along a segment when it has to
+function strokePrefix(points: Point[], distances: number[], length: number): Point[] {
+  const prefix = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    if (distances[i] <= length) {
+      prefix.push(points[i]);
+      continue;
+    }
+    const segment = distances[i] - distances[i - 1];
+    const t = segment > 0 ? (length - distances[i - 1]) / segment : 0;
+    const a = points[i - 1];
+    prefix.push({ x: a.x + (points[i].x - a.x) * t, y: a.y + (points[i].y - a.y) * t });
+    break;
+  }
+  return prefix;
+}
+
+function describeCommand(command: DrawCommand): string {
+  const props = command.props || {};
+  const color = props.color ? ` ${props.color}` : '';
+
+  switch (command.type) {
+    case 'text':
+      return `text "${props.text || ''}" at (${command.x}, ${command.y})`;
+    case 'formula':
+      return `formula $${props.latex || ''}$ at (${command.x}, ${command.y})`;
+    case 'circle':
+      return `${color.trim() || 'black'} circle r${props.radius || 50} at (${command.x}, ${command.y})`;
+    case 'rectangle':
+      return `${color.trim() || 'black'} rectangle ${props.w || 100}x${props.h || 60} at (${command.x}, ${command.y})`;
+    case 'triangle':
+    case 'star':
+    case 'diamond':
+    case 'cloud':
+      return `${color.trim() || 'black'} ${command.type} ${props.w || 100}x${props.h || 100} at (${command.x}, ${command.y})`;
+    case 'polygon':
+      return `${color.trim() || 'black'} ${props.sides || 6}-sided polygon ${props.w || 100}x${props.h || 100} at (${command.x}, ${command.y})`;
+    case 'note':
+      return `${color.trim() || 'yellow'} sticky note "${props.text || ''}" at (${command.x}, ${command.y})`;
+    case 'image':
+      return props.icon
+        ? `icon ${props.icon} at (${command.x}, ${command.y})`
+        : `image ${props.w || DEFAULT_IMAGE_SIZE.w}x${props.h || DEFAULT_IMAGE_SIZE.h} at (${command.x}, ${command.y})`;
+    case 'axes': {
+      const [xMin, xMax] = props.xRange || [0, 10];
+      const [yMin, yMax] = props.yRange || [0, 10];
+      return `axes x ${xMin}..${xMax}, y ${yMin}..${yMax} in a ${props.w || 400}x${props.h || 300} box at (${command.x}, ${command.y})`;
+    }
+    case 'plot': {
+      const curve = props.expression ? `y = ${props.expression}` : `${props.data?.length || 0} data points`;
+      return `${color.trim() || 'black'} plot of ${curve} in a ${props.w || 400}x${props.h || 300} box at (${command.x}, ${command.y})`;
+    }
+    case 'arrow':
+    case 'line':
+    case 'curved-arrow':
+    case 'bracket': {
+      const from = props.from ? `[${props.from}]` : `(${props.start?.x}, ${props.start?.y})`;
+      const to = props.to ? `[${props.to}]` : `(${props.end?.x}, ${props.end?.y})`;
+      return `${command.type}${color} from ${from} to ${to}`;
+    }
+    case 'freehand': {
+      const points = props.points || [];
+      const first = points[0];
+      const last = points[points.length - 1];
+      return `${color.trim() || 'black'} freehand stroke through ${points.length} points from (${first?.x}, ${first?.y}) to (${last?.x}, ${last?.y})`;
+    }
+    default:
+      return `${command.type}${color} at (${command.x}, ${command.y})`;
+  }
 }
 
 export class DrawingController {
   private editor: Editor | null = null;
   private createdShapeIds: TLShapeId[] = [];
+  // What each AI-created shape was drawn from, for describing the canvas back to the model
+  private drawnCommands = new Map<TLShapeId, DrawCommand>();
+  // Shapes the layout pass moved, so arrows drawn against their old place follow them
+  private layoutMoves: LayoutMove[] = [];
+  // AI shapes by the id their command gave them. Kept across answers so follow-ups can refer back;
+  // a later shape with the same id takes it over.
+  private namedShapes = new Map<string, TLShapeId>();
 
   setEditor(editor: Editor) {
     this.editor = editor;
@@ -41,6 +260,9 @@ export class DrawingController {
       this.editor.deleteShapes(this.createdShapeIds);
       this.createdShapeIds = [];
     }
+    this.drawnCommands.clear();
+    this.layoutMoves = [];
+    this.namedShapes.clear();
   }
 
   // Clear entire canvas
@@ -50,23 +272,179 @@ export class DrawingController {
     const allShapeIds = this.editor.getCurrentPageShapeIds();
     this.editor.deleteShapes([...allShapeIds]);
     this.createdShapeIds = [];
+    this.drawnCommands.clear();
+    this.layoutMoves = [];
+    this.namedShapes.clear();
+  }
+
+  // One line per AI shape still on the canvas, e.g. '[mass] text "Mass" at (415, 180)'
+  describeCanvas(): string[] {
+    const editor = this.editor;
+    if (!editor) return [];
+
+    return [...this.drawnCommands.entries()]
+      .filter(([id]) => editor.getShape(id))
+      .map(([id, command]) => {
+        const name = command.id && this.namedShapes.get(command.id) === id ? `[${command.id}] ` : '';
+        return `${name}${describeCommand(command)}`;
+      });
   }
 
-  // Execute a sequence of draw commands with delays for animation effect
+  // Execute a sequence of draw commands with delays for animation effect. One at a time, so each
+  // command can be placed next to or connected to the ones before it.
   async executeDrawCommands(commands: DrawCommand[], delayBetween = 500): Promise<void> {
     if (!this.editor || !commands || commands.length === 0) return;
 
     for (const command of commands) {
-      await this.executeCommand(command);
+      await this.drawCommand(command);
       await this.delay(delayBetween);
     }
   }
 
+  // Draw one command and return the new shape's id, for callers that refer back to it
+  async drawCommand(command: DrawCommand): Promise<TLShapeId | null> {
+    const resolved = this.resolveReferences(command);
+    if (!resolved) return null;
+    const [laidOut] = this.layOut([resolved]);
+    return this.executeCommand(laidOut);
+  }
+
+  // The AI shape drawn with this id, while it is still on the canvas
+  getShapeId(name: string): TLShapeId | null {
+    const id = this.namedShapes.get(name);
+    return id && this.editor?.getShape(id) ? id : null;
+  }
+
+  // The command an AI shape was drawn from, after placement and layout
+  getDrawnCommand(id: TLShapeId): DrawCommand | null {
+    return this.drawnCommands.get(id) ?? null;
+  }
+
+  // Page bounds of a shape, or null once it is gone
+  getShapeBounds(id: TLShapeId): Box | null {
+    if (!this.editor?.getShape(id)) return null;
+    return this.editor.getShapePageBounds(id) ?? null;
+  }
+
+  // Dashed outline drawn around something to point at it. Cleared with the AI drawings, but not
+  // described back to the model - it is emphasis, not content.
+  drawHighlight(region: Region, color?: string): TLShapeId | null {
+    if (!this.editor) return null;
+
+    const id = createShapeId();
+    this.editor.createShape({
+      id,
+      type: 'geo',
+      x: region.x,
+      y: region.y,
+      props: {
+        geo: 'rectangle',
+        w: region.w,
+        h: region.h,
+        color: getColor(color || 'yellow'),
+        fill: 'none',
+        dash: 'dashed',
+        size: 'l',
+      },
+    });
+    this.createdShapeIds.push(id);
+    return id;
+  }
+
+  // The AI shapes on the canvas right now, e.g. to tell which ones a response added
+  getAIShapeIds(): TLShapeId[] {
+    return [...this.createdShapeIds];
+  }
+
+  // Erase these AI shapes and forget what they were drawn from
+  removeAIShapes(ids: TLShapeId[]) {
+    if (!this.editor || ids.length === 0) return;
+
+    this.editor.deleteShapes(ids);
+    this.createdShapeIds = this.createdShapeIds.filter(id => !ids.includes(id));
+    ids.forEach(id => this.drawnCommands.delete(id));
+    for (const [name, id] of this.namedShapes) {
+      if (ids.includes(id)) this.namedShapes.delete(name);
+    }
+  }
+
+  // Erase the AI shapes whose center lies inside the region - an arrow merely passing through stays
+  clearRegion(region: Region) {
+    const editor = this.editor;
+    if (!editor) return;
+
+    const inside = this.createdShapeIds.filter(id => {
+      const center = editor.getShapePageBounds(id)?.center;
+      return !!center &&
+        center.x >= region.x && center.x <= region.x + region.w &&
+        center.y >= region.y && center.y <= region.y + region.h;
+    });
+    this.removeAIShapes(inside);
+  }
+
+  // Ids to coordinates: a placement becomes x/y, and from/to become start/end at the centers of
+  // those shapes (the arrow is bound to them once drawn). Null, with a warning, for unknown ids.
+  private resolveReferences(command: DrawCommand): DrawCommand | null {
+    const props = command.props || {};
+    const bounds = (name: string) => {
+      const id = this.getShapeId(name);
+      const box = id && this.getShapeBounds(id);
+      if (!box) console.warn(`Skipping ${command.type} command: no shape with id ${JSON.stringify(name)} on the canvas`);
+      return box || null;
+    };
+
+    let position = { x: command.x, y: command.y };
+    const placement = PLACEMENTS.find(key => props[key]);
+    if (placement) {
+      const target = bounds(props[placement] as string);
+      if (!target) return null;
+      position = placeNextTo(command, target, placement);
+    }
+
+    const ends: { start?: Point; end?: Point } = {};
+    for (const [end, name] of [['start', props.from], ['end', props.to]] as const) {
+      if (!name) continue;
+      // An explicit point is the fallback when the shape is gone
+      const target = props[end] && !this.getShapeId(name) ? null : bounds(name);
+      if (target) ends[end] = { x: Math.round(target.center.x), y: Math.round(target.center.y) };
+      else if (!props[end]) return null;
+    }
+
+    return { ...command, ...position, props: { ...props, ...ends } };
+  }
+
+  // Nudge the batch clear of what is already drawn and inside the canvas (see canvasLayout.ts)
+  private layOut(commands: DrawCommand[]): DrawCommand[] {
+    const { commands: laidOut, moves } = layoutCommands(commands, this.occupiedRegions(), this.layoutMoves);
+    this.layoutMoves.push(...moves);
+    return laidOut;
+  }
+
+  // Areas new shapes keep clear of: every top-level shape except arrows, strokes, plots and highlights
+  private occupiedRegions(): Region[] {
+    const editor = this.editor;
+    if (!editor) return [];
+
+    return editor.getSortedChildIdsForParent(editor.getCurrentPageId())
+      .filter(id => {
+        const shape = editor.getShape(id);
+        if (!shape || ['arrow', 'draw', 'line', 'highlight'].includes(shape.type)) return false;
+        const command = this.drawnCommands.get(id);
+        // AI shapes drawn without a command are highlights
+        return command ? !CONNECTOR_TYPES.includes(command.type) : !this.createdShapeIds.includes(id);
+      })
+      .map(id => editor.getShapePageBounds(id))
+      .filter((bounds): bounds is Box => !!bounds)
+      .map(bounds => ({ x: bounds.x, y: bounds.y, w: bounds.w, h: bounds.h }));
+  }
+
   // Execute a single draw command
   private async executeCommand(command: DrawCommand): Promise<TLShapeId | null> {
     if (!this.editor) return null;
 
     const shapeId = createShapeId();
+    // Strokes keep drawing after their shape exists
+    let animation: Promise<void> | null = null;
     
     try {
       switch (command.type) {
@@ -85,12 +463,48 @@ export class DrawingController {
         case 'line':
           this.drawLine(shapeId, command);
           break;
+        case 'formula':
+          this.drawFormula(shapeId, command);
+          break;
+        case 'freehand':
+          animation = this.drawFreehand(shapeId, command);
+          break;
+        case 'triangle':
+        case 'star':
+        case 'diamond':
+        case 'cloud':
+          this.drawGeo(shapeId, command, command.type);
+          break;
+        case 'polygon':
+          this.drawGeo(shapeId, command, POLYGON_GEO[command.props?.sides || 6] || 'hexagon');
+          break;
+        case 'curved-arrow':
+          this.drawArrow(shapeId, command, command.props?.bend ?? DEFAULT_BEND);
+          break;
+        case 'bracket':
+          animation = this.drawBracket(shapeId, command);
+          break;
+        case 'note':
+          this.drawNote(shapeId, command);
+          break;
+        case 'image':
+          this.drawImage(shapeId, command);
+          break;
+        case 'axes':
+          this.drawAxes(shapeId, command);
+          break;
+        case 'plot':
+          animation = this.drawPlot(shapeId, command);
+          break;
         default:
           console.warn(`Unknown draw command type: ${command.type}`);
           return null;
       }
 
       this.createdShapeIds.push(shapeId);
+      this.drawnCommands.set(shapeId, command);
+      if (command.id) this.namedShapes.set(command.id, shapeId);
+      await animation;
       return shapeId;
     } catch (error) {
       console.error('Error executing draw command:', error);
@@ -102,7 +516,6 @@ export class DrawingController {
     if (!this.editor) return;
 
     const radius = command.props?.radius || 50;
-    const color = command.props?.color || 'black';
 
     this.editor.createShape({
       id,
@@ -113,8 +526,7 @@ export class DrawingController {
         geo: 'ellipse',
         w: radius * 2,
         h: radius * 2,
-        color: getColor(color),
-        fill: 'solid',
+        ...getStyle(command, 'solid'),
       },
     });
   }
@@ -124,7 +536,6 @@ export class DrawingController {
 
     const width = command.props?.w || 100;
     const height = command.props?.h || 60;
-    const color = command.props?.color || 'black';
 
     this.editor.createShape({
       id,
@@ -135,18 +546,38 @@ export class DrawingController {
         geo: 'rectangle',
         w: width,
         h: height,
-        color: getColor(color),
-        fill: 'solid',
+        ...getStyle(command, 'solid'),
+      },
+    });
+  }
+
+  // Triangles, stars, diamonds, clouds and polygons: x/y is the top-left corner, like rectangles
+  private drawGeo(id: TLShapeId, command: DrawCommand, geo: TLGeoShapeGeoStyle) {
+    if (!this.editor) return;
+
+    const defaults = DEFAULT_GEO_SIZE[geo] || { w: 100, h: 100 };
+
+    this.editor.createShape({
+      id,
+      type: 'geo',
+      x: command.x,
+      y: command.y,
+      props: {
+        geo,
+        w: command.props?.w || defaults.w,
+        h: command.props?.h || defaults.h,
+        ...getStyle(command, 'solid'),
       },
     });
   }
 
-  private drawArrow(id: TLShapeId, command: DrawCommand) {
+  // A positive bend bows the arrow to the left of its direction
+  private drawArrow(id: TLShapeId, command: DrawCommand, bend = 0) {
     if (!this.editor) return;
 
     const start = command.props?.start || { x: command.x, y: command.y };
     const end = command.props?.end || { x: command.x + 100, y: command.y };
-    const color = command.props?.color || 'black';
+    const { color, dash, size } = getStyle(command);
 
     this.editor.createShape({
       id,
@@ -154,12 +585,35 @@ export class DrawingController {
       x: 0,
       y: 0,
       props: {
-        color: getColor(color),
+        color,
+        dash,
+        size,
         start: { x: start.x, y: start.y },
         end: { x: end.x, y: end.y },
+        bend,
         arrowheadEnd: 'arrow',
       },
     });
+    this.bindArrow(id, command);
+  }
+
+  // Attach the ends named by from/to to their shapes, so the arrow stays on them when they move
+  private bindArrow(id: TLShapeId, command: DrawCommand) {
+    const editor = this.editor;
+    if (!editor) return;
+
+    const bindings = ([['start', command.props?.from], ['end', command.props?.to]] as const).flatMap(([terminal, name]) => {
+      const target = name ? this.getShapeId(name) : null;
+      const shape = target && editor.getShape(target);
+      if (!target || !shape || !editor.canBindShapes({ fromShape: 'arrow', toShape: shape, binding: 'arrow' })) return [];
+      return [{
+        type: 'arrow' as const,
+        fromId: id,
+        toId: target,
+        props: { terminal, normalizedAnchor: { x: 0.5, y: 0.5 }, isExact: false, isPrecise: false, snap: 'none' as const },
+      }];
+    });
+    if (bindings.length > 0) editor.createBindings<TLArrowBinding>(bindings);
   }
 
   private drawText(id: TLShapeId, command: DrawCommand) {
@@ -174,19 +628,92 @@ export class DrawingController {
       x: command.x,
       y: command.y,
       props: {
-        richText: { type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text }] }] },
+        richText: richText(text),
         color: getColor(color),
-        size: 'm',
+        size: getFontSize(command),
       },
     });
   }
 
+  // A 200x200 sticky note; x/y is the top-left corner
+  private drawNote(id: TLShapeId, command: DrawCommand) {
+    if (!this.editor) return;
+
+    this.editor.createShape({
+      id,
+      type: 'note',
+      x: command.x,
+      y: command.y,
+      props: {
+        richText: richText(command.props?.text || ''),
+        color: getColor(command.props?.color || 'yellow'),
+        size: getFontSize(command),
+      },
+    });
+  }
+
+  // An embedded image, or an emoji icon; x/y is the top-left corner
+  private drawImage(id: TLShapeId, command: DrawCommand) {
+    if (!this.editor) return;
+
+    const icon = command.props?.icon;
+    const defaults = icon ? { w: DEFAULT_ICON_SIZE, h: DEFAULT_ICON_SIZE } : DEFAULT_IMAGE_SIZE;
+    const w = command.props?.w || defaults.w;
+    const h = command.props?.h || defaults.h;
+    const assetId = AssetRecordType.createId();
+
+    this.editor.createAssets([AssetRecordType.create({
+      id: assetId,
+      type: 'image',
+      props: {
+        name: icon || 'image',
+        src: icon ? iconDataUrl(icon) : command.props?.src || null,
+        w,
+        h,
+        mimeType: icon ? 'image/svg+xml' : null,
+        isAnimated: false,
+      },
+    })]);
+    this.editor.createShape({
+      id,
+      type: 'image',
+      x: command.x,
+      y: command.y,
+      props: { assetId, w, h },
+    });
+  }
+
+  // x/y is the top-left corner, like text
+  private drawFormula(id: TLShapeId, command: DrawCommand) {
+    if (!this.editor) return;
+
+    const latex = normalizeLatex(command.props?.latex || '');
+    const fontSize = command.props?.fontSize || DEFAULT_FORMULA_FONT_SIZE;
+    const { w, h } = measureFormula(latex, fontSize);
+
+    this.editor.createShape({
+      id,
+      type: 'formula',
+      x: command.x,
+      y: command.y,
+      opacity: 0,
+      props: {
+        w,
+        h,
+        latex,
+        color: getColor(command.props?.color),
+        fontSize,
+      },
+    });
+    this.editor.animateShape({ id, type: 'formula', opacity: 1 }, { animation: { duration: FORMULA_FADE_MS } });
+  }
+
   private drawLine(id: TLShapeId, command: DrawCommand) {
     if (!this.editor) return;
 
     const start = command.props?.start || { x: command.x, y: command.y };
     const end = command.props?.end || { x: command.x + 100, y: command.y };
-    const color = command.props?.color || 'black';
+    const { color, dash, size } = getStyle(command);
 
     // Use arrow without arrowhead for simple lines
     this.editor.createShape({
@@ -195,13 +722,184 @@ export class DrawingController {
       x: 0,
       y: 0,
       props: {
-        color: getColor(color),
+        color,
+        dash,
+        size,
         start: { x: start.x, y: start.y },
         end: { x: end.x, y: end.y },
         arrowheadStart: 'none',
         arrowheadEnd: 'none',
       },
     });
+    this.bindArrow(id, command);
+  }
+
+  // Axis arrows, tick marks and labels, optional gridlines and axis titles, as one group. The axes
+  // cross at 0 when it is in range, otherwise at the bottom-left of the box.
+  private drawAxes(id: TLShapeId, command: DrawCommand) {
+    const editor = this.editor;
+    if (!editor) return;
+
+    const props = command.props || {};
+    const frame = graphFrame(command);
+    const origin = axisOrigin(frame);
+    const corner = toCanvas(frame, origin);
+    const [xMin, xMax] = frame.xRange;
+    const [yMin, yMax] = frame.yRange;
+    const xTicks = tickValues(frame.xRange, props.xStep);
+    const yTicks = tickValues(frame.yRange, props.yStep).filter(value => value !== origin.y);
+    const color = getColor(props.color);
+    const ids: TLShapeId[] = [];
+
+    const line = (start: Point, end: Point, style: { dash?: TLDefaultDashStyle; color?: TLColor; arrowhead?: boolean } = {}) => {
+      const lineId = createShapeId();
+      editor.createShape({
+        id: lineId,
+        type: 'arrow',
+        x: 0,
+        y: 0,
+        props: {
+          color: style.color || color,
+          dash: style.dash || 'solid',
+          size: 's',
+          start,
+          end,
+          arrowheadStart: 'none',
+          arrowheadEnd: style.arrowhead ? 'arrow' : 'none',
+        },
+      });
+      ids.push(lineId);
+    };
+    const label = (text: string, at: Point) => {
+      const labelId = createShapeId();
+      editor.createShape({ id: labelId, type: 'text', x: at.x, y: at.y, props: { richText: richText(text), color, size: 's' } });
+      ids.push(labelId);
+    };
+
+    editor.run(() => {
+      if (props.grid) {
+        const grid = { dash: 'dotted' as const, color: 'grey' as const };
+        xTicks.forEach(value => line(toCanvas(frame, { x: value, y: yMin }), toCanvas(frame, { x: value, y: yMax }), grid));
+        yTicks.forEach(value => line(toCanvas(frame, { x: xMin, y: value }), toCanvas(frame, { x: xMax, y: value }), grid));
+      }
+
+      line(toCanvas(frame, { x: xMin, y: origin.y }), toCanvas(frame, { x: xMax, y: origin.y }), { arrowhead: true });
+      line(toCanvas(frame, { x: origin.x, y: yMin }), toCanvas(frame, { x: origin.x, y: yMax }), { arrowhead: true });
+
+      xTicks.forEach(value => {
+        const at = toCanvas(frame, { x: value, y: origin.y });
+        if (value !== origin.x) line({ x: at.x, y: at.y - TICK_LENGTH / 2 }, { x: at.x, y: at.y + TICK_LENGTH / 2 });
+        const text = formatTick(value);
+        label(text, { x: at.x - text.length * TICK_CHAR_WIDTH / 2, y: at.y + TICK_LENGTH });
+      });
+      yTicks.forEach(value => {
+        const at = toCanvas(frame, { x: origin.x, y: value });
+        line({ x: at.x - TICK_LENGTH / 2, y: at.y }, { x: at.x + TICK_LENGTH / 2, y: at.y });
+        const text = formatTick(value);
+        label(text, { x: at.x - TICK_LENGTH - text.length * TICK_CHAR_WIDTH - 6, y: at.y - TICK_LINE_HEIGHT / 2 });
+      });
+
+      if (props.xLabel) {
+        label(props.xLabel, { x: frame.x + frame.w - props.xLabel.length * TICK_CHAR_WIDTH, y: corner.y + TICK_LINE_HEIGHT + TICK_LENGTH });
+      }
+      if (props.yLabel) {
+        label(props.yLabel, { x: corner.x - props.yLabel.length * TICK_CHAR_WIDTH / 2, y: frame.y - TICK_LINE_HEIGHT - TICK_LENGTH });
+      }
+
+      editor.groupShapes(ids, { groupId: id, select: false });
+    });
+  }
+
+  // The curve is drawn like a pen stroke; pieces cut off by the y range become separate strokes,
+  // grouped and drawn one after another
+  private drawPlot(id: TLShapeId, command: DrawCommand): Promise<void> {
+    const editor = this.editor;
+    if (!editor) return Promise.resolve();
+
+    const runs = plotRuns(command, graphFrame(command)).map(run =>
+      command.props?.data && command.props.smooth ? smoothPoints(run) : run
+    );
+    if (runs.length === 0) throw new Error('Plot has no points inside its y range');
+
+    const ids = runs.length === 1 ? [id] : runs.map(() => createShapeId());
+    const animation = this.drawStrokes(ids, command, runs, PLOT_DURATION_MS);
+    if (runs.length > 1) editor.groupShapes(ids, { groupId: id, select: false });
+    return animation;
+  }
+
+  // Points are in page coordinates, rounded into a curve unless props.smooth is false
+  private drawFreehand(id: TLShapeId, command: DrawCommand): Promise<void> {
+    const raw = command.props?.points || [];
+    return this.drawStrokes([id], command, [command.props?.smooth === false ? raw : smoothPoints(raw)]);
+  }
+
+  // Drawn like a freehand stroke, so it appears the way a teacher would sketch it
+  private drawBracket(id: TLShapeId, command: DrawCommand): Promise<void> {
+    const start = command.props?.start || { x: command.x, y: command.y };
+    const end = command.props?.end || { x: command.x, y: command.y + 100 };
+    return this.drawStrokes([id], command, [smoothPoints(bracketPoints(start, end))]);
+  }
+
+  // tldraw draw shapes whose strokes grow along their points one after another, over
+  // props.duration in total. Each shape sits at its points' top-left and stores them relative to it.
+  private drawStrokes(ids: TLShapeId[], command: DrawCommand, strokes: Point[][], defaultDuration = FREEHAND_DURATION_MS): Promise<void> {
+    const editor = this.editor;
+    if (!editor) return Promise.resolve();
+
+    let offset = 0;
+    const shapes = strokes.map((points, i) => {
+      const origin = { x: Math.min(...points.map(p => p.x)), y: Math.min(...points.map(p => p.y)) };
+      const local = points.map(p => ({ x: p.x - origin.x, y: p.y - origin.y }));
+      const distances = [0];
+      for (let j = 1; j < local.length; j++) {
+        distances.push(distances[j - 1] + Math.hypot(local[j].x - local[j - 1].x, local[j].y - local[j - 1].y));
+      }
+      const stroke = { id: ids[i], origin, local, distances, offset, length: distances[distances.length - 1] };
+      offset += stroke.length;
+      return stroke;
+    });
+
+    // Strokes still waiting their turn are hidden
+    shapes.forEach((stroke, i) => editor.createShape({
+      id: stroke.id,
+      type: 'draw',
+      x: stroke.origin.x,
+      y: stroke.origin.y,
+      opacity: i === 0 ? 1 : 0,
+      props: {
+        ...strokeProps(stroke.local.slice(0, 1), false),
+        ...getStyle(command),
+      },
+    }));
+
+    const total = offset;
+    const duration = Math.min(command.props?.duration ?? defaultDuration, MAX_FREEHAND_DURATION_MS);
+    return this.animateStrokes(duration, progress => {
+      const drawn = total * progress;
+      return shapes
+        .filter(stroke => stroke.offset <= drawn)
+        .map(stroke => {
+          const done = progress >= 1 || drawn >= stroke.offset + stroke.length;
+          const visible = done ? stroke.local : strokePrefix(stroke.local, stroke.distances, drawn - stroke.offset);
+          return { id: stroke.id, type: 'draw' as const, opacity: 1, props: strokeProps(visible, done) };
+        });
+    });
+  }
+
+  // Grows draw shapes frame by frame; stops early if they are erased meanwhile
+  private async animateStrokes(
+    duration: number,
+    updatesAt: (progress: number) => TLShapePartial<TLDrawShape>[]
+  ): Promise<void> {
+    const startedAt = Date.now();
+    for (;;) {
+      const progress = duration > 0 ? Math.min((Date.now() - startedAt) / duration, 1) : 1;
+      const updates = updatesAt(progress).filter(update => this.editor?.getShape(update.id));
+      if (!this.editor || updates.length === 0) return;
+      this.editor.updateShapes(updates);
+      if (progress >= 1) return;
+      await this.delay(STROKE_FRAME_MS);
+    }
   }
 
   private delay(ms: number): Promise<void> {
@@ -0,0 +1,399 @@
+// Tool-calling drawing protocol - instead of one JSON object with absolute draw commands, the model
+// calls drawing tools between narration. Shapes get model-chosen ids ("sun", "earth") so later
+// calls - in this answer or a follow-up - can connect, label and highlight them without repeating
+// coordinates.
+
+import type { TLShapeId } from 'tldraw';
+import type { DrawCommand, ToolCall, ToolDefinition } from '../types';
+import {
+  DASH_STYLES,
+  DRAW_COMMAND_TYPES,
+  FILL_STYLES,
+  PALETTE_COLORS,
+  POINT_BASED_TYPES,
+  POLYGON_SIDES,
+  STROKE_SIZES,
+  formatSchemaIssues,
+  validateDrawCommand
+} from './responseSchema';
+import type { Placement } from './responseSchema';
+import type { DrawingController, Region } from './drawingController';
+
+// Shapes placed by x/y; arrows and lines are drawn with `connect`, freehand strokes with `sketch`,
+// graphs with `axes` and `plot`. Brackets are JSON-protocol only.
+const GRAPH_TYPES: string[] = ['axes', 'plot'];
+const SHAPE_TYPES = DRAW_COMMAND_TYPES.filter(type => !POINT_BASED_TYPES.includes(type) && !GRAPH_TYPES.includes(type));
+const LABEL_POSITIONS = ['below', 'above', 'left', 'right', 'inside'] as const;
+
+type LabelPosition = typeof LABEL_POSITIONS[number];
+
+// Labels around a shape are placed next to it like any shape; 'inside' is centered on it instead
+const LABEL_PLACEMENTS: Record<Exclude<LabelPosition, 'inside'>, Placement> = {
+  below: 'below',
+  above: 'above',
+  left: 'leftOf',
+  right: 'rightOf'
+};
+
+// Room left between a shape and the label or highlight attached to it
+const GAP = 8;
+// Size 'm' text, roughly
+const CHAR_WIDTH = 10;
+const LINE_HEIGHT = 28;
+
+const color = { type: 'string', enum: PALETTE_COLORS };
+const dash = { type: 'string', enum: DASH_STYLES, description: 'default draw (hand-drawn)' };
+const size = { type: 'string', enum: STROKE_SIZES, description: 'stroke width, default m' };
+const shapeRef = (description: string) => ({ type: 'string', description });
+const range = (description: string) => ({ type: 'array', items: { type: 'number' }, minItems: 2, maxItems: 2, description });
+
+export const DRAWING_TOOLS: ToolDefinition[] = [
+  {
+    name: 'start_lesson',
+    description: 'Call first, once: what this answer is about and the steps it will walk through.',
+    parameters: {
+      type: 'object',
+      properties: {
+        topic: { type: 'string' },
+        isNewTopic: { type: 'boolean', description: 'true for a new subject, false for a follow-up' },
+        steps: { type: 'array', items: { type: 'string' }, description: 'e.g. ["Step 1: ...", "Step 2: ..."]' }
+      },
+      required: ['topic', 'isNewTopic', 'steps']
+    }
+  },
+  {
+    name: 'narrate',
+    description: 'Say one or two plain-text sentences aloud. Drawing calls after it appear while it is spoken.',
+    parameters: {
+      type: 'object',
+      properties: { text: { type: 'string' } },
+      required: ['text']
+    }
+  },
+  {
+    name: 'draw_shape',
+    description: 'Draw a shape on the 800x600 canvas, at x/y or next to a shape drawn earlier (below, above, leftOf or rightOf instead of x/y). circle: x/y is the center; every other shape: x/y is the top-left corner. note is a 200x200 sticky note; image shows an emoji icon.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: shapeRef('Short unique name to refer to this shape later, e.g. "sun"'),
+        shape: { type: 'string', enum: SHAPE_TYPES },
+        x: { type: 'number' },
+        y: { type: 'number' },
+        below: shapeRef('Instead of x/y: id of the shape to center this one below'),
+        above: shapeRef('Instead of x/y: id of the shape to center this one above'),
+        leftOf: shapeRef('Instead of x/y: id of the shape to put this one left of'),
+        rightOf: shapeRef('Instead of x/y: id of the shape to put this one right of'),
+        gap: { type: 'number', description: 'pixels between this shape and the one it is placed next to, default 40' },
+        w: { type: 'number', description: 'width, except circles' },
+        h: { type: 'number', description: 'height, except circles' },
+        radius: { type: 'number', description: 'circle radius' },
+        text: { type: 'string', description: 'text and note only' },
+        latex: { type: 'string', description: 'formula only: LaTeX without $' },
+        fontSize: { type: 'number', description: 'text, note and formula, in pixels' },
+        sides: { type: 'number', enum: POLYGON_SIDES, description: 'polygon only, default 6' },
+        icon: { type: 'string', description: 'image only: one emoji, e.g. "🌍"' },
+        src: { type: 'string', description: 'image only: base64 data:image/ URL - web URLs are not shown, use icon' },
+        fill: { type: 'string', enum: FILL_STYLES, description: 'default solid' },
+        dash,
+        size,
+        color
+      },
+      required: ['shape']
+    }
+  },
+  {
+    name: 'sketch',
+    description: 'Draw a freehand stroke through points on the canvas, for curves, trajectories and annotations. It is drawn live, like a pen.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: shapeRef('Short unique name to refer to this stroke later, e.g. "path"'),
+        points: {
+          type: 'array',
+          items: { type: 'object', properties: { x: { type: 'number' }, y: { type: 'number' } }, required: ['x', 'y'] },
+          description: '3-30 points along the stroke, in order'
+        },
+        smooth: { type: 'boolean', description: 'false keeps sharp corners between points (default true)' },
+        dash,
+        size,
+        color
+      },
+      required: ['points']
+    }
+  },
+  {
+    name: 'axes',
+    description: 'Draw coordinate axes filling a box, with ticks and tick labels, for graphs drawn with plot.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: shapeRef('Short unique name for plot calls to draw on, e.g. "graph"'),
+        x: { type: 'number', description: 'left of the box' },
+        y: { type: 'number', description: 'top of the box' },
+        w: { type: 'number', description: 'default 400' },
+        h: { type: 'number', description: 'default 300' },
+        xRange: range('[min, max] of x values shown, default [0, 10]'),
+        yRange: range('[min, max] of y values shown, default [0, 10]'),
+        xStep: { type: 'number', description: 'distance between x ticks' },
+        yStep: { type: 'number', description: 'distance between y ticks' },
+        xLabel: { type: 'string', description: 'x axis title, e.g. "time (s)"' },
+        yLabel: { type: 'string', description: 'y axis title' },
+        grid: { type: 'boolean', description: 'dotted gridlines at the ticks (default false)' },
+        color
+      },
+      required: ['id', 'x', 'y']
+    }
+  },
+  {
+    name: 'plot',
+    description: 'Draw a curve on axes drawn earlier. It is drawn live, left to right.',
+    parameters: {
+      type: 'object',
+      properties: {
+        axes: shapeRef('id of the axes to draw on'),
+        expression: { type: 'string', description: 'formula in x (or t, n), e.g. "x^2", "3 sin(2t)", "n log2 n"' },
+        data: {
+          type: 'array',
+          items: { type: 'object', properties: { x: { type: 'number' }, y: { type: 'number' } }, required: ['x', 'y'] },
+          description: 'data points in graph values, instead of an expression'
+        },
+        domain: range('[from, to] x values to draw over, default the whole x range'),
+        color
+      },
+      required: ['axes']
+    }
+  },
+  {
+    name: 'connect',
+    description: 'Draw an arrow (or a plain line) between two shapes drawn earlier, edge to edge. It stays attached to them if they move.',
+    parameters: {
+      type: 'object',
+      properties: {
+        from: shapeRef('id of the shape it starts at'),
+        to: shapeRef('id of the shape it points to'),
+        label: { type: 'string', description: 'Optional text next to the middle of the arrow' },
+        arrow: { type: 'boolean', description: 'false for a line without arrowhead (default true)' },
+        curved: { type: 'boolean', description: 'bow the arrow into a curve, e.g. for cycles (default false)' },
+        dash,
+        size,
+        color
+      },
+      required: ['from', 'to']
+    }
+  },
+  {
+    name: 'label',
+    description: 'Write a text label next to a shape drawn earlier.',
+    parameters: {
+      type: 'object',
+      properties: {
+        target: shapeRef('id of the shape to label'),
+        text: { type: 'string' },
+        position: { type: 'string', enum: LABEL_POSITIONS, description: 'default below' },
+        color
+      },
+      required: ['target', 'text']
+    }
+  },
+  {
+    name: 'highlight',
+    description: 'Draw a dashed outline around a shape drawn earlier, or around an area, to point at it.',
+    parameters: {
+      type: 'object',
+      properties: {
+        target: shapeRef('id of the shape to highlight'),
+        x: { type: 'number' },
+        y: { type: 'number' },
+        w: { type: 'number' },
+        h: { type: 'number' },
+        color
+      }
+    }
+  },
+  {
+    name: 'clear_region',
+    description: 'Erase what you drew in an area, to make room or to redraw it.',
+    parameters: {
+      type: 'object',
+      properties: {
+        x: { type: 'number' },
+        y: { type: 'number' },
+        w: { type: 'number' },
+        h: { type: 'number' }
+      },
+      required: ['x', 'y', 'w', 'h']
+    }
+  }
+];
+
+// Tools that only carry lesson bookkeeping or speech - aiService handles these, nothing is drawn
+export const NON_DRAWING_TOOLS = ['start_lesson', 'narrate'];
+
+function readString(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args[key];
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
+
+function readNumber(args: Record<string, unknown>, key: string): number | undefined {
+  const value = typeof args[key] === 'string' ? Number(args[key]) : args[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function readRegion(args: Record<string, unknown>): Region | null {
+  const [x, y, w, h] = ['x', 'y', 'w', 'h'].map(key => readNumber(args, key));
+  return x !== undefined && y !== undefined && w !== undefined && h !== undefined && w > 0 && h > 0
+    ? { x, y, w, h }
+    : null;
+}
+
+// Runs one answer's drawing calls in order. Ids are kept by the controller, so shapes from earlier
+// answers can be referred to as well.
+export class DrawingToolRunner {
+  private controller: DrawingController;
+
+  constructor(controller: DrawingController) {
+    this.controller = controller;
+  }
+
+  async run(call: ToolCall): Promise<void> {
+    const args = call.arguments;
+    switch (call.name) {
+      case 'draw_shape':
+        return this.drawShape(args);
+      case 'sketch':
+        return this.sketch(args);
+      case 'axes':
+        return this.axes(args);
+      case 'plot':
+        return this.plot(args);
+      case 'connect':
+        return this.connect(args);
+      case 'label':
+        return this.label(args);
+      case 'highlight':
+        return this.highlight(args);
+      case 'clear_region': {
+        const region = readRegion(args);
+        if (region) this.controller.clearRegion(region);
+        else console.warn('clear_region needs x, y, w and h');
+        return;
+      }
+      default:
+        if (!NON_DRAWING_TOOLS.includes(call.name)) console.warn(`Unknown drawing tool: ${call.name}`);
+    }
+  }
+
+  private async drawShape(args: Record<string, unknown>) {
+    const props = Object.fromEntries(
+      ['w', 'h', 'radius', 'text', 'latex', 'fontSize', 'sides', 'icon', 'src', 'fill', 'dash', 'size', 'color',
+        'below', 'above', 'leftOf', 'rightOf', 'gap']
+        .filter(key => args[key] !== undefined)
+        .map(key => [key, args[key]])
+    );
+    await this.draw({ type: args.shape, id: args.id, x: args.x, y: args.y, props });
+  }
+
+  private async sketch(args: Record<string, unknown>) {
+    const props = { points: args.points, smooth: args.smooth, dash: args.dash, size: args.size, color: args.color };
+    await this.draw({ type: 'freehand', id: args.id, x: 0, y: 0, props });
+  }
+
+  private async axes(args: Record<string, unknown>) {
+    const props = Object.fromEntries(
+      ['w', 'h', 'xRange', 'yRange', 'xStep', 'yStep', 'xLabel', 'yLabel', 'grid', 'color']
+        .filter(key => args[key] !== undefined)
+        .map(key => [key, args[key]])
+    );
+    await this.draw({ type: 'axes', id: args.id, x: args.x, y: args.y, props });
+  }
+
+  // Plots land in the box of their axes, with the same ranges, wherever the axes ended up
+  private async plot(args: Record<string, unknown>) {
+    const id = readString(args, 'axes');
+    const shapeId = id ? this.controller.getShapeId(id) : null;
+    const drawn = shapeId && this.controller.getDrawnCommand(shapeId);
+    const graph = drawn && drawn.type === 'axes' ? drawn : null;
+    if (!graph) {
+      console.warn(`Drawing tool axes: no axes with id ${JSON.stringify(id)}`);
+      return;
+    }
+    const { w, h, xRange, yRange } = graph.props || {};
+    await this.draw({
+      type: 'plot',
+      x: graph.x,
+      y: graph.y,
+      props: { w, h, xRange, yRange, expression: args.expression, data: args.data, domain: args.domain, color: args.color }
+    });
+  }
+
+  private async connect(args: Record<string, unknown>) {
+    const from = this.bounds(args, 'from');
+    const to = this.bounds(args, 'to');
+    if (!from || !to) return;
+
+    const type = args.arrow === false ? 'line' : args.curved === true ? 'curved-arrow' : 'arrow';
+    await this.draw({ type, x: 0, y: 0, props: { from: args.from, to: args.to, dash: args.dash, size: args.size, color: args.color } });
+
+    const label = readString(args, 'label');
+    if (label) {
+      const middle = { x: (from.x + from.w / 2 + to.x + to.w / 2) / 2, y: (from.y + from.h / 2 + to.y + to.h / 2) / 2 };
+      await this.draw({
+        type: 'text',
+        x: Math.round(middle.x - label.length * CHAR_WIDTH / 2),
+        y: Math.round(middle.y - LINE_HEIGHT - GAP),
+        props: { text: label, color: args.color }
+      });
+    }
+  }
+
+  private async label(args: Record<string, unknown>) {
+    const box = this.bounds(args, 'target');
+    const text = readString(args, 'text');
+    if (!box || !text) return;
+
+    const requested = readString(args, 'position') as LabelPosition | undefined;
+    const position = requested && LABEL_POSITIONS.includes(requested) ? requested : 'below';
+    if (position !== 'inside') {
+      const placement = LABEL_PLACEMENTS[position];
+      await this.draw({ type: 'text', x: 0, y: 0, props: { text, color: args.color, [placement]: args.target, gap: GAP } });
+      return;
+    }
+    await this.draw({
+      type: 'text',
+      x: Math.round(box.x + box.w / 2 - text.length * CHAR_WIDTH / 2),
+      y: Math.round(box.y + box.h / 2 - LINE_HEIGHT / 2),
+      props: { text, color: args.color }
+    });
+  }
+
+  private async highlight(args: Record<string, unknown>) {
+    const box = args.target !== undefined ? this.bounds(args, 'target') : readRegion(args);
+    if (!box) {
+      if (args.target === undefined) console.warn('highlight needs a target or x, y, w and h');
+      return;
+    }
+    const color = readString(args, 'color');
+    this.controller.drawHighlight({ x: box.x - GAP, y: box.y - GAP, w: box.w + GAP * 2, h: box.h + GAP * 2 }, color);
+  }
+
+  private async draw(input: unknown): Promise<TLShapeId | null> {
+    const command = this.validate(input);
+    return command && this.controller.drawCommand(command);
+  }
+
+  // Validated like any other draw command, so coordinates and colors get the same coercion
+  private validate(input: unknown): DrawCommand | null {
+    const { value, issues } = validateDrawCommand(input, 'tool call');
+    if (!value) console.warn(`Skipping invalid drawing tool call:\n${formatSchemaIssues(issues)}`);
+    return value;
+  }
+
+  private bounds(args: Record<string, unknown>, key: string): Region | null {
+    const id = readString(args, key);
+    const shapeId = id ? this.controller.getShapeId(id) : null;
+    const bounds = shapeId ? this.controller.getShapeBounds(shapeId) : null;
+    if (!bounds) console.warn(`Drawing tool ${key}: no shape with id ${JSON.stringify(id)}`);
+    return bounds && { x: bounds.x, y: bounds.y, w: bounds.w, h: bounds.h };
+  }
+}
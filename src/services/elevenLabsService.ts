@@ -1,25 +1,42 @@
 // ElevenLabs TTS Service - High quality AI voices
-// Uses streaming for faster response
-
-const ELEVENLABS_API_KEY = import.meta.env.VITE_ELEVENLABS_API_KEY || '';
-
-// Voice IDs from ElevenLabs
-const VOICES = {
-  rachel: '21m00Tcm4TlvDq8ikWAM',    // Rachel - calm, warm female
-  adam: 'pNInz6obpgDQGcFmaJgB',       // Adam - deep male
-  josh: 'TxGEqnHWrfWFTfGW9XjX',       // Josh - young male
-  bella: 'EXAVITQu4vr4xnSDxMaL',      // Bella - soft female
-  arnold: 'VR6AewLTigWG4xSOukaG',     // Arnold - crisp male
-  domi: 'AZnzlk1XvdvUeBnXmlld',       // Domi - strong female
-};
-
-// Default voice - Rachel is great for teaching
-const DEFAULT_VOICE_ID = VOICES.rachel;
+// Audio is synthesized by the backend proxy; falls back to Web Speech when it is unavailable
+
+import { getBackendStatus, requestSpeech } from './apiClient';
+import { LANGUAGES, pickVoice } from './language';
+import type { LanguageCode } from './language';
+import { CircuitBreaker, toRequestError } from './retryPolicy';
+import type { TutorSession } from './tutorSession';
+
+// Explanations are Markdown with $...$ math - read the words, not the markup
+function toSpokenText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/\$\$?([^$]+)\$\$?/g, '$1')
+    .replace(/\\frac\{([^}]*)\}\{([^}]*)\}/g, '$1 over $2')
+    .replace(/\\(?:times|cdot)\b/g, ' times ')
+    .replace(/\^\{?2\}?/g, ' squared')
+    .replace(/\^/g, ' to the power ')
+    .replace(/\\[a-zA-Z]+/g, ' ')
+    .replace(/[{}]/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(?:#{1,6}|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`|]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
 
 class ElevenLabsService {
   private audioContext: AudioContext | null = null;
   private currentSource: AudioBufferSourceNode | null = null;
   private isPlaying = false;
+  // Voice, model and API key live on the backend (/api/tts); this mirrors whether it has them
+  private configured = false;
+  // The backend picks a multilingual model and voice for anything but English
+  private language: LanguageCode = 'en';
+  // While speech keeps failing, go straight to Web Speech instead of waiting on every sentence
+  private breaker = new CircuitBreaker(2, 60_000);
+  // Speech is billed to this session; once its budget is spent the free browser voice takes over
+  private session: TutorSession | null = null;
 
   constructor() {
     // Initialize audio context on first user interaction
@@ -28,49 +45,35 @@ class ElevenLabsService {
     }
   }
 
-  async speak(text: string, onEnd?: () => void): Promise<void> {
-    console.log('ElevenLabs speak called, API key exists:', !!ELEVENLABS_API_KEY, 'key length:', ELEVENLABS_API_KEY.length);
-    
-    if (!ELEVENLABS_API_KEY) {
-      console.warn('ElevenLabs API key not configured, falling back to Web Speech');
+  async speak(markdown: string, onEnd?: () => void): Promise<void> {
+    const text = toSpokenText(markdown);
+    const status = await getBackendStatus();
+    this.configured = status.tts;
+
+    if (!status.tts) {
+      console.warn('ElevenLabs not configured on the backend, falling back to Web Speech');
       return this.fallbackSpeak(text, onEnd);
     }
 
+    if (this.session?.isOverBudget() || !this.breaker.canRequest()) {
+      return this.fallbackSpeak(text, onEnd);
+    }
+
+    let audioData: ArrayBuffer;
     try {
       this.stop(); // Stop any current playback
-      console.log('Making ElevenLabs API request...');
-      
-      const response = await fetch(
-        `https://api.elevenlabs.io/v1/text-to-speech/${DEFAULT_VOICE_ID}`,
-        {
-          method: 'POST',
-          headers: {
-            'Accept': 'audio/mpeg',
-            'Content-Type': 'application/json',
-            'xi-api-key': ELEVENLABS_API_KEY,
-          },
-          body: JSON.stringify({
-            text: text,
-            model_id: 'eleven_monolingual_v1',
-            voice_settings: {
-              stability: 0.5,
-              similarity_boost: 0.75,
-              style: 0.0,
-              use_speaker_boost: true
-            }
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        console.error('ElevenLabs API error:', response.status);
-        return this.fallbackSpeak(text, onEnd);
-      }
+      audioData = await requestSpeech(text, this.language, this.session?.id);
+      this.breaker.recordSuccess();
+    } catch (error) {
+      console.error('ElevenLabs error:', error);
+      this.breaker.recordFailure(toRequestError(error));
+      return this.fallbackSpeak(text, onEnd);
+    }
 
-      const audioData = await response.arrayBuffer();
+    try {
       await this.playAudio(audioData, onEnd);
     } catch (error) {
-      console.error('ElevenLabs error:', error);
+      console.error('ElevenLabs playback error:', error);
       return this.fallbackSpeak(text, onEnd);
     }
   }
@@ -114,15 +117,14 @@ class ElevenLabsService {
       const synthesis = window.speechSynthesis;
       synthesis.cancel();
 
+      const locale = LANGUAGES[this.language].locale;
       const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = locale;
       utterance.rate = 1.0;
       utterance.pitch = 1.0;
       utterance.volume = 1.0;
 
-      const voices = synthesis.getVoices();
-      const preferredVoice = voices.find(v => 
-        v.name.includes('Google') || v.name.includes('Natural') || v.lang.startsWith('en')
-      );
+      const preferredVoice = pickVoice(synthesis.getVoices(), locale);
       if (preferredVoice) {
         utterance.voice = preferredVoice;
       }
@@ -141,6 +143,14 @@ class ElevenLabsService {
     });
   }
 
+  setLanguage(language: LanguageCode): void {
+    this.language = language;
+  }
+
+  setSession(session: TutorSession | null): void {
+    this.session = session;
+  }
+
   stop(): void {
     if (this.currentSource) {
       try {
@@ -161,7 +171,7 @@ class ElevenLabsService {
   }
 
   isConfigured(): boolean {
-    return !!ELEVENLABS_API_KEY;
+    return this.configured;
   }
 }
 
@@ -0,0 +1,38 @@
+// KaTeX typesetting for formula shapes on the canvas
+// A bad formula renders as red source text instead of throwing, so one typo never breaks a lesson.
+
+import katex from 'katex';
+
+export const FORMULA_CLASS = 'formula-shape';
+export const DEFAULT_FORMULA_FONT_SIZE = 28;
+
+const cache = new Map<string, string>();
+
+// Models often wrap the LaTeX in the same $...$ they use in the chat
+export function normalizeLatex(latex: string): string {
+  return latex.trim().replace(/^\$\$?([\s\S]*?)\$\$?$/, '$1').trim();
+}
+
+export function renderFormula(latex: string): string {
+  let html = cache.get(latex);
+  if (html === undefined) {
+    html = katex.renderToString(latex, { displayMode: true, throwOnError: false, strict: 'ignore', output: 'html' });
+    cache.set(latex, html);
+  }
+  return html;
+}
+
+// Size of the typeset formula, so its shape starts out exactly around it
+export function measureFormula(latex: string, fontSize = DEFAULT_FORMULA_FONT_SIZE): { w: number; h: number } {
+  const probe = document.createElement('div');
+  probe.className = FORMULA_CLASS;
+  probe.style.cssText = `position: absolute; visibility: hidden; left: -9999px; top: 0; font-size: ${fontSize}px; white-space: nowrap;`;
+  probe.innerHTML = renderFormula(latex);
+  document.body.appendChild(probe);
+  const { width, height } = probe.getBoundingClientRect();
+  probe.remove();
+
+  // Padding keeps the selection outline off the glyphs
+  const padding = fontSize * 0.3;
+  return { w: Math.ceil(width + padding * 2), h: Math.ceil(height + padding * 2) };
+}
@@ -0,0 +1,52 @@
+// Photos and screenshots attached to a question - scaled down and re-encoded in the browser so
+// a phone photo of a worksheet stays well under the backend's body limit
+
+import type { ChatImage } from '../types';
+
+export const MAX_ATTACHMENTS = 3;
+// Vision models downscale anything larger anyway
+const MAX_DIMENSION = 1600;
+const JPEG_QUALITY = 0.85;
+// Refuse before decoding: a 40 MB RAW export would only freeze the tab
+const MAX_FILE_BYTES = 20_000_000;
+
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith('image/');
+}
+
+export function toDataURL(image: ChatImage): string {
+  return `data:${image.mediaType};base64,${image.data}`;
+}
+
+// Screenshots stay PNG so text stays crisp; everything else becomes JPEG
+export async function prepareImage(file: File): Promise<ChatImage> {
+  if (!isImageFile(file)) throw new Error(`${file.name || 'File'} is not an image`);
+  if (file.size > MAX_FILE_BYTES) throw new Error(`${file.name || 'Image'} is too large (max 20 MB)`);
+
+  const bitmap = await createImageBitmap(file).catch(() => {
+    throw new Error(`${file.name || 'Image'} could not be read`);
+  });
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  const mediaType = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+  if (mediaType === 'image/jpeg') {
+    // Transparent areas would turn black in a JPEG
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const dataURL = canvas.toDataURL(mediaType, JPEG_QUALITY);
+  return { mediaType, data: dataURL.slice(dataURL.indexOf(',') + 1) };
+}
+
+// Image files from a paste or drop, ignoring everything else
+export function imageFilesFrom(data: DataTransfer | null): File[] {
+  return data ? [...data.files].filter(isImageFile) : [];
+}
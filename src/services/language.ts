@@ -0,0 +1,76 @@
+// Tutoring language - one setting that drives speech recognition, voices, prompts and
+// which translation of a pre-generated lesson is played
+
+export const LANGUAGE_CODES = ['en', 'es', 'fr', 'de', 'pt', 'hi', 'zh', 'ar'] as const;
+
+export type LanguageCode = typeof LANGUAGE_CODES[number];
+
+export interface TutorLanguage {
+  code: LanguageCode;
+  // BCP 47 locale for speech recognition and Web Speech voices
+  locale: string;
+  // Name the model is told to answer in
+  englishName: string;
+  // Name shown in the language picker
+  nativeName: string;
+}
+
+export const LANGUAGES: Record<LanguageCode, TutorLanguage> = {
+  en: { code: 'en', locale: 'en-US', englishName: 'English', nativeName: 'English' },
+  es: { code: 'es', locale: 'es-ES', englishName: 'Spanish', nativeName: 'Español' },
+  fr: { code: 'fr', locale: 'fr-FR', englishName: 'French', nativeName: 'Français' },
+  de: { code: 'de', locale: 'de-DE', englishName: 'German', nativeName: 'Deutsch' },
+  pt: { code: 'pt', locale: 'pt-BR', englishName: 'Portuguese', nativeName: 'Português' },
+  hi: { code: 'hi', locale: 'hi-IN', englishName: 'Hindi', nativeName: 'हिन्दी' },
+  zh: { code: 'zh', locale: 'zh-CN', englishName: 'Chinese (Simplified)', nativeName: '中文' },
+  ar: { code: 'ar', locale: 'ar-SA', englishName: 'Arabic', nativeName: 'العربية' }
+};
+
+const STORAGE_KEY = 'aitutor.language';
+
+function isLanguageCode(value: unknown): value is LanguageCode {
+  return (LANGUAGE_CODES as readonly unknown[]).includes(value);
+}
+
+// Saved choice first, then the browser's language, then English
+export function loadLanguage(): LanguageCode {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLanguageCode(stored)) return stored;
+  } catch {
+    // Storage unavailable - fall through to the browser language
+  }
+  const browser = typeof navigator !== 'undefined' ? navigator.language.slice(0, 2).toLowerCase() : '';
+  return isLanguageCode(browser) ? browser : 'en';
+}
+
+export function saveLanguage(code: LanguageCode): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, code);
+  } catch (error) {
+    console.warn('Could not persist language:', error);
+  }
+}
+
+// System prompt section; empty for English, which every prompt is already written in
+export function buildLanguagePrompt(code: LanguageCode): string {
+  if (code === 'en') return '';
+  const name = LANGUAGES[code].englishName;
+  return `LANGUAGE: The student speaks ${name}. Write every student-facing string in ${name}: ` +
+    `explanations, narration, questions, feedback, task steps and all diagram labels and text. ` +
+    `Keep JSON keys, draw command types, colors and Mermaid keywords in English.`;
+}
+
+// Best Web Speech voice for a locale: exact locale, then same language; natural-sounding voices first
+export function pickVoice(voices: SpeechSynthesisVoice[], locale: string): SpeechSynthesisVoice | undefined {
+  const language = locale.slice(0, 2).toLowerCase();
+  const quality = (voice: SpeechSynthesisVoice) =>
+    /Google|Natural|Samantha|Premium|Enhanced/.test(voice.name) ? 0 : 1;
+  const candidates = voices
+    .filter(voice => voice.lang.replace('_', '-').toLowerCase().startsWith(language))
+    .sort((a, b) => {
+      const exact = Number(b.lang.replace('_', '-') === locale) - Number(a.lang.replace('_', '-') === locale);
+      return exact || quality(a) - quality(b);
+    });
+  return candidates[0];
+}
@@ -0,0 +1,138 @@
+// Learner profile - who the tutor is talking to
+// Persisted in localStorage; turned into a prompt section for every lesson plus hard limits on
+// lesson size and the drawing pace StepSyncController uses.
+
+import type { LLMMode } from '../types';
+
+export const GRADE_LEVELS = ['elementary', 'middle-school', 'high-school', 'university', 'adult'] as const;
+export const LESSON_PACES = ['slow', 'normal', 'fast'] as const;
+export const READING_LEVELS = ['simple', 'standard', 'advanced'] as const;
+
+export type GradeLevel = typeof GRADE_LEVELS[number];
+export type LessonPace = typeof LESSON_PACES[number];
+export type ReadingLevel = typeof READING_LEVELS[number];
+
+export interface LearnerProfile {
+  gradeLevel: GradeLevel;
+  // What the student already knows, in their own words
+  priorKnowledge: string;
+  pace: LessonPace;
+  readingLevel: ReadingLevel;
+}
+
+export interface LessonLimits {
+  maxSteps: number;
+  maxDrawCommands: number;
+  maxNarrationSentences: number;
+  maxDiagramNodes: number;
+}
+
+export interface PaceTiming {
+  // Pause after each stroke of a streamed or cached lesson
+  drawDelayMs: number;
+  // Pause between teaching steps
+  stepPauseMs: number;
+  // Assumed speaking speed when spreading strokes over a narration
+  msPerWord: number;
+}
+
+export const DEFAULT_LEARNER_PROFILE: LearnerProfile = {
+  gradeLevel: 'high-school',
+  priorKnowledge: '',
+  pace: 'normal',
+  readingLevel: 'standard'
+};
+
+export const GRADE_LABELS: Record<GradeLevel, string> = {
+  'elementary': 'Elementary school',
+  'middle-school': 'Middle school',
+  'high-school': 'High school',
+  'university': 'University',
+  'adult': 'Adult learner'
+};
+
+export const PACE_TIMINGS: Record<LessonPace, PaceTiming> = {
+  slow: { drawDelayMs: 700, stepPauseMs: 1200, msPerWord: 500 },
+  normal: { drawDelayMs: 400, stepPauseMs: 500, msPerWord: 400 },
+  fast: { drawDelayMs: 200, stepPauseMs: 200, msPerWord: 330 }
+};
+
+const GRADE_LIMITS: Record<GradeLevel, LessonLimits> = {
+  'elementary': { maxSteps: 3, maxDrawCommands: 8, maxNarrationSentences: 2, maxDiagramNodes: 6 },
+  'middle-school': { maxSteps: 3, maxDrawCommands: 10, maxNarrationSentences: 3, maxDiagramNodes: 8 },
+  'high-school': { maxSteps: 4, maxDrawCommands: 14, maxNarrationSentences: 3, maxDiagramNodes: 10 },
+  'university': { maxSteps: 5, maxDrawCommands: 18, maxNarrationSentences: 4, maxDiagramNodes: 12 },
+  'adult': { maxSteps: 4, maxDrawCommands: 14, maxNarrationSentences: 3, maxDiagramNodes: 10 }
+};
+
+const READING_GUIDANCE: Record<ReadingLevel, string> = {
+  simple: 'Use short sentences and everyday words. Define every technical term the first time, with an example.',
+  standard: 'Use clear sentences. Introduce technical terms with a brief definition.',
+  advanced: 'Use precise technical vocabulary freely; skip definitions of standard terms.'
+};
+
+const PACE_GUIDANCE: Record<LessonPace, string> = {
+  slow: 'Go slowly: one idea per step, repeat the key point.',
+  normal: 'Keep a steady pace.',
+  fast: 'Move quickly: combine related ideas and skip the basics.'
+};
+
+const STORAGE_KEY = 'aitutor.learnerProfile';
+
+function pick<T extends string>(allowed: readonly T[], value: unknown, fallback: T): T {
+  return (allowed as readonly unknown[]).includes(value) ? value as T : fallback;
+}
+
+// Stored profiles from older versions (or hand-edited storage) fall back field by field
+export function loadLearnerProfile(): LearnerProfile {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') as Partial<Record<keyof LearnerProfile, unknown>>;
+    return {
+      gradeLevel: pick(GRADE_LEVELS, stored.gradeLevel, DEFAULT_LEARNER_PROFILE.gradeLevel),
+      priorKnowledge: typeof stored.priorKnowledge === 'string' ? stored.priorKnowledge : '',
+      pace: pick(LESSON_PACES, stored.pace, DEFAULT_LEARNER_PROFILE.pace),
+      readingLevel: pick(READING_LEVELS, stored.readingLevel, DEFAULT_LEARNER_PROFILE.readingLevel)
+    };
+  } catch {
+    return { ...DEFAULT_LEARNER_PROFILE };
+  }
+}
+
+export function saveLearnerProfile(profile: LearnerProfile): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    console.warn('Could not persist learner profile:', error);
+  }
+}
+
+export function getLessonLimits(profile: LearnerProfile): LessonLimits {
+  const limits = GRADE_LIMITS[profile.gradeLevel];
+  const sentenceShift = profile.readingLevel === 'simple' ? -1 : profile.readingLevel === 'advanced' ? 1 : 0;
+  return { ...limits, maxNarrationSentences: Math.max(1, limits.maxNarrationSentences + sentenceShift) };
+}
+
+// System prompt section describing the student and how big the lesson may be
+export function buildProfilePrompt(profile: LearnerProfile, mode: LLMMode): string {
+  const limits = getLessonLimits(profile);
+  const size = mode === 'canvas'
+    ? `At most ${limits.maxSteps} taskBreakdown steps and ${limits.maxDrawCommands} drawCommands. Narration: at most ${limits.maxNarrationSentences} sentences.`
+    : `At most ${limits.maxDiagramNodes} diagram nodes.`;
+  const prior = profile.priorKnowledge.trim()
+    ? `Already knows: ${profile.priorKnowledge.trim()}. Build on that instead of re-explaining it.`
+    : '';
+
+  return [
+    `LEARNER PROFILE: ${GRADE_LABELS[profile.gradeLevel]} student.`,
+    prior,
+    READING_GUIDANCE[profile.readingLevel],
+    PACE_GUIDANCE[profile.pace],
+    `LESSON SIZE: ${size}`
+  ].filter(Boolean).join('\n');
+}
+
+// Part of the response cache key - answers written for one audience are not reused for another
+export function profileCacheKey(profile: LearnerProfile): string {
+  const prior = profile.priorKnowledge.trim().toLowerCase().replace(/\s+/g, ' ');
+  return `${profile.gradeLevel}/${profile.readingLevel}/${profile.pace}/${prior}`;
+}
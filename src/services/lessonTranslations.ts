@@ -0,0 +1,295 @@
+// Translations of the pre-generated lessons
+// Drawings are shared with the English lesson; only spoken and written text is replaced.
+// Languages without an entry here get AI-generated lessons in that language instead.
+
+import type { LanguageCode } from './language';
+
+export interface LessonTranslation {
+  keywords: string[];
+  taskBreakdown: string[];
+  explanation: string;
+  // English step narration -> translated narration, like labels, so steps can be reordered or
+  // edited without the translations silently drifting onto the wrong drawing
+  narrations: Record<string, string>;
+  // English canvas label -> translated label; labels not listed (formulas, acronyms) stay as they are
+  labels: Record<string, string>;
+  quickPrompt: { label: string; query: string };
+}
+
+export const lessonTranslations: Record<string, Partial<Record<LanguageCode, LessonTranslation>>> = {
+  // ============ NEWTON'S LAWS OF MOTION ============
+  'newtons-laws': {
+    es: {
+      keywords: ['newton', 'leyes', 'movimiento', 'fuerza', 'inercia'],
+      taskBreakdown: [
+        'Paso 1: Primera ley - Ley de la inercia',
+        'Paso 2: Segunda ley - F = ma',
+        'Paso 3: Tercera ley - Acción y reacción'
+      ],
+      explanation: `Las tres leyes del movimiento de Newton
+
+Primera ley (Inercia): Un objeto en reposo permanece en reposo. Un objeto en movimiento sigue moviéndose a menos que una fuerza actúe sobre él.
+
+Segunda ley (F = ma): La fuerza es igual a la masa por la aceleración. Los objetos más pesados necesitan más fuerza.
+
+Tercera ley (Acción y reacción): A toda acción le corresponde una reacción igual y opuesta.`,
+      narrations: {
+        "Let me explain Newton's three laws of motion with diagrams.":
+          'Voy a explicarte las tres leyes del movimiento de Newton con diagramas.',
+        "First Law: An object at rest stays at rest. Here's a ball sitting still on the ground.":
+          'Primera ley: un objeto en reposo permanece en reposo. Aquí hay una pelota quieta en el suelo.',
+        'Apply a force, and the ball moves. It keeps moving until another force stops it.':
+          'Si aplicas una fuerza, la pelota se mueve. Sigue moviéndose hasta que otra fuerza la detiene.',
+        'Second Law: Force equals mass times acceleration. F equals m times a.':
+          'Segunda ley: la fuerza es igual a la masa por la aceleración. F igual a m por a.',
+        'More mass needs more force to accelerate. Push harder for heavier objects.':
+          'Más masa necesita más fuerza para acelerar. Hay que empujar más fuerte los objetos pesados.',
+        'Third Law: Every action has an equal and opposite reaction.':
+          'Tercera ley: a toda acción le corresponde una reacción igual y opuesta.',
+        'When you push a wall, the wall pushes back with equal force.':
+          'Cuando empujas una pared, la pared te empuja con la misma fuerza.'
+      },
+      labels: {
+        "NEWTON'S LAWS": 'LEYES DE NEWTON',
+        'LAW 1: INERTIA': 'LEY 1: INERCIA',
+        'At Rest': 'En reposo',
+        'Moving': 'En movimiento',
+        'LAW 2: F = ma': 'LEY 2: F = ma',
+        'Mass': 'Masa',
+        'Force': 'Fuerza',
+        'LAW 3: ACTION-REACTION': 'LEY 3: ACCIÓN-REACCIÓN',
+        'Hand': 'Mano',
+        'Wall': 'Pared'
+      },
+      quickPrompt: { label: 'Leyes de Newton', query: 'Explica las leyes del movimiento de Newton' }
+    },
+    fr: {
+      keywords: ['newton', 'lois', 'mouvement', 'force', 'inertie'],
+      taskBreakdown: [
+        "Étape 1 : Première loi - Principe d'inertie",
+        'Étape 2 : Deuxième loi - F = ma',
+        'Étape 3 : Troisième loi - Action-réaction'
+      ],
+      explanation: `Les trois lois du mouvement de Newton
+
+Première loi (Inertie) : Un objet au repos reste au repos. Un objet en mouvement continue de bouger tant qu'aucune force n'agit sur lui.
+
+Deuxième loi (F = ma) : La force est égale à la masse multipliée par l'accélération. Les objets plus lourds demandent plus de force.
+
+Troisième loi (Action-réaction) : Toute action entraîne une réaction égale et opposée.`,
+      narrations: {
+        "Let me explain Newton's three laws of motion with diagrams.":
+          'Je vais t’expliquer les trois lois du mouvement de Newton avec des schémas.',
+        "First Law: An object at rest stays at rest. Here's a ball sitting still on the ground.":
+          'Première loi : un objet au repos reste au repos. Voici une balle immobile sur le sol.',
+        'Apply a force, and the ball moves. It keeps moving until another force stops it.':
+          "Applique une force, et la balle se déplace. Elle continue jusqu'à ce qu'une autre force l'arrête.",
+        'Second Law: Force equals mass times acceleration. F equals m times a.':
+          "Deuxième loi : la force est égale à la masse multipliée par l'accélération. F égale m fois a.",
+        'More mass needs more force to accelerate. Push harder for heavier objects.':
+          'Plus de masse demande plus de force pour accélérer. Il faut pousser plus fort les objets lourds.',
+        'Third Law: Every action has an equal and opposite reaction.':
+          'Troisième loi : toute action entraîne une réaction égale et opposée.',
+        'When you push a wall, the wall pushes back with equal force.':
+          'Quand tu pousses un mur, le mur te repousse avec la même force.'
+      },
+      labels: {
+        "NEWTON'S LAWS": 'LOIS DE NEWTON',
+        'LAW 1: INERTIA': 'LOI 1 : INERTIE',
+        'At Rest': 'Au repos',
+        'Moving': 'En mouvement',
+        'LAW 2: F = ma': 'LOI 2 : F = ma',
+        'Mass': 'Masse',
+        'Force': 'Force',
+        'LAW 3: ACTION-REACTION': 'LOI 3 : ACTION-RÉACTION',
+        'Hand': 'Main',
+        'Wall': 'Mur'
+      },
+      quickPrompt: { label: 'Lois de Newton', query: 'Explique les lois du mouvement de Newton' }
+    }
+  },
+
+  // ============ COMPUTER SYSTEM ============
+  'computer-system': {
+    es: {
+      keywords: ['computadora', 'ordenador', 'sistema', 'cpu', 'memoria', 'hardware', 'arquitectura'],
+      taskBreakdown: [
+        'Paso 1: Dispositivos de entrada',
+        'Paso 2: Procesamiento en la CPU',
+        'Paso 3: Memoria y almacenamiento',
+        'Paso 4: Dispositivos de salida'
+      ],
+      explanation: `Arquitectura de un sistema informático
+
+Entrada: El teclado y el ratón envían datos a la computadora.
+
+CPU: El cerebro que procesa todas las instrucciones.
+
+Memoria: La RAM guarda datos temporales de forma rápida; el disco duro los guarda de forma permanente.
+
+Salida: El monitor y los altavoces muestran los resultados.`,
+      narrations: {
+        'Let me show you how a computer system works. Data flows from input to output.':
+          'Te mostraré cómo funciona un sistema informático. Los datos fluyen de la entrada a la salida.',
+        'First, input devices. Keyboard and mouse send your commands into the computer.':
+          'Primero, los dispositivos de entrada. El teclado y el ratón envían tus órdenes a la computadora.',
+        'The CPU is the brain. It processes all instructions and calculations.':
+          'La CPU es el cerebro. Procesa todas las instrucciones y los cálculos.',
+        'Data flows from input to the CPU through these connections.':
+          'Los datos viajan de la entrada a la CPU a través de estas conexiones.',
+        'Memory works with the CPU. RAM is fast temporary storage.':
+          'La memoria trabaja con la CPU. La RAM es un almacenamiento temporal y rápido.',
+        'Storage keeps data permanently. Your files stay even when power is off.':
+          'El almacenamiento guarda los datos de forma permanente. Tus archivos siguen ahí aunque se apague.',
+        'Finally, output devices show you the results. Monitor displays, speakers play sound.':
+          'Por último, los dispositivos de salida muestran los resultados. El monitor muestra imágenes y los altavoces reproducen sonido.'
+      },
+      labels: {
+        'COMPUTER SYSTEM': 'SISTEMA INFORMÁTICO',
+        'INPUT': 'ENTRADA',
+        'Keyboard': 'Teclado',
+        'Mouse': 'Ratón',
+        'Processor': 'Procesador',
+        'Storage': 'Almacenamiento',
+        'OUTPUT': 'SALIDA',
+        'Monitor': 'Monitor',
+        'Speakers': 'Altavoces'
+      },
+      quickPrompt: { label: 'Sistema informático', query: 'Explica cómo funciona un sistema informático' }
+    },
+    fr: {
+      keywords: ['ordinateur', 'système', 'cpu', 'mémoire', 'matériel', 'architecture'],
+      taskBreakdown: [
+        "Étape 1 : Périphériques d'entrée",
+        'Étape 2 : Traitement par le processeur',
+        'Étape 3 : Mémoire et stockage',
+        'Étape 4 : Périphériques de sortie'
+      ],
+      explanation: `Architecture d'un système informatique
+
+Entrée : Le clavier et la souris envoient des données à l'ordinateur.
+
+CPU : Le cerveau qui traite toutes les instructions.
+
+Mémoire : La RAM pour un stockage temporaire rapide, le disque dur pour un stockage permanent.
+
+Sortie : L'écran et les haut-parleurs présentent les résultats.`,
+      narrations: {
+        'Let me show you how a computer system works. Data flows from input to output.':
+          "Je vais te montrer comment fonctionne un système informatique. Les données vont de l'entrée vers la sortie.",
+        'First, input devices. Keyboard and mouse send your commands into the computer.':
+          "D'abord, les périphériques d'entrée. Le clavier et la souris envoient tes commandes à l'ordinateur.",
+        'The CPU is the brain. It processes all instructions and calculations.':
+          'Le processeur est le cerveau. Il traite toutes les instructions et tous les calculs.',
+        'Data flows from input to the CPU through these connections.':
+          "Les données passent de l'entrée au processeur par ces connexions.",
+        'Memory works with the CPU. RAM is fast temporary storage.':
+          'La mémoire travaille avec le processeur. La RAM est un stockage temporaire rapide.',
+        'Storage keeps data permanently. Your files stay even when power is off.':
+          "Le stockage conserve les données de façon permanente. Tes fichiers restent même quand l'ordinateur est éteint.",
+        'Finally, output devices show you the results. Monitor displays, speakers play sound.':
+          "Enfin, les périphériques de sortie présentent les résultats. L'écran affiche, les haut-parleurs diffusent le son."
+      },
+      labels: {
+        'COMPUTER SYSTEM': 'SYSTÈME INFORMATIQUE',
+        'INPUT': 'ENTRÉE',
+        'Keyboard': 'Clavier',
+        'Mouse': 'Souris',
+        'Processor': 'Processeur',
+        'Storage': 'Stockage',
+        'OUTPUT': 'SORTIE',
+        'Monitor': 'Écran',
+        'Speakers': 'Haut-parleurs'
+      },
+      quickPrompt: { label: 'Système informatique', query: 'Explique comment fonctionne un système informatique' }
+    }
+  },
+
+  // ============ TIME COMPLEXITY ============
+  'time-complexity': {
+    es: {
+      keywords: ['complejidad', 'tiempo', 'big o', 'algoritmo', 'o(n)', 'o(1)', 'eficiencia'],
+      taskBreakdown: [
+        'Paso 1: Qué es Big O',
+        'Paso 2: O(1) Tiempo constante',
+        'Paso 3: O(n) Tiempo lineal',
+        'Paso 4: O(n al cuadrado) Cuadrático'
+      ],
+      explanation: `Complejidad temporal - Notación Big O
+
+O(1) Constante: El tiempo no cambia con el tamaño de la entrada. Acceso a un arreglo por índice.
+
+O(log n) Logarítmica: Muy eficiente. Búsqueda binaria.
+
+O(n) Lineal: El tiempo crece con la entrada. Recorrer un arreglo.
+
+O(n al cuadrado) Cuadrática: Lenta para entradas grandes. Bucles anidados.`,
+      narrations: {
+        'Time complexity measures how algorithm speed changes with input size.':
+          'La complejidad temporal mide cómo cambia la velocidad de un algoritmo con el tamaño de la entrada.',
+        "Here's a graph. X axis is input size, Y axis is time taken.":
+          'Aquí hay una gráfica. El eje X es el tamaño de la entrada y el eje Y es el tiempo.',
+        'O of 1 is constant. A flat line. Time never changes. Like accessing array by index.':
+          'O de 1 es constante. Una línea plana. El tiempo nunca cambia, como acceder a un arreglo por índice.',
+        'O of log n grows slowly. Binary search uses this. Very efficient.':
+          'O de log n crece despacio. La búsqueda binaria la usa. Es muy eficiente.',
+        'O of n is linear. A diagonal line. Time grows directly with input size.':
+          'O de n es lineal. Una línea diagonal. El tiempo crece igual que la entrada.',
+        'O of n squared grows very fast. Nested loops cause this. Avoid for large data.':
+          'O de n al cuadrado crece muy rápido. La causan los bucles anidados. Evítala con muchos datos.',
+        'Summary: O 1 is best, log n is great, n is okay, n squared is slow.':
+          'Resumen: O de 1 es lo mejor, log n es muy bueno, n está bien y n al cuadrado es lento.'
+      },
+      labels: {
+        'TIME COMPLEXITY - BIG O': 'COMPLEJIDAD TEMPORAL - BIG O',
+        'Time': 'Tiempo',
+        'Input n': 'Entrada n',
+        'BEST': 'MEJOR',
+        'WORST': 'PEOR'
+      },
+      quickPrompt: { label: 'Complejidad temporal', query: 'Explica la complejidad temporal y la notación Big O' }
+    },
+    fr: {
+      keywords: ['complexité', 'temps', 'big o', 'algorithme', 'o(n)', 'o(1)', 'efficacité'],
+      taskBreakdown: [
+        "Étape 1 : Qu'est-ce que Big O",
+        'Étape 2 : O(1) Temps constant',
+        'Étape 3 : O(n) Temps linéaire',
+        'Étape 4 : O(n au carré) Quadratique'
+      ],
+      explanation: `Complexité temporelle - Notation Big O
+
+O(1) Constante : Le temps ne dépend pas de la taille de l'entrée. Accès à un tableau par indice.
+
+O(log n) Logarithmique : Très efficace. Recherche dichotomique.
+
+O(n) Linéaire : Le temps grandit avec l'entrée. Parcourir un tableau.
+
+O(n au carré) Quadratique : Lent pour de grandes entrées. Boucles imbriquées.`,
+      narrations: {
+        'Time complexity measures how algorithm speed changes with input size.':
+          "La complexité temporelle mesure comment la vitesse d'un algorithme évolue avec la taille de l'entrée.",
+        "Here's a graph. X axis is input size, Y axis is time taken.":
+          "Voici un graphique. L'axe X est la taille de l'entrée, l'axe Y le temps.",
+        'O of 1 is constant. A flat line. Time never changes. Like accessing array by index.':
+          "O de 1 est constant. Une ligne plate. Le temps ne change jamais, comme l'accès à un tableau par indice.",
+        'O of log n grows slowly. Binary search uses this. Very efficient.':
+          'O de log n grandit lentement. La recherche dichotomique l’utilise. Très efficace.',
+        'O of n is linear. A diagonal line. Time grows directly with input size.':
+          "O de n est linéaire. Une ligne diagonale. Le temps grandit comme l'entrée.",
+        'O of n squared grows very fast. Nested loops cause this. Avoid for large data.':
+          'O de n au carré grandit très vite. Les boucles imbriquées en sont la cause. À éviter pour beaucoup de données.',
+        'Summary: O 1 is best, log n is great, n is okay, n squared is slow.':
+          'En résumé : O de 1 est le meilleur, log n est très bien, n est correct et n au carré est lent.'
+      },
+      labels: {
+        'TIME COMPLEXITY - BIG O': 'COMPLEXITÉ TEMPORELLE - BIG O',
+        'Time': 'Temps',
+        'Input n': 'Entrée n',
+        'BEST': 'MEILLEUR',
+        'WORST': 'PIRE'
+      },
+      quickPrompt: { label: 'Complexité temporelle', query: 'Explique la complexité temporelle et la notation Big O' }
+    }
+  }
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { ExpressionError, compileExpression } from './mathExpression';
+
+function evaluate(source: string, x = 0): number {
+  return compileExpression(source)(x);
+}
+
+describe('compileExpression', () => {
+  it('follows operator precedence', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('2^3^2')).toBe(512);
+    expect(evaluate('-x^2', 3)).toBe(-9);
+    expect(evaluate('(1 + 2) / 4')).toBe(0.75);
+  });
+
+  it('multiplies implicitly', () => {
+    expect(evaluate('2x', 4)).toBe(8);
+    expect(evaluate('x(x + 1)', 3)).toBe(12);
+    expect(evaluate('3 sin(2t) + 1', Math.PI / 4)).toBeCloseTo(4);
+    expect(evaluate('n log2 n', 8)).toBe(24);
+  });
+
+  it('knows constants, functions and the unicode a model writes', () => {
+    expect(evaluate('log(1000)')).toBeCloseTo(3);
+    expect(evaluate('ln(e)')).toBe(1);
+    expect(evaluate('2π')).toBeCloseTo(2 * Math.PI);
+    expect(evaluate('x² − √(x)', 4)).toBe(14);
+    expect(evaluate('2 ** 3')).toBe(8);
+  });
+
+  it('rejects what it cannot parse with an ExpressionError', () => {
+    for (const source of ['', 'x +', '(x', 'x)', 'foo(x)', 'x; 1', 'x'.repeat(201)]) {
+      expect(() => compileExpression(source), source).toThrow(ExpressionError);
+    }
+  });
+
+  it('never reaches into the global scope', () => {
+    expect(() => compileExpression('constructor')).toThrow(/unknown name "constructor"/);
+    expect(() => compileExpression('tostring(x)')).toThrow(ExpressionError);
+  });
+});
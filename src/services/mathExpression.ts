@@ -0,0 +1,208 @@
+// Math expressions for plot commands, e.g. "x^2", "3 sin(2t) + 1", "n log2 n"
+// Parsed into plain functions - never eval'd - so model output cannot run code.
+// There is one variable; x, t and n are all names for it.
+
+export type CompiledExpression = (x: number) => number;
+
+const VARIABLES = ['x', 't', 'n'];
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E
+};
+
+const FUNCTIONS: Record<string, (value: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  exp: Math.exp,
+  ln: Math.log,
+  // log is base 10, like on a calculator
+  log: Math.log10,
+  log10: Math.log10,
+  log2: Math.log2,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round
+};
+
+const MAX_LENGTH = 200;
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; value: string }
+  | { kind: 'op'; value: string };
+
+// Unicode a model is likely to write, spelled the way the tokenizer understands
+function normalize(source: string): string {
+  return source
+    .toLowerCase()
+    .replace(/\*\*/g, '^')
+    .replace(/[×·]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/[−–]/g, '-')
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .replace(/π/g, 'pi')
+    .replace(/√/g, 'sqrt');
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z]+\d*)|([-+*/^()]))/y;
+  let pos = 0;
+
+  while (pos < source.length) {
+    if (/^\s*$/.test(source.slice(pos))) break;
+    pattern.lastIndex = pos;
+    const match = pattern.exec(source);
+    if (!match) throw new ExpressionError(`unexpected "${source.slice(pos).trim()[0]}"`);
+    pos = pattern.lastIndex;
+
+    if (match[1]) tokens.push({ kind: 'number', value: Number(match[1]) });
+    else if (match[2]) tokens.push({ kind: 'name', value: match[2] });
+    else tokens.push({ kind: 'op', value: match[3] });
+  }
+  return tokens;
+}
+
+// Recursive descent, loosest binding first:
+//   sum     = product (("+" | "-") product)*
+//   product = unary (("*" | "/") unary | unary)*      - "2x" and "x(x + 1)" multiply
+//   unary   = ("-" | "+") unary | power
+//   power   = primary ("^" unary)?                    - right associative, -x^2 is -(x^2)
+//   primary = number | variable | constant | function (primary-or-parens) | "(" sum ")"
+class Parser {
+  private tokens: Token[];
+  private pos = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): CompiledExpression {
+    if (this.tokens.length === 0) throw new ExpressionError('empty expression');
+    const expression = this.sum();
+    const rest = this.peek();
+    if (rest) throw new ExpressionError(`unexpected "${rest.value}"`);
+    return expression;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token?.kind === 'op' && token.value === value;
+  }
+
+  private expect(value: string) {
+    if (!this.isOp(value)) {
+      const token = this.peek();
+      throw new ExpressionError(token ? `expected "${value}" before "${token.value}"` : `missing "${value}"`);
+    }
+    this.pos++;
+  }
+
+  private sum(): CompiledExpression {
+    let left = this.product();
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = (this.tokens[this.pos++] as { value: string }).value;
+      const a = left;
+      const b = this.product();
+      left = op === '+' ? x => a(x) + b(x) : x => a(x) - b(x);
+    }
+    return left;
+  }
+
+  private product(): CompiledExpression {
+    let left = this.unary();
+    for (;;) {
+      const a = left;
+      if (this.isOp('*') || this.isOp('/')) {
+        const op = (this.tokens[this.pos++] as { value: string }).value;
+        const b = this.unary();
+        left = op === '*' ? x => a(x) * b(x) : x => a(x) / b(x);
+      } else if (this.startsOperand()) {
+        const b = this.unary();
+        left = x => a(x) * b(x);
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private startsOperand(): boolean {
+    const token = this.peek();
+    return !!token && (token.kind !== 'op' || token.value === '(');
+  }
+
+  private unary(): CompiledExpression {
+    if (this.isOp('-')) {
+      this.pos++;
+      const a = this.unary();
+      return x => -a(x);
+    }
+    if (this.isOp('+')) {
+      this.pos++;
+      return this.unary();
+    }
+    return this.power();
+  }
+
+  private power(): CompiledExpression {
+    const base = this.primary();
+    if (!this.isOp('^')) return base;
+    this.pos++;
+    const exponent = this.unary();
+    return x => Math.pow(base(x), exponent(x));
+  }
+
+  private primary(): CompiledExpression {
+    const token = this.peek();
+    if (!token) throw new ExpressionError('expression ends too early');
+    this.pos++;
+
+    if (token.kind === 'number') {
+      const value = token.value;
+      return () => value;
+    }
+    if (token.kind === 'op') {
+      if (token.value !== '(') throw new ExpressionError(`unexpected "${token.value}"`);
+      const inner = this.sum();
+      this.expect(')');
+      return inner;
+    }
+
+    const name = token.value;
+    if (VARIABLES.includes(name)) return x => x;
+    if (Object.hasOwn(CONSTANTS, name)) {
+      const value = CONSTANTS[name];
+      return () => value;
+    }
+    const fn = Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+    if (!fn) throw new ExpressionError(`unknown name "${name}" (use x, t or n, pi, e and ${Object.keys(FUNCTIONS).join(', ')})`);
+    // "sin(x)", or "log2 n" without parentheses
+    const argument = this.isOp('(') ? this.primary() : this.power();
+    return x => fn(argument(x));
+  }
+}
+
+// Throws ExpressionError with a message fit to send back to the model
+export function compileExpression(source: string): CompiledExpression {
+  if (source.length > MAX_LENGTH) throw new ExpressionError(`longer than ${MAX_LENGTH} characters`);
+  return new Parser(tokenize(normalize(source))).parse();
+}
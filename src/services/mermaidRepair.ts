@@ -0,0 +1,53 @@
+// Mermaid syntax checking and a log of AI repair attempts
+// Every failure/repair pair is kept so sanitizeMermaidCode rules can be grown from real data
+
+import mermaid from 'mermaid';
+
+export interface MermaidRepairEntry {
+  timestamp: string;
+  question: string;
+  round: number;
+  failedCode: string;
+  parserError: string;
+  repairedCode: string;
+  // Whether the repaired code passed the parser
+  repaired: boolean;
+}
+
+const STORAGE_KEY = 'aitutor.mermaidRepairLog';
+// Keep the log bounded - oldest entries are dropped first
+const MAX_LOG_ENTRIES = 200;
+
+// Returns the parser error message, or null when the diagram compiles
+export async function checkMermaidSyntax(code: string): Promise<string | null> {
+  try {
+    await mermaid.parse(code);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export function logMermaidRepair(entry: Omit<MermaidRepairEntry, 'timestamp'>): void {
+  const fullEntry: MermaidRepairEntry = { timestamp: new Date().toISOString(), ...entry };
+  console.log('Mermaid repair:', fullEntry);
+
+  try {
+    const log = [...getMermaidRepairLog(), fullEntry].slice(-MAX_LOG_ENTRIES);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(log));
+  } catch (error) {
+    console.warn('Could not persist mermaid repair log:', error);
+  }
+}
+
+export function getMermaidRepairLog(): MermaidRepairEntry[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function clearMermaidRepairLog(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { formatTick, tickValues } from './plotGeometry';
+
+describe('tickValues', () => {
+  it('picks a round step for the range', () => {
+    expect(tickValues([0, 10])).toEqual([0, 2, 4, 6, 8, 10]);
+    expect(tickValues([-3, 7], 1)).toEqual([-3, -2, -1, 0, 1, 2, 3, 4, 5, 6, 7]);
+    expect(tickValues([-1, 1], 0.5)).toEqual([-1, -0.5, 0, 0.5, 1]);
+  });
+
+  it('cleans up floating point drift', () => {
+    expect(tickValues([0, 0.5], 0.1)).toEqual([0, 0.1, 0.2, 0.3, 0.4, 0.5]);
+  });
+
+  it('ignores a step that would need too many ticks', () => {
+    expect(tickValues([0, 1000], 1).length).toBeLessThanOrEqual(41);
+  });
+
+  it('stays bounded far from zero', () => {
+    expect(tickValues([1e15, 1e15 + 10]).length).toBeLessThanOrEqual(41);
+  });
+});
+
+describe('formatTick', () => {
+  it('keeps labels short', () => {
+    expect(formatTick(0.30000000000000004)).toBe('0.3');
+    expect(formatTick(1234567)).toBe('1235000');
+  });
+});
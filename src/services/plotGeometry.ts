@@ -0,0 +1,124 @@
+// Geometry for axes and plot commands: graph values -> canvas coordinates inside the command's box
+
+import type { DrawCommand } from '../types';
+import { compileExpression } from './mathExpression';
+
+export type Point = { x: number; y: number };
+
+const DEFAULT_BOX = { w: 400, h: 300 };
+const DEFAULT_RANGE: [number, number] = [0, 10];
+// Samples along an expression's domain - dense enough that no smoothing is needed
+const PLOT_SAMPLES = 200;
+// Roughly this many ticks per axis when no step is given, and never more than the maximum
+const TARGET_TICKS = 5;
+const MAX_TICKS = 40;
+
+export interface GraphFrame {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  xRange: [number, number];
+  yRange: [number, number];
+}
+
+// The box and value ranges shared by an axes command and the plots drawn on it
+export function graphFrame(command: DrawCommand): GraphFrame {
+  return {
+    x: command.x,
+    y: command.y,
+    w: command.props?.w || DEFAULT_BOX.w,
+    h: command.props?.h || DEFAULT_BOX.h,
+    xRange: command.props?.xRange || DEFAULT_RANGE,
+    yRange: command.props?.yRange || DEFAULT_RANGE,
+  };
+}
+
+export function toCanvas(frame: GraphFrame, value: Point): Point {
+  const [xMin, xMax] = frame.xRange;
+  const [yMin, yMax] = frame.yRange;
+  return {
+    x: frame.x + (value.x - xMin) / (xMax - xMin) * frame.w,
+    y: frame.y + frame.h - (value.y - yMin) / (yMax - yMin) * frame.h,
+  };
+}
+
+// Where the other axis crosses: at 0 when it is in range, otherwise along the lower edge
+export function axisOrigin(frame: GraphFrame): Point {
+  const clamp = ([min, max]: [number, number]) => Math.min(Math.max(0, min), max);
+  return { x: clamp(frame.xRange), y: clamp(frame.yRange) };
+}
+
+// 1, 2 or 5 times a power of ten, giving about TARGET_TICKS ticks
+function niceStep(span: number): number {
+  const raw = span / TARGET_TICKS;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  return [1, 2, 5, 10].map(factor => factor * magnitude).find(step => step >= raw) ?? 10 * magnitude;
+}
+
+// Tick values within the range, multiples of the step. The count is bounded: far from 0 a tiny
+// step can be below floating point resolution, so counting up to max might never get there.
+export function tickValues([min, max]: [number, number], step?: number): number[] {
+  const span = max - min;
+  const spacing = step && span / step <= MAX_TICKS ? step : niceStep(span);
+  const first = Math.ceil(min / spacing) * spacing;
+  const ticks: number[] = [];
+  for (let i = 0; i <= MAX_TICKS; i++) {
+    const value = first + i * spacing;
+    if (value > max + spacing * 1e-9) break;
+    // Clean up floating point drift (0.30000000000000004)
+    ticks.push(Number(value.toPrecision(12)));
+  }
+  return ticks;
+}
+
+export function formatTick(value: number): string {
+  return String(Number(value.toPrecision(4)));
+}
+
+// The curve as canvas polylines: an expression sampled over its domain, or the data points in
+// order. The curve is cut where it leaves the y range or is undefined (1/x at 0, sqrt of a
+// negative), so one plot can be several runs.
+export function plotRuns(command: DrawCommand, frame: GraphFrame): Point[][] {
+  const values = plotValues(command, frame);
+  const [yMin, yMax] = frame.yRange;
+  const inside = (value: Point) => Number.isFinite(value.y) && value.y >= yMin && value.y <= yMax;
+  // Where the segment a -> b crosses the top or bottom edge
+  const crossing = (a: Point, b: Point): Point => {
+    const edge = (a.y > yMax || b.y > yMax) ? yMax : yMin;
+    const t = (edge - a.y) / (b.y - a.y);
+    return { x: a.x + (b.x - a.x) * t, y: edge };
+  };
+
+  const runs: Point[][] = [];
+  let run: Point[] = [];
+  values.forEach((value, i) => {
+    const previous = values[i - 1];
+    const bothFinite = previous && Number.isFinite(previous.y) && Number.isFinite(value.y);
+    if (inside(value)) {
+      if (run.length === 0 && bothFinite && !inside(previous)) run.push(crossing(previous, value));
+      run.push(value);
+    } else if (run.length > 0) {
+      if (bothFinite) run.push(crossing(previous, value));
+      runs.push(run);
+      run = [];
+    }
+  });
+  if (run.length > 0) runs.push(run);
+
+  return runs
+    .filter(points => points.length >= 2)
+    .map(points => points.map(point => toCanvas(frame, point)));
+}
+
+function plotValues(command: DrawCommand, frame: GraphFrame): Point[] {
+  const props = command.props || {};
+  if (!props.expression) return props.data || [];
+
+  const evaluate = compileExpression(props.expression);
+  const [from, to] = props.domain || frame.xRange;
+  return Array.from({ length: PLOT_SAMPLES + 1 }, (_, i) => {
+    const x = from + (to - from) * i / PLOT_SAMPLES;
+    return { x, y: evaluate(x) };
+  });
+}
@@ -1,8 +1,12 @@
 // Pre-generated responses for instant demos - no API call needed
 // Each step has narration synced with its draw commands
-// IMPROVED: Better spacing to prevent overlap (100px+ gaps)
+// Spacing: leave 40px+ gaps - overlaps are still caught by the layout pass (canvasLayout.ts)
 
-import type { DrawCommand } from '../types';
+import type { DrawCommand, QuizQuestion } from '../types';
+import { validateDrawCommand, validateQuizQuestion } from './responseSchema';
+import type { SchemaIssue } from './responseSchema';
+import { lessonTranslations } from './lessonTranslations';
+import type { LanguageCode } from './language';
 
 export interface TeachingStep {
   narration: string;
@@ -15,8 +19,24 @@ export interface PreGeneratedTopic {
   taskBreakdown: string[];
   explanation: string;
   steps: TeachingStep[];
+  // Hand-written questions for quiz mode (used instead of generated ones)
+  quiz?: QuizQuestion[];
+  // Hand-written Socratic plan, one prompt per taskBreakdown entry
+  socratic?: SocraticPrompt[];
 }
 
+export interface SocraticPrompt {
+  question: string;
+  expectedInsight: string;
+  hint?: string;
+  // Indices into steps, drawn once the student has reasoned this part through.
+  // Steps before the first prompt's are drawn as the lesson intro.
+  steps: number[];
+}
+
+// Box and value ranges shared by the Time Complexity axes and every curve plotted on them
+const GROWTH_GRAPH = { w: 420, h: 320, xRange: [0, 10] as [number, number], yRange: [0, 30] as [number, number] };
+
 export const preGeneratedTopics: PreGeneratedTopic[] = [
   // ============ NEWTON'S LAWS OF MOTION ============
   {
@@ -68,7 +88,7 @@ Third Law (Action-Reaction): Every action has an equal and opposite reaction.`,
       {
         narration: "More mass needs more force to accelerate. Push harder for heavier objects.",
         drawCommands: [
-          { type: 'arrow', x: 0, y: 0, props: { start: { x: 490, y: 135 }, end: { x: 570, y: 135 }, color: 'red' } },
+          { type: 'arrow', x: 0, y: 0, props: { start: { x: 490, y: 135 }, end: { x: 570, y: 135 }, color: 'red', size: 'l' } },
           { type: 'text', x: 510, y: 115, props: { text: 'Force', color: 'red' } },
           { type: 'text', x: 580, y: 135, props: { text: 'a', color: 'red' } }
         ]
@@ -86,10 +106,52 @@ Third Law (Action-Reaction): Every action has an equal and opposite reaction.`,
         drawCommands: [
           { type: 'arrow', x: 0, y: 0, props: { start: { x: 150, y: 320 }, end: { x: 220, y: 320 }, color: 'green' } },
           { type: 'rectangle', x: 230, y: 280, props: { w: 25, h: 90, color: 'grey' } },
-          { type: 'arrow', x: 0, y: 0, props: { start: { x: 220, y: 340 }, end: { x: 150, y: 340 }, color: 'red' } },
+          { type: 'arrow', x: 0, y: 0, props: { start: { x: 220, y: 340 }, end: { x: 150, y: 340 }, color: 'red', dash: 'dashed' } },
           { type: 'text', x: 265, y: 320, props: { text: 'Wall', color: 'grey' } }
         ]
       }
+    ],
+    quiz: [
+      {
+        kind: 'multiple-choice',
+        question: 'A hockey puck slides across frictionless ice. What happens to it?',
+        choices: ['It slows down and stops', 'It keeps moving at the same speed', 'It speeds up', 'It curves to the side'],
+        answer: 'It keeps moving at the same speed',
+        explanation: 'With no force acting on it, the first law says its motion does not change.'
+      },
+      {
+        kind: 'numeric',
+        question: 'What force in newtons accelerates a 4 kg box at 3 m/s²?',
+        answer: '12',
+        tolerance: 0.1,
+        explanation: 'F = ma = 4 × 3 = 12 N.'
+      },
+      {
+        kind: 'short-answer',
+        question: 'You push on a wall with 50 N. What does the wall do?',
+        answer: 'The wall pushes back on you with an equal 50 N force in the opposite direction.',
+        explanation: 'Third law: forces come in equal and opposite pairs.'
+      }
+    ],
+    socratic: [
+      {
+        question: 'Picture a ball resting on the floor. What has to happen for it to start moving? And once it rolls, what would make it stop?',
+        expectedInsight: 'An object stays at rest, or keeps moving at the same speed, unless an outside force acts on it.',
+        hint: 'Think of a puck sliding on ice, where there is almost no friction. Why does it glide so far?',
+        steps: [1, 2]
+      },
+      {
+        question: 'You push an empty shopping cart and a full one equally hard. Which one speeds up faster, and why?',
+        expectedInsight: 'The empty cart accelerates more: acceleration depends on force and mass, so more mass needs more force (F = ma).',
+        hint: 'Which cart is harder to get moving? What is different about them?',
+        steps: [3, 4]
+      },
+      {
+        question: "When you push against a wall, why don't you just move through it? What is the wall doing to you?",
+        expectedInsight: 'The wall pushes back on you with an equal force in the opposite direction.',
+        hint: 'Notice what you feel in your hands while you push.',
+        steps: [5, 6]
+      }
     ]
   },
 
@@ -123,55 +185,77 @@ Output: Monitor and speakers display results.`,
         narration: "First, input devices. Keyboard and mouse send your commands into the computer.",
         drawCommands: [
           { type: 'text', x: 30, y: 70, props: { text: 'INPUT', color: 'green' } },
-          { type: 'rectangle', x: 30, y: 100, props: { w: 90, h: 45, color: 'green' } },
+          { type: 'image', id: 'keyboard', x: 52, y: 100, props: { icon: '⌨️', w: 45, h: 45 } },
           { type: 'text', x: 40, y: 165, props: { text: 'Keyboard', color: 'green' } },
-          { type: 'rectangle', x: 30, y: 200, props: { w: 90, h: 45, color: 'green' } },
+          { type: 'image', id: 'mouse', x: 52, y: 200, props: { icon: '🖱️', w: 45, h: 45 } },
           { type: 'text', x: 50, y: 265, props: { text: 'Mouse', color: 'green' } }
         ]
       },
       {
-        narration: "Data flows from input to the CPU through these connections.",
+        narration: "The CPU is the brain. It processes all instructions and calculations.",
         drawCommands: [
-          { type: 'arrow', x: 0, y: 0, props: { start: { x: 130, y: 120 }, end: { x: 200, y: 160 }, color: 'green' } },
-          { type: 'arrow', x: 0, y: 0, props: { start: { x: 130, y: 220 }, end: { x: 200, y: 180 }, color: 'green' } }
+          { type: 'rectangle', id: 'cpu', x: 210, y: 120, props: { w: 120, h: 80, color: 'blue' } },
+          { type: 'text', x: 250, y: 155, props: { text: 'CPU', color: 'black' } },
+          { type: 'text', x: 0, y: 0, props: { text: 'Processor', color: 'blue', below: 'cpu', gap: 16 } }
         ]
       },
       {
-        narration: "The CPU is the brain. It processes all instructions and calculations.",
+        narration: "Data flows from input to the CPU through these connections.",
         drawCommands: [
-          { type: 'rectangle', x: 210, y: 120, props: { w: 120, h: 80, color: 'blue' } },
-          { type: 'text', x: 250, y: 155, props: { text: 'CPU', color: 'black' } },
-          { type: 'text', x: 235, y: 220, props: { text: 'Processor', color: 'blue' } }
+          { type: 'arrow', x: 0, y: 0, props: { from: 'keyboard', to: 'cpu', color: 'green' } },
+          { type: 'arrow', x: 0, y: 0, props: { from: 'mouse', to: 'cpu', color: 'green' } }
         ]
       },
       {
         narration: "Memory works with the CPU. RAM is fast temporary storage.",
         drawCommands: [
-          { type: 'rectangle', x: 210, y: 280, props: { w: 120, h: 50, color: 'orange' } },
+          { type: 'rectangle', id: 'ram', x: 210, y: 280, props: { w: 120, h: 50, color: 'orange' } },
           { type: 'text', x: 250, y: 300, props: { text: 'RAM', color: 'black' } },
-          { type: 'arrow', x: 0, y: 0, props: { start: { x: 270, y: 210 }, end: { x: 270, y: 270 }, color: 'orange' } }
+          { type: 'arrow', x: 0, y: 0, props: { from: 'cpu', to: 'ram', color: 'orange' } }
         ]
       },
       {
         narration: "Storage keeps data permanently. Your files stay even when power is off.",
         drawCommands: [
-          { type: 'rectangle', x: 210, y: 360, props: { w: 120, h: 50, color: 'grey' } },
+          { type: 'rectangle', id: 'storage', x: 210, y: 360, props: { w: 120, h: 50, color: 'grey' } },
           { type: 'text', x: 230, y: 380, props: { text: 'Storage', color: 'black' } },
-          { type: 'arrow', x: 0, y: 0, props: { start: { x: 270, y: 340 }, end: { x: 270, y: 355 }, color: 'grey' } }
+          { type: 'arrow', x: 0, y: 0, props: { from: 'ram', to: 'storage', color: 'grey' } }
         ]
       },
       {
         narration: "Finally, output devices show you the results. Monitor displays, speakers play sound.",
         drawCommands: [
-          { type: 'arrow', x: 0, y: 0, props: { start: { x: 340, y: 150 }, end: { x: 420, y: 120 }, color: 'red' } },
-          { type: 'arrow', x: 0, y: 0, props: { start: { x: 340, y: 170 }, end: { x: 420, y: 220 }, color: 'red' } },
           { type: 'text', x: 430, y: 70, props: { text: 'OUTPUT', color: 'red' } },
-          { type: 'rectangle', x: 430, y: 100, props: { w: 90, h: 45, color: 'red' } },
+          { type: 'image', id: 'monitor', x: 452, y: 100, props: { icon: '🖥️', w: 45, h: 45 } },
           { type: 'text', x: 445, y: 165, props: { text: 'Monitor', color: 'red' } },
-          { type: 'rectangle', x: 430, y: 200, props: { w: 90, h: 45, color: 'red' } },
-          { type: 'text', x: 440, y: 265, props: { text: 'Speakers', color: 'red' } }
+          { type: 'image', id: 'speakers', x: 452, y: 200, props: { icon: '🔊', w: 45, h: 45 } },
+          { type: 'text', x: 440, y: 265, props: { text: 'Speakers', color: 'red' } },
+          { type: 'arrow', x: 0, y: 0, props: { from: 'cpu', to: 'monitor', color: 'red' } },
+          { type: 'arrow', x: 0, y: 0, props: { from: 'cpu', to: 'speakers', color: 'red' } }
         ]
       }
+    ],
+    quiz: [
+      {
+        kind: 'multiple-choice',
+        question: 'Which part executes program instructions?',
+        choices: ['Keyboard', 'CPU', 'Hard drive', 'Monitor'],
+        answer: 'CPU',
+        explanation: 'The CPU fetches, decodes and executes instructions.'
+      },
+      {
+        kind: 'multiple-choice',
+        question: 'What happens to the contents of RAM when the computer turns off?',
+        choices: ['They are erased', 'They move to the CPU', 'They are kept forever', 'They are printed'],
+        answer: 'They are erased',
+        explanation: 'RAM is volatile memory; storage keeps data without power.'
+      },
+      {
+        kind: 'short-answer',
+        question: 'Name one input device and one output device.',
+        answer: 'A keyboard or mouse is an input device; a monitor or speakers are output devices.',
+        explanation: 'Input devices send data in, output devices present results.'
+      }
     ]
   },
 
@@ -204,80 +288,183 @@ O(n squared) Quadratic: Slow for large input. Nested loops.`,
       {
         narration: "Here's a graph. X axis is input size, Y axis is time taken.",
         drawCommands: [
-          { type: 'arrow', x: 0, y: 0, props: { start: { x: 80, y: 400 }, end: { x: 80, y: 80 }, color: 'black' } },
-          { type: 'arrow', x: 0, y: 0, props: { start: { x: 80, y: 400 }, end: { x: 500, y: 400 }, color: 'black' } },
-          { type: 'text', x: 40, y: 70, props: { text: 'Time', color: 'black' } },
-          { type: 'text', x: 460, y: 420, props: { text: 'Input n', color: 'black' } }
+          { type: 'axes', x: 80, y: 80, props: { ...GROWTH_GRAPH, xStep: 2, yStep: 10 } },
+          { type: 'text', x: 60, y: 40, props: { text: 'Time', color: 'black' } },
+          { type: 'text', x: 430, y: 435, props: { text: 'Input n', color: 'black' } }
         ]
       },
       {
         narration: "O of 1 is constant. A flat line. Time never changes. Like accessing array by index.",
         drawCommands: [
-          { type: 'line', x: 0, y: 0, props: { start: { x: 80, y: 380 }, end: { x: 450, y: 380 }, color: 'green' } },
-          { type: 'text', x: 460, y: 380, props: { text: 'O(1)', color: 'green' } }
+          { type: 'plot', x: 80, y: 80, props: { ...GROWTH_GRAPH, expression: '2', color: 'green' } },
+          { type: 'text', x: 510, y: 368, props: { text: 'O(1)', color: 'green' } }
         ]
       },
       {
         narration: "O of log n grows slowly. Binary search uses this. Very efficient.",
         drawCommands: [
-          { type: 'circle', x: 120, y: 350, props: { radius: 4, color: 'blue' } },
-          { type: 'circle', x: 200, y: 320, props: { radius: 4, color: 'blue' } },
-          { type: 'circle', x: 320, y: 300, props: { radius: 4, color: 'blue' } },
-          { type: 'circle', x: 450, y: 290, props: { radius: 4, color: 'blue' } },
-          { type: 'text', x: 460, y: 290, props: { text: 'O(log n)', color: 'blue' } }
+          { type: 'plot', x: 80, y: 80, props: { ...GROWTH_GRAPH, expression: '4 log2(n + 1)', color: 'blue' } },
+          { type: 'text', x: 510, y: 242, props: { text: 'O(log n)', color: 'blue' } }
         ]
       },
       {
         narration: "O of n is linear. A diagonal line. Time grows directly with input size.",
         drawCommands: [
-          { type: 'line', x: 0, y: 0, props: { start: { x: 80, y: 380 }, end: { x: 350, y: 180 }, color: 'orange' } },
-          { type: 'text', x: 360, y: 180, props: { text: 'O(n)', color: 'orange' } }
+          { type: 'plot', x: 80, y: 80, props: { ...GROWTH_GRAPH, expression: '2n', color: 'orange' } },
+          { type: 'text', x: 510, y: 177, props: { text: 'O(n)', color: 'orange' } }
         ]
       },
       {
         narration: "O of n squared grows very fast. Nested loops cause this. Avoid for large data.",
         drawCommands: [
-          { type: 'circle', x: 100, y: 370, props: { radius: 4, color: 'red' } },
-          { type: 'circle', x: 140, y: 320, props: { radius: 4, color: 'red' } },
-          { type: 'circle', x: 180, y: 230, props: { radius: 4, color: 'red' } },
-          { type: 'circle', x: 220, y: 100, props: { radius: 4, color: 'red' } },
-          { type: 'text', x: 230, y: 90, props: { text: 'O(n²)', color: 'red' } }
+          { type: 'plot', x: 80, y: 80, props: { ...GROWTH_GRAPH, expression: 'n^2', color: 'red' } },
+          { type: 'text', x: 330, y: 84, props: { text: 'O(n²)', color: 'red' } }
         ]
       },
       {
         narration: "Summary: O 1 is best, log n is great, n is okay, n squared is slow.",
         drawCommands: [
-          { type: 'text', x: 520, y: 120, props: { text: 'BEST', color: 'green' } },
-          { type: 'text', x: 520, y: 150, props: { text: 'O(1)', color: 'green' } },
-          { type: 'text', x: 520, y: 200, props: { text: 'O(log n)', color: 'blue' } },
-          { type: 'text', x: 520, y: 250, props: { text: 'O(n)', color: 'orange' } },
-          { type: 'text', x: 520, y: 300, props: { text: 'O(n²)', color: 'red' } },
-          { type: 'text', x: 520, y: 330, props: { text: 'WORST', color: 'red' } }
+          { type: 'bracket', x: 0, y: 0, props: { start: { x: 605, y: 115 }, end: { x: 605, y: 345 }, color: 'black' } },
+          { type: 'text', x: 620, y: 120, props: { text: 'BEST', color: 'green' } },
+          { type: 'star', x: 675, y: 120, props: { w: 24, h: 24, color: 'green' } },
+          { type: 'text', x: 620, y: 150, props: { text: 'O(1)', color: 'green' } },
+          { type: 'text', x: 620, y: 200, props: { text: 'O(log n)', color: 'blue' } },
+          { type: 'text', x: 620, y: 250, props: { text: 'O(n)', color: 'orange' } },
+          { type: 'text', x: 620, y: 300, props: { text: 'O(n²)', color: 'red' } },
+          { type: 'text', x: 620, y: 330, props: { text: 'WORST', color: 'red' } }
         ]
       }
+    ],
+    quiz: [
+      {
+        kind: 'multiple-choice',
+        question: 'Reading the first element of an array takes how long?',
+        choices: ['O(1)', 'O(log n)', 'O(n)', 'O(n²)'],
+        answer: 'O(1)',
+        explanation: 'Array access by index takes the same time no matter how big the array is.'
+      },
+      {
+        kind: 'numeric',
+        question: 'An O(n²) algorithm does 100 steps for 10 items. About how many steps for 20 items?',
+        answer: '400',
+        tolerance: 0,
+        explanation: 'Doubling n quadruples n²: 20² = 400.'
+      },
+      {
+        kind: 'short-answer',
+        question: 'Why is searching an unsorted list O(n)?',
+        answer: 'In the worst case you have to check every item once, so the work grows linearly with n.',
+        explanation: 'Linear time means the steps grow in proportion to the input size.'
+      }
     ]
   }
 ];
 
-// Find a pre-generated topic by matching keywords in the query
-export function findPreGeneratedTopic(query: string): PreGeneratedTopic | null {
+// Find a pre-generated topic by matching keywords in the query (English or translated),
+// returned in the tutoring language. `loose` accepts any single keyword - used once a session's
+// budget is spent, when a close-enough built-in lesson beats another paid answer.
+export function findPreGeneratedTopic(query: string, language: LanguageCode = 'en', loose = false): PreGeneratedTopic | null {
   const lowerQuery = query.toLowerCase();
   
   for (const topic of preGeneratedTopics) {
-    const matchCount = topic.keywords.filter(keyword => lowerQuery.includes(keyword)).length;
-    if (matchCount >= 2 || (matchCount === 1 && lowerQuery.length < 50)) {
-      return topic;
+    const keywords = [...topic.keywords, ...(lessonTranslations[topic.topic]?.[language]?.keywords || [])];
+    const matchCount = new Set(keywords.filter(keyword => lowerQuery.includes(keyword))).size;
+    if (matchCount >= 2 || (matchCount === 1 && (loose || lowerQuery.length < 50))) {
+      return localizeTopic(topic, language);
     }
   }
   
   return null;
 }
 
-// Get all quick prompt suggestions
-export function getQuickPrompts(): { label: string; query: string }[] {
-  return [
-    { label: "Newton's Laws", query: "Explain Newton's laws of motion" },
-    { label: "Computer System", query: "Explain how a computer system works" },
-    { label: "Time Complexity", query: "Explain time complexity and Big O notation" }
-  ];
+export function getPreGeneratedTopicByName(topic: string, language: LanguageCode = 'en'): PreGeneratedTopic | null {
+  const found = preGeneratedTopics.find(t => t.topic === topic);
+  return found ? localizeTopic(found, language) : null;
+}
+
+// Swap in the translated text; without a translation the topic is not used at all outside English,
+// so the AI answers in the student's language instead of playing the English lesson
+function localizeTopic(topic: PreGeneratedTopic, language: LanguageCode): PreGeneratedTopic | null {
+  if (language === 'en') return topic;
+  const translation = lessonTranslations[topic.topic]?.[language];
+  // A step narrated in English would not match the rest of the lesson
+  if (!translation || topic.steps.some(step => !translation.narrations[step.narration])) return null;
+
+  return {
+    keywords: translation.keywords,
+    topic: topic.topic,
+    taskBreakdown: translation.taskBreakdown,
+    explanation: translation.explanation,
+    steps: topic.steps.map(step => ({
+      narration: translation.narrations[step.narration],
+      drawCommands: step.drawCommands.map(command => {
+        const text = command.props?.text;
+        return text && translation.labels[text]
+          ? { ...command, props: { ...command.props, text: translation.labels[text] } }
+          : command;
+      })
+    }))
+    // Quiz banks and Socratic plans are English-only; quiz and Socratic mode generate them instead
+  };
+}
+
+// Check every pre-generated draw command and quiz question against the same contract as AI output
+export function validatePreGeneratedTopics(): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  preGeneratedTopics.forEach(topic => {
+    topic.steps.forEach((step, stepIndex) => {
+      step.drawCommands.forEach((command, commandIndex) => {
+        const result = validateDrawCommand(command, `${topic.topic}.steps[${stepIndex}].drawCommands[${commandIndex}]`);
+        issues.push(...result.issues);
+      });
+    });
+    topic.quiz?.forEach((question, i) => {
+      issues.push(...validateQuizQuestion(question, `${topic.topic}.quiz[${i}]`).issues);
+    });
+    if (topic.socratic && topic.socratic.length !== topic.taskBreakdown.length) {
+      issues.push({ path: `${topic.topic}.socratic`, message: 'needs one prompt per taskBreakdown entry' });
+    }
+    topic.socratic?.forEach((prompt, i) => {
+      if (prompt.steps.some(step => !topic.steps[step])) {
+        issues.push({ path: `${topic.topic}.socratic[${i}].steps`, message: 'references a step that does not exist' });
+      }
+    });
+    Object.entries(lessonTranslations[topic.topic] || {}).forEach(([language, translation]) => {
+      const path = `${topic.topic}.translations.${language}`;
+      const narrations = new Set(topic.steps.map(step => step.narration));
+      topic.steps.forEach((step, i) => {
+        if (!translation.narrations[step.narration]) {
+          issues.push({ path: `${path}.narrations`, message: `has no translation of step ${i + 1}: "${step.narration}"` });
+        }
+      });
+      Object.keys(translation.narrations).filter(english => !narrations.has(english)).forEach(english => {
+        issues.push({ path: `${path}.narrations`, message: `translates a narration no step has (edited or removed?): "${english}"` });
+      });
+      if (translation.taskBreakdown.length !== topic.taskBreakdown.length) {
+        issues.push({ path: `${path}.taskBreakdown`, message: 'must have as many entries as the English lesson' });
+      }
+    });
+  });
+
+  return issues;
+}
+
+if (import.meta.env.DEV) {
+  const issues = validatePreGeneratedTopics();
+  if (issues.length > 0) {
+    console.warn('Pre-generated topics failed validation:', issues);
+  }
+}
+
+// Get all quick prompt suggestions, translated where a translated lesson exists
+export function getQuickPrompts(language: LanguageCode = 'en'): { label: string; query: string }[] {
+  const prompts: Record<string, { label: string; query: string }> = {
+    'newtons-laws': { label: "Newton's Laws", query: "Explain Newton's laws of motion" },
+    'computer-system': { label: "Computer System", query: "Explain how a computer system works" },
+    'time-complexity': { label: "Time Complexity", query: "Explain time complexity and Big O notation" }
+  };
+  return Object.entries(prompts).map(([topic, prompt]) =>
+    (language !== 'en' && lessonTranslations[topic]?.[language]?.quickPrompt) || prompt
+  );
 }
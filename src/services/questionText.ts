@@ -0,0 +1,16 @@
+// Question normalisation shared by the browser's response cache and the server's shared cache,
+// so both file an answer under the same question however it was typed
+
+// Politeness and filler that do not change what is being asked
+const FILLER_PREFIX = /^(please |can you |could you |would you |hey |hi |tutor )+/;
+
+export function normalizeQuestion(question: string): string {
+  return question
+    .toLowerCase()
+    .normalize('NFKC')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(FILLER_PREFIX, '')
+    .trim();
+}
@@ -0,0 +1,259 @@
+// Quiz mode - checks understanding of the current topic
+// Questions come from a pre-generated topic's hand-written bank when it has one, otherwise from
+// the model. Multiple-choice and numeric answers are graded locally; the model is only asked
+// for short answers and for explaining (and drawing) what went wrong.
+
+import type { ChatMessage, QuizGrade, QuizQuestion } from '../types';
+import { requestCompletion } from './apiClient';
+import { formatSchemaIssues, validateQuizGrade, validateQuizQuestion } from './responseSchema';
+import type { PreGeneratedTopic } from './preGeneratedTopics';
+import type { TutorSession } from './tutorSession';
+import { buildLanguagePrompt } from './language';
+
+export interface QuizAnswerRecord {
+  question: QuizQuestion;
+  answer: string;
+  grade: QuizGrade;
+}
+
+export interface Quiz {
+  topic: string;
+  questions: QuizQuestion[];
+  // Index of the question waiting for an answer
+  index: number;
+  results: QuizAnswerRecord[];
+  source: 'bank' | 'ai';
+}
+
+export interface QuizSource {
+  topic: string;
+  taskBreakdown?: string[];
+  preGenerated?: PreGeneratedTopic | null;
+}
+
+const DEFAULT_QUESTION_COUNT = 4;
+// Numeric answers within 1% of the expected value count when no tolerance is given
+const DEFAULT_RELATIVE_TOLERANCE = 0.01;
+
+const QUIZ_PROMPT = `You are an expert AI tutor writing a short quiz to check a student's understanding.
+
+RESPOND WITH ONLY A JSON OBJECT (no markdown):
+
+{
+  "questions": [
+    {"kind": "multiple-choice", "question": "...", "choices": ["...", "...", "...", "..."], "answer": "exact text of the correct choice", "explanation": "why"},
+    {"kind": "numeric", "question": "...", "answer": "42", "tolerance": 0.5, "explanation": "why"},
+    {"kind": "short-answer", "question": "...", "answer": "model answer in one sentence", "explanation": "why"}
+  ]
+}
+
+RULES:
+- Only ask about what the lesson covered, one question per learning step where possible
+- Mix the kinds; numeric questions must have a single number as the answer
+- Multiple-choice: 3-4 plausible choices, exactly one correct
+- Keep questions short enough to read aloud`;
+
+const GRADING_PROMPT = `You are an expert AI tutor grading one quiz answer.
+
+RESPOND WITH ONLY A JSON OBJECT (no markdown):
+
+{
+  "correct": true or false,
+  "feedback": "1-3 sentences: confirm, or explain the mistake and the right idea",
+  "drawCommands": []
+}
+
+RULES:
+- Accept answers that are right in substance even if worded differently
+- For a wrong answer, add a small corrective diagram in drawCommands when a picture helps (max 8 commands)
+- Draw command format: {"type": "circle|rectangle|triangle|star|diamond|arrow|text|line|freehand|formula|note|axes|plot", "x": 0, "y": 0, "props": {...}}
+  circle props: radius, color; rectangle: w, h, color; text: text, color; arrow/line: start {x,y}, end {x,y}, color
+  optional top-level "id" (e.g. "cpu"); props.below/above/leftOf/rightOf: "<id>" (and gap) replace x/y; arrow/line from/to ids replace start/end
+  freehand: points [{x,y}, ...] in page coordinates, color - for curves and sketches
+  triangle/star/diamond: w, h, color (x/y top-left); note: text - a sticky note; optional fill, dash (dashed, dotted)
+  axes: w, h, xRange [min, max], yRange, xLabel, yLabel (x/y top-left of the box); plot: the same box and ranges plus expression ("x^2") or data [{x,y}], color
+  formula: latex (LaTeX without $, backslashes escaped for JSON), color - use it for every equation
+- Canvas: 800x600, colors: red, blue, green, orange, black, violet
+- Leave drawCommands empty for correct answers or in text-only mode`;
+
+// System prompt plus the session's language instruction, if any
+function withLanguage(systemPrompt: string, session: TutorSession): ChatMessage[] {
+  const languageMessage = buildLanguagePrompt(session.language);
+  return [
+    { role: 'system', content: systemPrompt },
+    ...(languageMessage ? [{ role: 'system' as const, content: languageMessage }] : [])
+  ];
+}
+
+function isCompleteQuestion(question: QuizQuestion | null): question is QuizQuestion {
+  return !!question;
+}
+
+export async function createQuiz(
+  source: QuizSource,
+  session: TutorSession,
+  count = DEFAULT_QUESTION_COUNT
+): Promise<Quiz> {
+  const bank = source.preGenerated?.quiz;
+  if (bank && bank.length > 0) {
+    return { topic: source.topic, questions: bank.slice(0, count), index: 0, results: [], source: 'bank' };
+  }
+
+  const steps = source.taskBreakdown?.length
+    ? `\nLearning steps covered:\n${source.taskBreakdown.join('\n')}`
+    : '';
+  const concepts = session.memory.getConcepts();
+  const covered = concepts.length > 0 ? `\nConcepts already covered: ${concepts.join('; ')}` : '';
+
+  const { text } = await requestCompletion('canvas', [
+    ...withLanguage(QUIZ_PROMPT, session),
+    { role: 'user', content: `Write ${count} questions about "${source.topic}".${steps}${covered}` }
+  ], { session });
+
+  const parsed = JSON.parse(text) as { questions?: unknown };
+  const rawQuestions = Array.isArray(parsed.questions) ? parsed.questions : [];
+  const questions = rawQuestions
+    .map((raw, i) => {
+      const result = validateQuizQuestion(raw, `questions[${i}]`);
+      if (result.issues.length > 0) console.warn(`Dropped quiz question:\n${formatSchemaIssues(result.issues)}`);
+      return result.value;
+    })
+    .filter(isCompleteQuestion)
+    .slice(0, count);
+
+  if (questions.length === 0) {
+    throw new Error('Quiz generation returned no usable questions');
+  }
+  return { topic: source.topic, questions, index: 0, results: [], source: 'ai' };
+}
+
+// Question text as shown in chat and read aloud
+export function formatQuestion(quiz: Quiz): string {
+  const question = quiz.questions[quiz.index];
+  const header = `Question ${quiz.index + 1} of ${quiz.questions.length}: ${question.question}`;
+  if (question.kind !== 'multiple-choice' || !question.choices) return header;
+
+  const choices = question.choices.map((choice, i) => `${String.fromCharCode(65 + i)}) ${choice}`);
+  return `${header}\n${choices.join('\n')}`;
+}
+
+// Map a typed or spoken reply ("b", "option B", "2", or the choice text) onto a choice
+export function resolveChoice(question: QuizQuestion, reply: string): string | null {
+  const choices = question.choices || [];
+  const cleaned = reply.trim().toLowerCase().replace(/[.!?]+$/, '');
+
+  const exact = choices.find(choice => choice.toLowerCase() === cleaned);
+  if (exact) return exact;
+
+  const letter = cleaned.match(/^(?:option|answer|choice|letter)?\s*\(?([a-z])\)?$/);
+  if (letter) return choices[letter[1].charCodeAt(0) - 97] ?? null;
+
+  const number = cleaned.match(/^(?:option|answer|choice|number)?\s*(\d+)$/);
+  if (number) return choices[Number(number[1]) - 1] ?? null;
+
+  // Spoken replies often wrap the choice in a sentence
+  return choices.find(choice => cleaned.includes(choice.toLowerCase())) ?? null;
+}
+
+function parseNumber(reply: string): number | null {
+  // Speech recognition writes "1,000" and "3.5"; strip thousands separators first
+  const match = reply.replace(/(\d),(\d{3})/g, '$1$2').match(/-?\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+// Deterministic grading for kinds that have one right answer; null means the model must decide
+function gradeLocally(question: QuizQuestion, reply: string): boolean | null {
+  if (question.kind === 'multiple-choice') {
+    const choice = resolveChoice(question, reply);
+    return choice === null ? false : choice === question.answer;
+  }
+  if (question.kind === 'numeric') {
+    const value = parseNumber(reply);
+    const expected = Number(question.answer);
+    if (value === null) return false;
+    const tolerance = question.tolerance ?? Math.abs(expected) * DEFAULT_RELATIVE_TOLERANCE;
+    return Math.abs(value - expected) <= tolerance;
+  }
+  return null;
+}
+
+function fallbackFeedback(question: QuizQuestion, correct: boolean): string {
+  const reason = question.explanation ? ` ${question.explanation}` : '';
+  return correct
+    ? `Correct!${reason}`
+    : `Not quite. The answer is ${question.answer}.${reason}`;
+}
+
+export async function gradeAnswer(
+  question: QuizQuestion,
+  reply: string,
+  session: TutorSession
+): Promise<QuizGrade> {
+  const { mode } = session;
+  const localVerdict = gradeLocally(question, reply);
+  if (localVerdict === true) {
+    return { correct: true, feedback: fallbackFeedback(question, true) };
+  }
+
+  const context = [
+    `Question (${question.kind}): ${question.question}`,
+    question.choices ? `Choices: ${question.choices.join(' | ')}` : '',
+    `Expected answer: ${question.answer}`,
+    question.explanation ? `Reference explanation: ${question.explanation}` : '',
+    `Student's answer: ${reply}`,
+    localVerdict === false ? 'The answer has already been marked wrong. Explain the mistake.' : '',
+    mode === 'canvas' ? '' : 'Text-only mode: no drawCommands.'
+  ].filter(Boolean).join('\n');
+
+  try {
+    const { text } = await requestCompletion('canvas', [
+      ...withLanguage(GRADING_PROMPT, session),
+      { role: 'user', content: context }
+    ], { session });
+    const { value, issues } = validateQuizGrade(JSON.parse(text));
+    if (issues.length > 0) console.warn(`Quiz grade issues:\n${formatSchemaIssues(issues)}`);
+    if (!value) throw new Error('Unusable grading response');
+
+    // Local verdicts are authoritative; the model only contributes the explanation and diagram
+    const correct = localVerdict ?? value.correct;
+    return {
+      correct,
+      feedback: value.feedback,
+      drawCommands: !correct && mode === 'canvas' ? value.drawCommands : []
+    };
+  } catch (error) {
+    console.warn('AI grading failed, using the reference answer:', error);
+    const correct = localVerdict ?? looselyMatches(question.answer, reply);
+    return { correct, feedback: fallbackFeedback(question, correct) };
+  }
+}
+
+// Offline fallback for free-text answers: most of the model answer's key words are present
+export function looselyMatches(expected: string, reply: string): boolean {
+  const words = (text: string) => text.toLowerCase().match(/[a-z0-9]{4,}/g) || [];
+  const keyWords = new Set(words(expected));
+  if (keyWords.size === 0) return false;
+  const replyWords = new Set(words(reply));
+  const hits = [...keyWords].filter(word => replyWords.has(word)).length;
+  return hits / keyWords.size >= 0.6;
+}
+
+// Record the answer and move on; returns the updated quiz (the input is not mutated)
+export function recordAnswer(quiz: Quiz, answer: string, grade: QuizGrade): Quiz {
+  return {
+    ...quiz,
+    index: quiz.index + 1,
+    results: [...quiz.results, { question: quiz.questions[quiz.index], answer, grade }]
+  };
+}
+
+export function isQuizFinished(quiz: Quiz): boolean {
+  return quiz.index >= quiz.questions.length;
+}
+
+export function summarizeQuiz(quiz: Quiz): string {
+  const score = quiz.results.filter(result => result.grade.correct).length;
+  const missed = quiz.results.filter(result => !result.grade.correct).map(result => `- ${result.question.question}`);
+  const review = missed.length > 0 ? `\n\nWorth reviewing:\n${missed.join('\n')}` : '\n\nPerfect score - well done!';
+  return `Quiz finished: ${score} of ${quiz.results.length} correct on "${quiz.topic}".${review}`;
+}
@@ -0,0 +1,90 @@
+// Persistent cache for AI lessons and diagrams, stored in IndexedDB
+// Keyed by normalized question + mode + model + prompt version, so a prompt or model change
+// never serves stale answers. That key is the only invalidation: there is no clearing by hand,
+// entries simply expire after CACHE_TTL_MS, and bumping PROMPT_VERSION retires all of them.
+// Sits next to the pre-generated topics as a fast path before the network.
+
+import type { LLMMode } from '../types';
+import { normalizeQuestion } from './questionText';
+
+export interface CacheKeyParts {
+  question: string;
+  mode: LLMMode;
+  model: string;
+  promptVersion: number;
+  // Learner profile signature - lessons are written for a specific audience
+  audience: string;
+  language: string;
+  // Course notes signature - answers grounded in uploaded notes change when the notes do
+  notes?: string;
+}
+
+interface CacheEntry<T> {
+  key: string;
+  value: T;
+  createdAt: number;
+  expiresAt: number;
+}
+
+const DB_NAME = 'aitutor';
+const STORE_NAME = 'responses';
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+export const CACHE_TTL_MS = (Number(import.meta.env.VITE_CACHE_TTL_HOURS) || DEFAULT_TTL_HOURS) * 3_600_000;
+
+export function buildCacheKey({ question, mode, model, promptVersion, audience, language, notes }: CacheKeyParts): string {
+  const notesPart = notes ? `notes:${notes}|` : '';
+  return `v${promptVersion}|${mode}|${model}|${language}|${audience}|${notesPart}${normalizeQuestion(question)}`;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+// Run one request against the store and resolve with its result
+async function withStore<R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getCachedResponse<T>(parts: CacheKeyParts): Promise<T | null> {
+  const key = buildCacheKey(parts);
+  try {
+    const entry = await withStore<CacheEntry<T> | undefined>('readonly', store => store.get(key));
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      await withStore('readwrite', store => store.delete(key));
+      return null;
+    }
+    return entry.value;
+  } catch (error) {
+    console.warn('Response cache read failed:', error);
+    return null;
+  }
+}
+
+export async function putCachedResponse<T>(parts: CacheKeyParts, value: T, ttlMs = CACHE_TTL_MS): Promise<void> {
+  const now = Date.now();
+  const entry: CacheEntry<T> = { key: buildCacheKey(parts), value, createdAt: now, expiresAt: now + ttlMs };
+  try {
+    await withStore('readwrite', store => store.put(entry));
+  } catch (error) {
+    console.warn('Response cache write failed:', error);
+  }
+}
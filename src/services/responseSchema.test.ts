@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { validateAIResponse, validateDrawCommand } from './responseSchema';
+
+function messages(input: unknown): string[] {
+  return validateDrawCommand(input).issues.map(issue => `${issue.path}: ${issue.message}`);
+}
+
+describe('validateDrawCommand', () => {
+  it('accepts a valid command and normalizes aliases and numeric strings', () => {
+    const { value, issues } = validateDrawCommand({ type: 'circle', x: '100', y: 80, props: { radius: 20, color: 'blue' } });
+    expect(issues).toEqual([]);
+    expect(value).toEqual({ type: 'circle', x: 100, y: 80, props: { radius: 20, color: 'blue' } });
+  });
+
+  it('rejects unknown types', () => {
+    expect(validateDrawCommand({ type: 'hexapod', x: 0, y: 0 }).value).toBeNull();
+    expect(messages({ type: 'hexapod', x: 0, y: 0 })[0]).toMatch(/^drawCommand\.type: unknown type/);
+  });
+
+  it('requires x and y unless the shape is placed next to another one', () => {
+    expect(messages({ type: 'rectangle' })).toEqual([
+      'drawCommand.x: is required and must be a number',
+      'drawCommand.y: is required and must be a number'
+    ]);
+    expect(messages({ type: 'rectangle', props: { below: 'cpu' } })).toEqual([]);
+  });
+
+  it('only lets connectors join two different shapes', () => {
+    expect(messages({ type: 'arrow', props: { from: 'a', to: 'b' } })).toEqual([]);
+    expect(messages({ type: 'arrow', props: { from: 'a', to: 'a' } })).toEqual(['drawCommand.props.to: must be a different shape than from']);
+    expect(messages({ type: 'arrow', props: { from: 'a' } })).toHaveLength(1);
+    expect(messages({ type: 'rectangle', x: 0, y: 0, props: { from: 'a' } })).toHaveLength(1);
+  });
+
+  it('only loads images from data URLs', () => {
+    expect(messages({ type: 'image', x: 0, y: 0, props: { src: 'data:image/png;base64,iVBORw0KGgo=' } })).toEqual([]);
+    expect(messages({ type: 'image', x: 0, y: 0, props: { src: 'https://example.com/cat.png' } })[0]).toMatch(/^drawCommand\.props\.src:/);
+    expect(messages({ type: 'image', x: 0, y: 0, props: { icon: '🐱' } })).toEqual([]);
+  });
+
+  it('checks plot expressions and ranges', () => {
+    expect(messages({ type: 'plot', x: 0, y: 0, props: { expression: 'x^2', domain: [-2, 2] } })).toEqual([]);
+    expect(messages({ type: 'plot', x: 0, y: 0, props: { expression: 'import(x)' } })[0]).toMatch(/unknown name "import"/);
+    expect(messages({ type: 'plot', x: 0, y: 0, props: { expression: 'x', domain: [2, 1] } })[0]).toMatch(/min must be below max/);
+    expect(messages({ type: 'plot', x: 0, y: 0, props: { expression: 'x', domain: [1e16, 1e16 + 4] } })[0]).toMatch(/too narrow/);
+  });
+
+  it('turns a formula given as text into latex', () => {
+    expect(validateDrawCommand({ type: 'formula', x: 0, y: 0, props: { text: 'E = mc^2' } }).value?.props)
+      .toEqual({ latex: 'E = mc^2' });
+  });
+});
+
+describe('validateAIResponse', () => {
+  it('drops invalid draw commands but reports them', () => {
+    const { value, issues } = validateAIResponse({
+      explanation: 'Circles.',
+      isNewTopic: true,
+      drawCommands: [{ type: 'circle', x: 10, y: 10 }, { type: 'text', x: 0, y: 0 }]
+    });
+    expect(value.drawCommands).toHaveLength(1);
+    expect(issues.map(issue => issue.path)).toEqual(['drawCommands[1].props.text']);
+  });
+
+  it('replaces a missing explanation with a placeholder', () => {
+    const { value, issues } = validateAIResponse({ drawCommands: [] });
+    expect(value.explanation).toBe('No explanation provided.');
+    expect(issues[0].path).toBe('explanation');
+  });
+
+  it('rejects a response that is not an object', () => {
+    expect(validateAIResponse('nope').issues).toEqual([{ path: '$', message: 'expected a JSON object' }]);
+  });
+});
@@ -0,0 +1,605 @@
+// Runtime contract for AI canvas responses and draw commands
+// Coerces values where the intent is unambiguous ("120" -> 120, "purple" -> violet) and
+// rejects everything else with a precise path, so bad output can be sent back to the model.
+
+import type { DrawCommand, QuizGrade, QuizQuestion, SocraticJudgement, SocraticStep, TutorResponse } from '../types';
+import { compileExpression } from './mathExpression';
+
+export const DRAW_COMMAND_TYPES = [
+  'circle', 'rectangle', 'arrow', 'text', 'line', 'freehand', 'formula',
+  'triangle', 'polygon', 'star', 'diamond', 'cloud', 'curved-arrow', 'bracket', 'note', 'image',
+  'axes', 'plot'
+] as const;
+
+export const PALETTE_COLORS = ['red', 'blue', 'green', 'orange', 'black', 'yellow', 'violet', 'grey'] as const;
+
+export type PaletteColor = typeof PALETTE_COLORS[number];
+
+// tldraw's style values, under the same names
+export const FILL_STYLES = ['none', 'semi', 'solid', 'pattern'] as const;
+export const DASH_STYLES = ['draw', 'solid', 'dashed', 'dotted'] as const;
+export const STROKE_SIZES = ['s', 'm', 'l', 'xl'] as const;
+
+// Regular polygons tldraw has a geo shape for
+export const POLYGON_SIDES = [3, 4, 5, 6, 8];
+
+// Sides of an earlier shape a shape can be placed on, e.g. props.below = "cpu"
+export const PLACEMENTS = ['below', 'above', 'leftOf', 'rightOf'] as const;
+
+export type Placement = typeof PLACEMENTS[number];
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  issues: SchemaIssue[];
+}
+
+// Common model slips that map cleanly onto a supported value
+const TYPE_ALIASES: Record<string, DrawCommand['type']> = {
+  rect: 'rectangle',
+  box: 'rectangle',
+  square: 'rectangle',
+  ellipse: 'circle',
+  oval: 'circle',
+  label: 'text',
+  path: 'freehand',
+  draw: 'freehand',
+  equation: 'formula',
+  math: 'formula',
+  latex: 'formula',
+  rhombus: 'diamond',
+  pentagon: 'polygon',
+  hexagon: 'polygon',
+  octagon: 'polygon',
+  curve: 'curved-arrow',
+  curvedarrow: 'curved-arrow',
+  curved_arrow: 'curved-arrow',
+  brace: 'bracket',
+  sticky: 'note',
+  'sticky-note': 'note',
+  sticky_note: 'note',
+  stickynote: 'note',
+  icon: 'image',
+  emoji: 'image',
+  picture: 'image',
+  axis: 'axes',
+  graph: 'axes',
+  function: 'plot'
+};
+
+// Named polygons keep their number of sides
+const POLYGON_ALIAS_SIDES: Record<string, number> = { pentagon: 5, hexagon: 6, octagon: 8 };
+
+const STYLE_ALIASES: Record<string, string> = {
+  hollow: 'none',
+  outline: 'none',
+  transparent: 'none',
+  filled: 'solid',
+  dash: 'dashed',
+  dot: 'dotted',
+  small: 's',
+  medium: 'm',
+  large: 'l'
+};
+
+// Images are only ever embedded: a web URL would have every student's browser fetch whatever
+// the model (or a cached answer) pointed it at. Raster only - SVG can carry scripts and links.
+const IMAGE_SRC = /^data:image\/(png|jpeg|gif|webp);base64,[A-Za-z0-9+/]+=*$/i;
+const MAX_ICON_LENGTH = 16;
+
+const COLOR_ALIASES: Record<string, PaletteColor> = {
+  purple: 'violet',
+  gray: 'grey'
+};
+
+// Commands positioned by their props (start/end or points) rather than x/y
+export const POINT_BASED_TYPES: DrawCommand['type'][] = ['arrow', 'line', 'freehand', 'curved-arrow', 'bracket'];
+// Commands whose ends can be attached to shapes by id (props.from/to)
+export const CONNECTING_TYPES: DrawCommand['type'][] = ['arrow', 'line', 'curved-arrow'];
+
+const MAX_ID_LENGTH = 40;
+// Ranges narrower than this fraction of their values cannot be ticked or plotted
+const MIN_RELATIVE_SPAN = 1e-9;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return undefined;
+}
+
+function readNumber(
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: SchemaIssue[],
+  required: boolean
+): number | undefined {
+  if (source[key] === undefined || source[key] === null) {
+    if (required) issues.push({ path: `${path}.${key}`, message: 'is required and must be a number' });
+    return undefined;
+  }
+  const value = toNumber(source[key]);
+  if (value === undefined) {
+    issues.push({ path: `${path}.${key}`, message: `expected a number, got ${JSON.stringify(source[key])}` });
+  }
+  return value;
+}
+
+// Accepts [min, max] or {min, max}, with min below max
+function readRange(value: unknown, path: string, issues: SchemaIssue[]): [number, number] | undefined {
+  const source = Array.isArray(value) ? { min: value[0], max: value[1] } : value;
+  if (!isRecord(source)) {
+    issues.push({ path, message: 'expected a range [min, max]' });
+    return undefined;
+  }
+  const before = issues.length;
+  const min = readNumber(source, 'min', path, issues, true);
+  const max = readNumber(source, 'max', path, issues, true);
+  if (issues.length > before || min === undefined || max === undefined) return undefined;
+  if (min >= max) {
+    issues.push({ path, message: `min must be below max, got [${min}, ${max}]` });
+    return undefined;
+  }
+  // [1e16, 1e16 + 4] is a valid range, but too narrow to tell its values apart
+  if (max - min < Math.max(Math.abs(min), Math.abs(max)) * MIN_RELATIVE_SPAN) {
+    issues.push({ path, message: `range [${min}, ${max}] is too narrow for the size of its values` });
+    return undefined;
+  }
+  return [min, max];
+}
+
+// Shape ids are short names like "cpu"; numbers are accepted as names too
+function readId(value: unknown, path: string, issues: SchemaIssue[]): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const id = typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+  if (!id || id.length > MAX_ID_LENGTH) {
+    issues.push({ path, message: `expected a shape id (a name up to ${MAX_ID_LENGTH} characters), got ${JSON.stringify(value)}` });
+    return undefined;
+  }
+  return id;
+}
+
+// Accepts {x, y} or an [x, y] tuple
+function readPoint(value: unknown, path: string, issues: SchemaIssue[]): { x: number; y: number } | undefined {
+  const source = Array.isArray(value) ? { x: value[0], y: value[1] } : value;
+  if (!isRecord(source)) {
+    issues.push({ path, message: 'expected a point {"x": number, "y": number}' });
+    return undefined;
+  }
+  const before = issues.length;
+  const x = readNumber(source, 'x', path, issues, true);
+  const y = readNumber(source, 'y', path, issues, true);
+  return issues.length === before && x !== undefined && y !== undefined ? { x, y } : undefined;
+}
+
+function readColor(value: unknown, path: string, issues: SchemaIssue[]): PaletteColor | undefined {
+  if (value === undefined) return undefined;
+  const name = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  const color = COLOR_ALIASES[name] || (PALETTE_COLORS as readonly string[]).includes(name) && name as PaletteColor;
+  if (!color) {
+    issues.push({ path, message: `${JSON.stringify(value)} is not a palette color (${PALETTE_COLORS.join(', ')})` });
+    return undefined;
+  }
+  return color;
+}
+
+// One of a fixed set of style values, e.g. fill "solid"
+function readStyle<T extends string>(value: unknown, allowed: readonly T[], path: string, issues: SchemaIssue[]): T | undefined {
+  if (value === undefined) return undefined;
+  const name = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  const style = STYLE_ALIASES[name] || name;
+  if (!(allowed as readonly string[]).includes(style)) {
+    issues.push({ path, message: `${JSON.stringify(value)} is not one of ${allowed.join(', ')}` });
+    return undefined;
+  }
+  return style as T;
+}
+
+export function validateDrawCommand(input: unknown, path = 'drawCommand'): ValidationResult<DrawCommand | null> {
+  const issues: SchemaIssue[] = [];
+
+  if (!isRecord(input)) {
+    return { value: null, issues: [{ path, message: 'expected a draw command object' }] };
+  }
+
+  const rawType = typeof input.type === 'string' ? input.type.trim().toLowerCase() : '';
+  const type = TYPE_ALIASES[rawType] || (DRAW_COMMAND_TYPES as readonly string[]).includes(rawType) && rawType as DrawCommand['type'];
+  if (!type) {
+    return {
+      value: null,
+      issues: [{ path: `${path}.type`, message: `unknown type ${JSON.stringify(input.type)} (expected one of ${DRAW_COMMAND_TYPES.join(', ')})` }]
+    };
+  }
+
+  const rawProps = input.props ?? {};
+  const propsPath = `${path}.props`;
+  const props: NonNullable<DrawCommand['props']> = {};
+
+  const id = readId(input.id, `${path}.id`, issues);
+  // A shape placed next to another one needs no x/y
+  const pointBased = POINT_BASED_TYPES.includes(type);
+  const placed = isRecord(rawProps) && PLACEMENTS.some(key => rawProps[key] !== undefined);
+  const x = readNumber(input, 'x', path, issues, !pointBased && !placed) ?? 0;
+  const y = readNumber(input, 'y', path, issues, !pointBased && !placed) ?? 0;
+
+  if (!isRecord(rawProps)) {
+    issues.push({ path: propsPath, message: 'expected an object' });
+  } else {
+    for (const key of ['w', 'h', 'radius', 'fontSize', 'duration', 'sides', 'xStep', 'yStep'] as const) {
+      const value = readNumber(rawProps, key, propsPath, issues, false);
+      if (value !== undefined) {
+        if (value <= 0) issues.push({ path: `${propsPath}.${key}`, message: 'must be greater than 0' });
+        else props[key] = value;
+      }
+    }
+
+    if (rawProps.text !== undefined) {
+      if (typeof rawProps.text === 'string' || typeof rawProps.text === 'number') props.text = String(rawProps.text);
+      else issues.push({ path: `${propsPath}.text`, message: 'expected a string' });
+    }
+
+    if (rawProps.latex !== undefined) {
+      if (typeof rawProps.latex === 'string' || typeof rawProps.latex === 'number') props.latex = String(rawProps.latex);
+      else issues.push({ path: `${propsPath}.latex`, message: 'expected a LaTeX string' });
+    }
+
+    const bend = readNumber(rawProps, 'bend', propsPath, issues, false);
+    if (bend !== undefined) props.bend = bend;
+
+    const gap = readNumber(rawProps, 'gap', propsPath, issues, false);
+    if (gap !== undefined) {
+      if (gap < 0) issues.push({ path: `${propsPath}.gap`, message: 'must not be negative' });
+      else props.gap = gap;
+    }
+
+    for (const key of [...PLACEMENTS, 'from', 'to'] as const) {
+      const ref = readId(rawProps[key], `${propsPath}.${key}`, issues);
+      if (ref) props[key] = ref;
+    }
+
+    for (const key of ['src', 'icon', 'xLabel', 'yLabel', 'expression'] as const) {
+      if (rawProps[key] !== undefined) {
+        if (typeof rawProps[key] === 'string' && rawProps[key].trim()) props[key] = rawProps[key].trim();
+        else issues.push({ path: `${propsPath}.${key}`, message: 'expected a non-empty string' });
+      }
+    }
+
+    const color = readColor(rawProps.color, `${propsPath}.color`, issues);
+    if (color) props.color = color;
+
+    const fill = readStyle(rawProps.fill, FILL_STYLES, `${propsPath}.fill`, issues);
+    if (fill) props.fill = fill;
+    const dash = readStyle(rawProps.dash, DASH_STYLES, `${propsPath}.dash`, issues);
+    if (dash) props.dash = dash;
+    const size = readStyle(rawProps.size, STROKE_SIZES, `${propsPath}.size`, issues);
+    if (size) props.size = size;
+
+    for (const key of ['start', 'end'] as const) {
+      if (rawProps[key] !== undefined) {
+        props[key] = readPoint(rawProps[key], `${propsPath}.${key}`, issues);
+      }
+    }
+
+    for (const key of ['points', 'data'] as const) {
+      const raw = rawProps[key];
+      if (raw === undefined) continue;
+      if (!Array.isArray(raw)) {
+        issues.push({ path: `${propsPath}.${key}`, message: 'expected an array of points' });
+      } else {
+        props[key] = raw
+          .map((point, i) => readPoint(point, `${propsPath}.${key}[${i}]`, issues))
+          .filter((point): point is { x: number; y: number } => !!point);
+      }
+    }
+
+    for (const key of ['xRange', 'yRange', 'domain'] as const) {
+      if (rawProps[key] !== undefined) {
+        props[key] = readRange(rawProps[key], `${propsPath}.${key}`, issues);
+      }
+    }
+
+    for (const key of ['smooth', 'grid'] as const) {
+      if (rawProps[key] !== undefined) {
+        if (typeof rawProps[key] === 'boolean') props[key] = rawProps[key];
+        else issues.push({ path: `${propsPath}.${key}`, message: 'expected true or false' });
+      }
+    }
+  }
+
+  // Per-type requirements
+  if (type === 'text' && !props.text) {
+    issues.push({ path: `${propsPath}.text`, message: 'text commands need non-empty text' });
+  }
+  // A formula given as plain text is still a formula
+  if (type === 'formula' && !props.latex && props.text) {
+    props.latex = props.text;
+    delete props.text;
+  }
+  if (type === 'formula' && !props.latex?.trim()) {
+    issues.push({ path: `${propsPath}.latex`, message: 'formula commands need a non-empty latex string' });
+  }
+  if (CONNECTING_TYPES.includes(type)) {
+    if ((!props.start && !props.from) || (!props.end && !props.to)) {
+      issues.push({ path: propsPath, message: `${type} commands need a start point or from id, and an end point or to id` });
+    }
+    if (props.from && props.from === props.to) {
+      issues.push({ path: `${propsPath}.to`, message: 'must be a different shape than from' });
+    }
+  } else if (props.from || props.to) {
+    issues.push({ path: propsPath, message: 'only arrow, line and curved-arrow commands take from/to ids' });
+  }
+  if (type === 'bracket' && (!props.start || !props.end)) {
+    issues.push({ path: propsPath, message: 'bracket commands need both start and end points' });
+  }
+  const placements = PLACEMENTS.filter(key => props[key]);
+  if (placements.length > 1) {
+    issues.push({ path: propsPath, message: `use only one of ${PLACEMENTS.join(', ')}, got ${placements.join(' and ')}` });
+  }
+  if (placements.length > 0 && (pointBased || type === 'plot')) {
+    issues.push({ path: propsPath, message: `${type} commands cannot be placed next to a shape` });
+  }
+  if (type === 'polygon') {
+    props.sides ??= POLYGON_ALIAS_SIDES[rawType] ?? 6;
+    if (!POLYGON_SIDES.includes(props.sides)) {
+      issues.push({ path: `${propsPath}.sides`, message: `polygons can have ${POLYGON_SIDES.join(', ')} sides` });
+    }
+  }
+  if (type === 'plot') {
+    if (!props.expression && !props.data) {
+      issues.push({ path: propsPath, message: 'plot commands need an expression or data points' });
+    }
+    if (props.expression) {
+      try {
+        compileExpression(props.expression);
+      } catch (error) {
+        issues.push({ path: `${propsPath}.expression`, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    if (props.data && props.data.length < 2) {
+      issues.push({ path: `${propsPath}.data`, message: 'plots need at least 2 data points' });
+    }
+  }
+  if (type === 'note' && !props.text) {
+    issues.push({ path: `${propsPath}.text`, message: 'note commands need non-empty text' });
+  }
+  if (type === 'image') {
+    if (!props.src && !props.icon) {
+      issues.push({ path: propsPath, message: 'image commands need an icon emoji or a data:image/ src' });
+    }
+    if (props.src && !IMAGE_SRC.test(props.src)) {
+      issues.push({ path: `${propsPath}.src`, message: 'must be a base64 data:image/ URL (png, jpeg, gif or webp) - web URLs are not loaded, use an icon emoji instead' });
+    }
+    if (props.icon && [...props.icon].length > MAX_ICON_LENGTH) {
+      issues.push({ path: `${propsPath}.icon`, message: 'expected a single emoji' });
+    }
+  }
+  if (type === 'freehand' && (!props.points || props.points.length < 2)) {
+    issues.push({ path: `${propsPath}.points`, message: 'freehand commands need at least 2 points' });
+  }
+
+  if (issues.length > 0) return { value: null, issues };
+  return { value: id ? { type, id, x, y, props } : { type, x, y, props }, issues };
+}
+
+// Validates a whole canvas response. Invalid draw commands are dropped from the value
+// but reported; a missing explanation is reported and replaced with a placeholder.
+export function validateAIResponse(input: unknown): ValidationResult<TutorResponse> {
+  const issues: SchemaIssue[] = [];
+
+  if (!isRecord(input)) {
+    return {
+      value: { explanation: 'No explanation provided.', drawCommands: [], isNewTopic: true, taskBreakdown: [] },
+      issues: [{ path: '$', message: 'expected a JSON object' }]
+    };
+  }
+
+  let explanation = 'No explanation provided.';
+  if (typeof input.explanation === 'string' && input.explanation.trim()) {
+    explanation = input.explanation;
+  } else {
+    issues.push({ path: 'explanation', message: 'is required and must be a non-empty string' });
+  }
+
+  let narration: string | undefined;
+  if (input.narration !== undefined) {
+    if (typeof input.narration === 'string') narration = input.narration;
+    else issues.push({ path: 'narration', message: 'expected a string' });
+  }
+
+  let topic: string | undefined;
+  if (input.topic !== undefined) {
+    if (typeof input.topic === 'string') topic = input.topic;
+    else issues.push({ path: 'topic', message: 'expected a string' });
+  }
+
+  let isNewTopic = true;
+  if (typeof input.isNewTopic === 'boolean') {
+    isNewTopic = input.isNewTopic;
+  } else if (input.isNewTopic === 'true' || input.isNewTopic === 'false') {
+    isNewTopic = input.isNewTopic === 'true';
+  } else if (input.isNewTopic !== undefined) {
+    issues.push({ path: 'isNewTopic', message: 'expected true or false' });
+  }
+
+  let taskBreakdown: string[] = [];
+  if (input.taskBreakdown !== undefined) {
+    if (Array.isArray(input.taskBreakdown)) {
+      taskBreakdown = input.taskBreakdown.filter((step, i) => {
+        if (typeof step === 'string') return true;
+        issues.push({ path: `taskBreakdown[${i}]`, message: 'expected a string' });
+        return false;
+      });
+    } else {
+      issues.push({ path: 'taskBreakdown', message: 'expected an array of strings' });
+    }
+  }
+
+  const drawCommands: DrawCommand[] = [];
+  if (input.drawCommands !== undefined) {
+    if (Array.isArray(input.drawCommands)) {
+      input.drawCommands.forEach((raw, i) => {
+        const result = validateDrawCommand(raw, `drawCommands[${i}]`);
+        if (result.value) drawCommands.push(result.value);
+        issues.push(...result.issues);
+      });
+    } else {
+      issues.push({ path: 'drawCommands', message: 'expected an array of draw commands' });
+    }
+  }
+
+  return {
+    value: {
+      topic,
+      explanation,
+      narration: narration || explanation,
+      drawCommands,
+      isNewTopic,
+      taskBreakdown
+    },
+    issues
+  };
+}
+
+export const QUIZ_QUESTION_KINDS = ['multiple-choice', 'numeric', 'short-answer'] as const;
+
+function readText(source: Record<string, unknown>, key: string, path: string, issues: SchemaIssue[]): string {
+  const value = source[key];
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  issues.push({ path: `${path}.${key}`, message: 'is required and must be a non-empty string' });
+  return '';
+}
+
+// Multiple-choice answers may name the choice by letter ("B") or index (1); both become the choice text
+export function validateQuizQuestion(input: unknown, path = 'question'): ValidationResult<QuizQuestion | null> {
+  if (!isRecord(input)) {
+    return { value: null, issues: [{ path, message: 'expected a quiz question object' }] };
+  }
+
+  const issues: SchemaIssue[] = [];
+  const kind = typeof input.kind === 'string' ? input.kind.trim().toLowerCase() : '';
+  if (!(QUIZ_QUESTION_KINDS as readonly string[]).includes(kind)) {
+    issues.push({ path: `${path}.kind`, message: `unknown kind ${JSON.stringify(input.kind)} (expected one of ${QUIZ_QUESTION_KINDS.join(', ')})` });
+  }
+
+  const question = readText(input, 'question', path, issues);
+  let answer = readText(input, 'answer', path, issues);
+  const value: QuizQuestion = { kind: kind as QuizQuestion['kind'], question, answer };
+
+  if (kind === 'multiple-choice') {
+    const choices = Array.isArray(input.choices)
+      ? input.choices.filter(c => typeof c === 'string' || typeof c === 'number').map(c => String(c).trim()).filter(Boolean)
+      : [];
+    if (choices.length < 2) {
+      issues.push({ path: `${path}.choices`, message: 'multiple-choice questions need at least 2 string choices' });
+    } else if (answer && !choices.includes(answer)) {
+      const letterIndex = /^[a-z]$/i.test(answer) ? answer.toUpperCase().charCodeAt(0) - 65 : -1;
+      const numericIndex = typeof input.answer === 'number' ? input.answer : -1;
+      const index = letterIndex >= 0 ? letterIndex : numericIndex;
+      if (index >= 0 && index < choices.length) answer = choices[index];
+      else issues.push({ path: `${path}.answer`, message: 'must be the exact text of one of the choices' });
+    }
+    value.choices = choices;
+    value.answer = answer;
+  }
+
+  if (kind === 'numeric') {
+    if (answer && toNumber(answer) === undefined) {
+      issues.push({ path: `${path}.answer`, message: `expected a number, got ${JSON.stringify(input.answer)}` });
+    }
+    const tolerance = readNumber(input, 'tolerance', path, issues, false);
+    if (tolerance !== undefined) {
+      if (tolerance < 0) issues.push({ path: `${path}.tolerance`, message: 'must not be negative' });
+      else value.tolerance = tolerance;
+    }
+  }
+
+  if (typeof input.explanation === 'string' && input.explanation.trim()) {
+    value.explanation = input.explanation.trim();
+  }
+
+  return issues.length > 0 ? { value: null, issues } : { value, issues };
+}
+
+// Grading verdicts from the model; invalid corrective draw commands are dropped but reported
+export function validateQuizGrade(input: unknown): ValidationResult<QuizGrade | null> {
+  if (!isRecord(input)) {
+    return { value: null, issues: [{ path: '$', message: 'expected a JSON object' }] };
+  }
+
+  const issues: SchemaIssue[] = [];
+  let correct = false;
+  if (typeof input.correct === 'boolean') correct = input.correct;
+  else if (input.correct === 'true' || input.correct === 'false') correct = input.correct === 'true';
+  else issues.push({ path: 'correct', message: 'expected true or false' });
+
+  const feedback = readText(input, 'feedback', '$', issues);
+  if (issues.length > 0) return { value: null, issues };
+
+  const drawCommands = readDrawCommands(input.drawCommands, 'drawCommands', issues);
+  return { value: { correct, feedback, drawCommands }, issues };
+}
+
+function readDrawCommands(input: unknown, path: string, issues: SchemaIssue[]): DrawCommand[] {
+  const drawCommands: DrawCommand[] = [];
+  if (Array.isArray(input)) {
+    input.forEach((raw, i) => {
+      const result = validateDrawCommand(raw, `${path}[${i}]`);
+      if (result.value) drawCommands.push(result.value);
+      issues.push(...result.issues);
+    });
+  } else if (input !== undefined) {
+    issues.push({ path, message: 'expected an array of draw commands' });
+  }
+  return drawCommands;
+}
+
+// A step without its question or insight is unusable; bad draw commands are only dropped
+export function validateSocraticStep(input: unknown, path = 'step'): ValidationResult<SocraticStep | null> {
+  if (!isRecord(input)) {
+    return { value: null, issues: [{ path, message: 'expected a step object' }] };
+  }
+
+  const issues: SchemaIssue[] = [];
+  const question = readText(input, 'question', path, issues);
+  const expectedInsight = readText(input, 'expectedInsight', path, issues);
+  if (issues.length > 0) return { value: null, issues };
+
+  const value: SocraticStep = {
+    question,
+    expectedInsight,
+    narration: typeof input.narration === 'string' ? input.narration : expectedInsight,
+    drawCommands: readDrawCommands(input.drawCommands, `${path}.drawCommands`, issues)
+  };
+  if (typeof input.hint === 'string' && input.hint.trim()) value.hint = input.hint.trim();
+
+  return { value, issues };
+}
+
+export function validateSocraticJudgement(input: unknown): ValidationResult<SocraticJudgement | null> {
+  if (!isRecord(input)) {
+    return { value: null, issues: [{ path: '$', message: 'expected a JSON object' }] };
+  }
+
+  const issues: SchemaIssue[] = [];
+  let understood = false;
+  if (typeof input.understood === 'boolean') understood = input.understood;
+  else if (input.understood === 'true' || input.understood === 'false') understood = input.understood === 'true';
+  else issues.push({ path: 'understood', message: 'expected true or false' });
+
+  const feedback = readText(input, 'feedback', '$', issues);
+  return issues.length > 0 ? { value: null, issues } : { value: { understood, feedback }, issues };
+}
+
+// One line per issue, ready to paste into a repair prompt or a console warning
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n');
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  CircuitBreaker,
+  RequestError,
+  backoffDelay,
+  parseRetryAfter,
+  toRequestError,
+  withRetry,
+  type RequestStatus
+} from './retryPolicy';
+
+const FAST = { baseDelayMs: 1, maxDelayMs: 2 };
+
+describe('withRetry', () => {
+  it('retries retryable failures and reports each retry', async () => {
+    const statuses: RequestStatus[] = [];
+    const run = vi.fn()
+      .mockRejectedValueOnce(new RequestError('unavailable', 'down', 503))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValue('ok');
+
+    await expect(withRetry(run, { ...FAST, onStatus: status => statuses.push(status) })).resolves.toBe('ok');
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(statuses.map(status => status.kind === 'retrying' && status.reason)).toEqual(['unavailable', 'network']);
+  });
+
+  it('does not retry a failed request', async () => {
+    const run = vi.fn().mockRejectedValue(new RequestError('failed', 'bad request', 400));
+    await expect(withRetry(run, FAST)).rejects.toMatchObject({ reason: 'failed', status: 400 });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const run = vi.fn().mockRejectedValue(new RequestError('unavailable', 'down', 503));
+    await expect(withRetry(run, { ...FAST, maxAttempts: 2 })).rejects.toMatchObject({ reason: 'unavailable' });
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not wait out a Retry-After longer than maxRetryAfterMs', async () => {
+    const run = vi.fn().mockRejectedValue(new RequestError('rate-limited', 'slow down', 429, 60_000));
+    await expect(withRetry(run, { ...FAST, maxRetryAfterMs: 1_000 })).rejects.toMatchObject({ reason: 'rate-limited' });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets shouldRetry veto a retry', async () => {
+    const run = vi.fn().mockRejectedValue(new RequestError('network', 'reset'));
+    await expect(withRetry(run, { ...FAST, shouldRetry: () => false })).rejects.toMatchObject({ reason: 'network' });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('turns an attempt that runs out of time into a timeout', async () => {
+    const run = (signal: AbortSignal) => new Promise<string>((_, reject) => {
+      signal.addEventListener('abort', () => reject(new Error('aborted')));
+    });
+    await expect(withRetry(run, { ...FAST, maxAttempts: 1, timeoutMs: 5 })).rejects.toMatchObject({ reason: 'timeout' });
+  });
+
+  it('stops retrying once the caller cancels', async () => {
+    const controller = new AbortController();
+    const run = vi.fn(async () => {
+      controller.abort();
+      throw new RequestError('unavailable', 'down', 503);
+    });
+    await expect(withRetry(run, { ...FAST, signal: controller.signal })).rejects.toThrow('Request was cancelled');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('takes its abort listeners off a long-lived signal', async () => {
+    const controller = new AbortController();
+    const remove = vi.spyOn(controller.signal, 'removeEventListener');
+    const add = vi.spyOn(controller.signal, 'addEventListener');
+    const run = vi.fn()
+      .mockRejectedValueOnce(new RequestError('unavailable', 'down', 503))
+      .mockResolvedValue('ok');
+
+    await withRetry(run, { ...FAST, signal: controller.signal });
+    expect(remove).toHaveBeenCalledTimes(add.mock.calls.length);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const down = new RequestError('unavailable', 'down', 503);
+
+  it('opens after the failure threshold and lets one trial through after the cooldown', () => {
+    const breaker = new CircuitBreaker(2, 1_000);
+    breaker.recordFailure(down, 0);
+    expect(breaker.canRequest(0)).toBe(true);
+    breaker.recordFailure(down, 0);
+    expect(breaker.canRequest(500)).toBe(false);
+    expect(breaker.retryInMs(500)).toBe(500);
+
+    expect(breaker.canRequest(1_000)).toBe(true);
+    expect(breaker.canRequest(1_001)).toBe(false);
+  });
+
+  it('reopens when the trial fails and closes when it succeeds', () => {
+    const breaker = new CircuitBreaker(1, 1_000);
+    breaker.recordFailure(down, 0);
+    expect(breaker.canRequest(1_000)).toBe(true);
+    breaker.recordFailure(down, 1_000);
+    expect(breaker.canRequest(1_500)).toBe(false);
+
+    expect(breaker.canRequest(2_000)).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.canRequest(2_001)).toBe(true);
+    expect(breaker.retryInMs(2_001)).toBe(0);
+  });
+
+  it('ignores failures that are the request\'s own fault', () => {
+    const breaker = new CircuitBreaker(1, 1_000);
+    breaker.recordFailure(new RequestError('failed', 'bad request', 400), 0);
+    expect(breaker.canRequest(0)).toBe(true);
+  });
+
+  it('stays open for as long as a rate limit asks', () => {
+    const breaker = new CircuitBreaker(3, 1_000);
+    breaker.recordFailure(new RequestError('rate-limited', 'slow down', 429, 5_000), 0);
+    expect(breaker.canRequest(4_999)).toBe(false);
+    expect(breaker.canRequest(5_000)).toBe(true);
+  });
+});
+
+describe('error helpers', () => {
+  it('parses Retry-After seconds and dates', () => {
+    expect(parseRetryAfter('3')).toBe(3_000);
+    expect(parseRetryAfter(new Date(10_000).toUTCString(), 4_000)).toBe(6_000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+
+  it('keeps backoff between half and all of the capped exponential delay', () => {
+    expect(backoffDelay(1, 500, 8_000, () => 0)).toBe(250);
+    expect(backoffDelay(3, 500, 8_000, () => 1)).toBe(2_000);
+    expect(backoffDelay(10, 500, 8_000, () => 1)).toBe(8_000);
+  });
+
+  it('classifies thrown errors', () => {
+    expect(toRequestError({ status: 429, message: 'x', headers: { 'retry-after': '2' } })).toMatchObject({ reason: 'rate-limited', retryAfterMs: 2_000 });
+    expect(toRequestError(new Error('connect ECONNREFUSED')).reason).toBe('network');
+    expect(toRequestError(new Error('aborted'), true).reason).toBe('timeout');
+    expect(toRequestError(new Error('boom')).reason).toBe('failed');
+  });
+});
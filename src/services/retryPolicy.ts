@@ -0,0 +1,266 @@
+// Shared request layer for every upstream call - used by the backend for LLM providers and
+// ElevenLabs, and by the browser for calls to the backend.
+// Timeouts, exponential backoff with jitter, Retry-After handling and a per-provider circuit
+// breaker; every decision is reported as a RequestStatus so the UI can say what is going on.
+
+export type FailureReason = 'rate-limited' | 'timeout' | 'unavailable' | 'network' | 'failed';
+
+// Something the request layer did on the caller's behalf
+export interface RequestStatus {
+  // retrying: waiting before another attempt at the same provider
+  // fallback: giving up on this provider and moving to the next one
+  // skipped: provider not tried because its circuit is open
+  kind: 'retrying' | 'fallback' | 'skipped';
+  provider: string;
+  reason: FailureReason;
+  // The attempt that just failed (retrying only)
+  attempt?: number;
+  // How long until the retry (retrying) or until the provider is tried again (skipped)
+  delayMs?: number;
+}
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Per attempt; the signal handed to the request is aborted when it runs out
+  timeoutMs?: number;
+  // A Retry-After longer than this is not waited out - the caller should fall back instead
+  maxRetryAfterMs?: number;
+  // Name reported in status events
+  provider?: string;
+  onStatus?: (status: RequestStatus) => void;
+  // Veto a retry the error alone would allow (e.g. once a stream has produced output)
+  shouldRetry?: (error: RequestError) => boolean;
+  // Cancels the request for good: the running attempt is aborted and nothing is retried
+  signal?: AbortSignal;
+}
+
+const DEFAULT_RETRY: Required<Omit<RetryOptions, 'onStatus' | 'shouldRetry' | 'signal'>> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  timeoutMs: 60_000,
+  maxRetryAfterMs: 15_000,
+  provider: 'upstream'
+};
+
+export class RequestError extends Error {
+  reason: FailureReason;
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(reason: FailureReason, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'RequestError';
+    this.reason = reason;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  // Bad requests and auth failures fail the same way every time
+  get retryable(): boolean {
+    return this.reason !== 'failed';
+  }
+}
+
+export function reasonForStatus(status: number): FailureReason {
+  if (status === 429) return 'rate-limited';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'unavailable';
+  return 'failed';
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Full jitter: a random delay up to the exponential cap, so clients that failed together
+// do not retry together
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number, random = Math.random): number {
+  const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(cap / 2 + random() * cap / 2);
+}
+
+// Build a RequestError from a non-OK fetch response
+export async function errorFromResponse(response: Response, label: string): Promise<RequestError> {
+  const detail = await response.text().catch(() => '');
+  return new RequestError(
+    reasonForStatus(response.status),
+    `${label}: ${response.status}${detail ? ` ${detail.slice(0, 300)}` : ''}`,
+    response.status,
+    parseRetryAfter(response.headers.get('retry-after'))
+  );
+}
+
+// Normalize whatever a request threw: SDK errors carry status and headers, fetch throws
+// TypeError on network failure, and an aborted attempt means the timeout fired
+export function toRequestError(error: unknown, timedOut = false): RequestError {
+  if (error instanceof RequestError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (timedOut) return new RequestError('timeout', `Request timed out: ${message}`);
+
+  const { status, headers } = (error && typeof error === 'object' ? error : {}) as {
+    status?: unknown;
+    headers?: Headers | Record<string, string>;
+  };
+  if (typeof status === 'number') {
+    const retryAfter = headers instanceof Headers
+      ? headers.get('retry-after')
+      : headers?.['retry-after'];
+    return new RequestError(reasonForStatus(status), message, status, parseRetryAfter(retryAfter));
+  }
+  if (error instanceof TypeError || /ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|network|fetch failed|connection error/i.test(message)) {
+    return new RequestError('network', message);
+  }
+  return new RequestError('failed', message);
+}
+
+// Wakes up early when the signal is aborted. Either way the listener comes off again, so a
+// long-lived signal does not collect one per retry.
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const wake = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', wake);
+      resolve();
+    };
+    const timer = setTimeout(wake, ms);
+    signal?.addEventListener('abort', wake, { once: true });
+  });
+}
+
+// Run a request with a timeout per attempt, retrying transient failures
+export async function withRetry<T>(run: (signal: AbortSignal) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const config = { ...DEFAULT_RETRY, ...options };
+
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+    const cancel = () => controller.abort();
+    options.signal?.addEventListener('abort', cancel);
+
+    try {
+      options.signal?.throwIfAborted();
+      return await run(controller.signal);
+    } catch (caught) {
+      // Cancelled by the caller, not a timeout - there is nobody left to retry for
+      if (options.signal?.aborted) throw new RequestError('failed', 'Request was cancelled');
+      const error = toRequestError(caught, controller.signal.aborted);
+      const delayMs = error.retryAfterMs ?? backoffDelay(attempt, config.baseDelayMs, config.maxDelayMs);
+      const giveUp = !error.retryable ||
+        attempt >= config.maxAttempts ||
+        delayMs > config.maxRetryAfterMs ||
+        options.shouldRetry?.(error) === false;
+      if (giveUp) throw error;
+
+      options.onStatus?.({ kind: 'retrying', provider: config.provider, reason: error.reason, attempt, delayMs });
+      await sleep(delayMs, options.signal);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', cancel);
+    }
+  }
+}
+
+// ============ CIRCUIT BREAKER ============
+
+// Stops calling a provider that keeps failing. After `failureThreshold` transient failures in a
+// row (or a Retry-After from the provider itself) the circuit opens; once the cooldown has passed
+// one trial request is let through (half-open), and its result closes or re-opens the circuit.
+// A trial whose result never comes in stops holding the others back after another cooldown.
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private failures = 0;
+  private openUntil = 0;
+  // While a half-open trial is running: when the next caller may be let through regardless
+  private trialUntil = 0;
+
+  constructor(failureThreshold = 3, cooldownMs = 30_000) {
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  // Admits the caller, so only ask right before making the request
+  canRequest(now = Date.now()): boolean {
+    if (now < this.openUntil || now < this.trialUntil) return false;
+    if (this.openUntil > 0) this.trialUntil = now + this.cooldownMs;
+    return true;
+  }
+
+  // Time until the provider will be tried again (0 when the circuit is closed)
+  retryInMs(now = Date.now()): number {
+    return Math.max(0, this.openUntil - now, this.trialUntil - now);
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.openUntil = 0;
+    this.trialUntil = 0;
+  }
+
+  recordFailure(error: RequestError, now = Date.now()) {
+    const wasTrial = this.trialUntil > 0;
+    this.trialUntil = 0;
+    // Our own bad request says nothing about the provider's health
+    if (!error.retryable) return;
+
+    this.failures++;
+    if (error.reason === 'rate-limited' && error.retryAfterMs) {
+      this.openUntil = Math.max(this.openUntil, now + error.retryAfterMs);
+    } else if (wasTrial || this.failures >= this.failureThreshold) {
+      this.openUntil = now + this.cooldownMs;
+    }
+  }
+}
+
+// ============ USER-FACING TEXT ============
+
+function seconds(ms: number): string {
+  return `${Math.max(1, Math.ceil(ms / 1000))}s`;
+}
+
+const REASON_TEXT: Record<FailureReason, string> = {
+  'rate-limited': 'rate limited',
+  'timeout': 'timed out',
+  'unavailable': 'unavailable',
+  'network': 'unreachable',
+  'failed': 'failed'
+};
+
+// Short status line, e.g. "groq rate limited, retrying in 5s"
+export function describeRequestStatus(status: RequestStatus): string {
+  const what = `${status.provider} ${REASON_TEXT[status.reason]}`;
+  if (status.kind === 'retrying') {
+    return `${what}, retrying${status.delayMs ? ` in ${seconds(status.delayMs)}` : ''}`;
+  }
+  if (status.kind === 'skipped') {
+    return `${status.provider} is down, skipping${status.delayMs ? ` for ${seconds(status.delayMs)}` : ''}`;
+  }
+  return `${what}, trying the next provider`;
+}
+
+// Chat message for a request that finally failed; null when the error is not from the request layer
+export function describeRequestError(error: unknown): string | null {
+  if (!(error instanceof RequestError)) return null;
+  const later = error.retryAfterMs ? ` Try again in ${seconds(error.retryAfterMs)}.` : ' Please try again in a moment.';
+
+  switch (error.reason) {
+    case 'rate-limited':
+      return `The AI service is rate limited right now.${later}`;
+    case 'timeout':
+      return 'The AI service took too long to answer. Please try again.';
+    case 'unavailable':
+      return `The AI service is temporarily unavailable.${later}`;
+    case 'network':
+      return 'Could not reach the tutor server. Check your connection and try again.';
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,195 @@
+// Socratic mode - instead of a one-shot lecture, the tutor walks the taskBreakdown one step at a
+// time: ask a guiding question, judge the reply, and only draw that part once it is understood.
+// Pre-generated topics can ship a hand-written plan; anything else gets one from the model.
+
+import type { DrawCommand, SocraticJudgement, SocraticStep } from '../types';
+import { requestCompletion } from './apiClient';
+import { formatSchemaIssues, validateDrawCommand, validateSocraticJudgement, validateSocraticStep } from './responseSchema';
+import type { PreGeneratedTopic, TeachingStep } from './preGeneratedTopics';
+import { looselyMatches } from './quizService';
+import type { TutorSession } from './tutorSession';
+import { buildProfilePrompt, getLessonLimits } from './learnerProfile';
+import { buildLanguagePrompt } from './language';
+
+export interface SocraticLesson {
+  topic: string;
+  taskBreakdown: string[];
+  // Title and setup drawn before the first question
+  intro: TeachingStep | null;
+  steps: SocraticStep[];
+  currentStep: number;
+  // Replies to the current step's question so far
+  attempts: number;
+}
+
+// After this many replies without understanding, the tutor shows the step anyway
+export const MAX_ATTEMPTS_PER_STEP = 3;
+
+const SOCRATIC_PLAN_PROMPT = `You are an expert AI tutor who teaches with the Socratic method.
+Plan a lesson that leads the student to discover each idea by answering guiding questions.
+
+RESPOND WITH ONLY A JSON OBJECT (no markdown):
+
+{
+  "topic": "topic name",
+  "taskBreakdown": ["Step 1: ...", "Step 2: ...", "Step 3: ..."],
+  "intro": {"narration": "One sentence to set the scene", "drawCommands": [{"type": "text", "x": 300, "y": 30, "props": {"text": "TITLE", "color": "black"}}]},
+  "steps": [
+    {
+      "question": "Guiding question that makes the student reason, not recall",
+      "expectedInsight": "The idea a good reply shows",
+      "hint": "A nudge if they get stuck",
+      "narration": "1-2 sentences confirming the idea, spoken while drawing",
+      "drawCommands": [...]
+    }
+  ]
+}
+
+RULES:
+- Exactly one step per taskBreakdown entry
+- Questions use everyday situations; never give the answer away in the question
+- Each step's drawCommands add one part of a single diagram: keep earlier parts, use free space
+- Draw command format: {"type": "circle|rectangle|triangle|star|diamond|arrow|text|line|freehand|formula|note|axes|plot", "x": 0, "y": 0, "props": {...}}
+  circle props: radius, color; rectangle: w, h, color; text: text, color; arrow/line: start {x,y}, end {x,y}, color
+  optional top-level "id" (e.g. "cpu"); props.below/above/leftOf/rightOf: "<id>" (and gap) replace x/y; arrow/line from/to ids replace start/end
+  freehand: points [{x,y}, ...] in page coordinates, color - for curves and sketches
+  triangle/star/diamond: w, h, color (x/y top-left); note: text - a sticky note; optional fill, dash (dashed, dotted)
+  axes: w, h, xRange [min, max], yRange, xLabel, yLabel (x/y top-left of the box); plot: the same box and ranges plus expression ("x^2") or data [{x,y}], color
+  formula: latex (LaTeX without $, backslashes escaped for JSON), color - use it for every equation
+- Canvas: 800x600, about 40px between elements (overlaps are nudged apart), colors: red, blue, green, orange, black, violet`;
+
+const JUDGE_PROMPT = `You are a patient Socratic tutor judging one student reply.
+
+RESPOND WITH ONLY A JSON OBJECT (no markdown):
+
+{"understood": true or false, "feedback": "1-2 sentences"}
+
+RULES:
+- understood is true when the reply shows the expected insight in substance, even in casual words
+- If understood, praise the specific reasoning briefly
+- If not, do NOT reveal the answer: ask a smaller follow-up question or point at what to reconsider`;
+
+export async function createSocraticLesson(
+  question: string,
+  session: TutorSession,
+  preGenerated?: PreGeneratedTopic | null
+): Promise<SocraticLesson> {
+  if (preGenerated?.socratic) {
+    return fromPreGenerated(preGenerated);
+  }
+
+  const { memoryMessage } = session.memory.buildPromptContext(500, false);
+  const languageMessage = buildLanguagePrompt(session.language);
+  const { text } = await requestCompletion('canvas', [
+    { role: 'system', content: SOCRATIC_PLAN_PROMPT },
+    { role: 'system', content: buildProfilePrompt(session.profile, 'canvas') },
+    ...(languageMessage ? [{ role: 'system' as const, content: languageMessage }] : []),
+    ...(memoryMessage ? [{ role: 'system' as const, content: memoryMessage }] : []),
+    { role: 'user', content: question }
+  ], { session });
+
+  const parsed = JSON.parse(text) as Record<string, unknown>;
+  const rawSteps = Array.isArray(parsed.steps) ? parsed.steps.slice(0, getLessonLimits(session.profile).maxSteps) : [];
+  const steps: SocraticStep[] = [];
+  rawSteps.forEach((raw, i) => {
+    const { value, issues } = validateSocraticStep(raw, `steps[${i}]`);
+    if (issues.length > 0) console.warn(`Socratic plan issues:\n${formatSchemaIssues(issues)}`);
+    if (value) steps.push(value);
+  });
+  if (steps.length === 0) {
+    throw new Error('Socratic plan had no usable steps');
+  }
+
+  const taskBreakdown = Array.isArray(parsed.taskBreakdown)
+    ? parsed.taskBreakdown.filter((step): step is string => typeof step === 'string')
+    : [];
+  const rawIntro = (parsed.intro && typeof parsed.intro === 'object' ? parsed.intro : {}) as Record<string, unknown>;
+  const introCommands = (Array.isArray(rawIntro.drawCommands) ? rawIntro.drawCommands : [])
+    .map((raw, i) => validateDrawCommand(raw, `intro.drawCommands[${i}]`).value)
+    .filter((command): command is DrawCommand => !!command);
+
+  return {
+    topic: typeof parsed.topic === 'string' ? parsed.topic : question,
+    // Keep the visible learning steps aligned with the questions
+    taskBreakdown: taskBreakdown.length >= steps.length
+      ? taskBreakdown.slice(0, steps.length)
+      : steps.map((step, i) => `Step ${i + 1}: ${step.expectedInsight}`),
+    intro: introCommands.length > 0
+      ? { narration: typeof rawIntro.narration === 'string' ? rawIntro.narration : '', drawCommands: introCommands }
+      : null,
+    steps,
+    currentStep: 0,
+    attempts: 0
+  };
+}
+
+function fromPreGenerated(topic: PreGeneratedTopic): SocraticLesson {
+  const prompts = topic.socratic || [];
+  const firstDrawn = Math.min(...prompts.flatMap(prompt => prompt.steps));
+  const introSteps = topic.steps.slice(0, firstDrawn);
+
+  return {
+    topic: topic.topic,
+    taskBreakdown: topic.taskBreakdown,
+    intro: introSteps.length > 0
+      ? {
+          narration: introSteps.map(step => step.narration).join(' '),
+          drawCommands: introSteps.flatMap(step => step.drawCommands)
+        }
+      : null,
+    steps: prompts.map(prompt => ({
+      question: prompt.question,
+      expectedInsight: prompt.expectedInsight,
+      hint: prompt.hint,
+      narration: prompt.steps.map(i => topic.steps[i].narration).join(' '),
+      drawCommands: prompt.steps.flatMap(i => topic.steps[i].drawCommands)
+    })),
+    currentStep: 0,
+    attempts: 0
+  };
+}
+
+export async function judgeReply(lesson: SocraticLesson, reply: string, session: TutorSession): Promise<SocraticJudgement> {
+  const step = lesson.steps[lesson.currentStep];
+  const context = [
+    `Topic: ${lesson.topic}`,
+    `Question asked: ${step.question}`,
+    `Expected insight: ${step.expectedInsight}`,
+    step.hint ? `Hint available: ${step.hint}` : '',
+    `Attempt ${lesson.attempts + 1} of ${MAX_ATTEMPTS_PER_STEP}`,
+    `Student's reply: ${reply}`
+  ].filter(Boolean).join('\n');
+
+  const languageMessage = buildLanguagePrompt(session.language);
+  try {
+    const { text } = await requestCompletion('canvas', [
+      { role: 'system', content: JUDGE_PROMPT },
+      ...(languageMessage ? [{ role: 'system' as const, content: languageMessage }] : []),
+      { role: 'user', content: context }
+    ], { session });
+    const { value, issues } = validateSocraticJudgement(JSON.parse(text));
+    if (!value) throw new Error(formatSchemaIssues(issues));
+    return value;
+  } catch (error) {
+    console.warn('Socratic judging failed, using keyword match:', error);
+    const understood = looselyMatches(step.expectedInsight, reply);
+    return {
+      understood,
+      feedback: understood ? 'Exactly right.' : step.hint || 'Not quite - think about it once more.'
+    };
+  }
+}
+
+// Count a reply that missed the point; true once the step should be shown anyway
+export function recordMiss(lesson: SocraticLesson): { lesson: SocraticLesson; reveal: boolean } {
+  const attempts = lesson.attempts + 1;
+  return { lesson: { ...lesson, attempts }, reveal: attempts >= MAX_ATTEMPTS_PER_STEP };
+}
+
+export function advanceLesson(lesson: SocraticLesson): SocraticLesson {
+  return { ...lesson, currentStep: lesson.currentStep + 1, attempts: 0 };
+}
+
+export function isLessonFinished(lesson: SocraticLesson): boolean {
+  return lesson.currentStep >= lesson.steps.length;
+}
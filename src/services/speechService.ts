@@ -1,5 +1,7 @@
 // Web Speech API service - completely free, browser-native
 
+import { pickVoice } from './language';
+
 // TypeScript declarations for Web Speech API
 interface SpeechRecognitionEvent extends Event {
   results: SpeechRecognitionResultList;
@@ -54,6 +56,8 @@ class SpeechService {
   private onResult: SpeechCallback | null = null;
   private onStateChange: StateCallback | null = null;
   private isListening = false;
+  // Locale for recognition and spoken replies
+  private locale = 'en-US';
 
   constructor() {
     this.synthesis = window.speechSynthesis;
@@ -72,7 +76,7 @@ class SpeechService {
     this.recognition = new SpeechRecognition();
     this.recognition.continuous = false;
     this.recognition.interimResults = true;
-    this.recognition.lang = 'en-US';
+    this.recognition.lang = this.locale;
 
     this.recognition.onresult = (event) => {
       const last = event.results.length - 1;
@@ -95,6 +99,13 @@ class SpeechService {
     };
   }
 
+  setLanguage(locale: string) {
+    this.locale = locale;
+    if (this.recognition) {
+      this.recognition.lang = locale;
+    }
+  }
+
   // Start listening for speech input
   startListening(onResult: SpeechCallback, onStateChange?: StateCallback) {
     if (!this.recognition) {
@@ -131,18 +142,13 @@ class SpeechService {
       this.synthesis.cancel();
 
       const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = this.locale;
       utterance.rate = 1.0;
       utterance.pitch = 1.0;
       utterance.volume = 1.0;
       
-      // Try to get a natural sounding voice
-      const voices = this.synthesis.getVoices();
-      const preferredVoice = voices.find(v => 
-        v.name.includes('Google') || 
-        v.name.includes('Natural') ||
-        v.name.includes('Samantha') ||
-        v.lang.startsWith('en')
-      );
+      // Try to get a natural sounding voice in the tutoring language
+      const preferredVoice = pickVoice(this.synthesis.getVoices(), this.locale);
       
       if (preferredVoice) {
         utterance.voice = preferredVoice;
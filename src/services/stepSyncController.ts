@@ -2,13 +2,82 @@
 // This ensures narration and drawing happen together without lag
 
 import { elevenLabsService } from './elevenLabsService';
-import { drawingController } from './drawingController';
+import { ANIMATED_TYPES, drawingController } from './drawingController';
 import type { TeachingStep } from './preGeneratedTopics';
-import type { DrawCommand } from '../types';
+import type { DrawCommand, ToolCall } from '../types';
+import { DrawingToolRunner } from './drawingTools';
+import { PACE_TIMINGS } from './learnerProfile';
+import type { PaceTiming } from './learnerProfile';
+
+// Handle for a response that is still streaming in - feed it pieces as they arrive
+export interface LiveResponse {
+  addNarration(sentence: string): void;
+  addDrawCommand(command: DrawCommand): void;
+  // Tool-calling protocol: drawn in order with the narration around it, while the sentence
+  // before it is being spoken
+  addToolCall(call: ToolCall): void;
+  // The answer played so far was wrong: drop its queued drawing and narration, erase what it drew,
+  // cut off the sentence being spoken, and play these instead
+  redraw(commands: DrawCommand[], narration: string): void;
+  // No more input; resolves once everything queued has been spoken and drawn
+  finish(): Promise<void>;
+}
+
+// Minimal async FIFO: consumers wait for items until the queue is closed
+class AsyncQueue<T> {
+  private items: T[] = [];
+  private waiting: ((result: IteratorResult<T>) => void) | null = null;
+  private closed = false;
+
+  push(item: T) {
+    if (this.closed) return;
+    if (this.waiting) {
+      this.waiting({ value: item, done: false });
+      this.waiting = null;
+    } else {
+      this.items.push(item);
+    }
+  }
+
+  // Drop the items nobody has taken yet
+  clear() {
+    this.items = [];
+  }
+
+  // No more items; the consumer still gets the ones already queued
+  close() {
+    this.closed = true;
+    this.waiting?.({ value: undefined, done: true });
+    this.waiting = null;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: () => {
+        if (this.items.length > 0) {
+          return Promise.resolve({ value: this.items.shift() as T, done: false });
+        }
+        if (this.closed) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise(resolve => { this.waiting = resolve; });
+      }
+    };
+  }
+}
 
 class StepSyncController {
   private isRunning = false;
-  private shouldStop = false;
+  // Bumped by every new run and by stop(). A run checks its own number after each await, so a
+  // stopped or replaced one cannot resume when a newer run has started.
+  private generation = 0;
+  private liveQueues: { clear(): void; close(): void }[] = [];
+  // Follows the learner profile's preferred pace
+  private pacing: PaceTiming = PACE_TIMINGS.normal;
+
+  setPacing(pacing: PaceTiming) {
+    this.pacing = pacing;
+  }
 
   // Execute steps with synchronized speech and drawing
   async executeSteps(
@@ -16,46 +85,45 @@ class StepSyncController {
     onStepStart?: (stepIndex: number, totalSteps: number) => void,
     onComplete?: () => void
   ): Promise<void> {
-    this.isRunning = true;
-    this.shouldStop = false;
+    const run = this.startRun();
 
     for (let i = 0; i < steps.length; i++) {
-      if (this.shouldStop) break;
+      if (!this.isCurrent(run)) break;
 
       const step = steps[i];
       onStepStart?.(i, steps.length);
 
       // Execute speech and drawing in parallel, wait for both
-      await this.executeStepSync(step.narration, step.drawCommands);
+      await this.executeStepSync(run, step.narration, step.drawCommands);
       
       // Small pause between steps
-      if (!this.shouldStop && i < steps.length - 1) {
-        await this.delay(500);
+      if (this.isCurrent(run) && i < steps.length - 1) {
+        await this.delay(this.pacing.stepPauseMs);
       }
     }
 
-    this.isRunning = false;
+    this.endRun(run);
     onComplete?.();
   }
 
   // Execute speech and drawing together for a single step
-  private async executeStepSync(narration: string, drawCommands: DrawCommand[]): Promise<void> {
-    if (this.shouldStop) return;
+  private async executeStepSync(run: number, narration: string, drawCommands: DrawCommand[]): Promise<void> {
+    if (!this.isCurrent(run)) return;
 
     // Calculate timing based on word count
     const wordCount = narration.split(' ').length;
-    // Web Speech speaks ~150 words/min = 400ms per word
-    const estimatedSpeechMs = Math.max(wordCount * 400, 2000);
+    // Web Speech speaks ~150 words/min = 400ms per word at normal pace
+    const estimatedSpeechMs = Math.max(wordCount * this.pacing.msPerWord, 2000);
     const delayPerCommand = drawCommands.length > 0 
       ? Math.floor(estimatedSpeechMs / (drawCommands.length + 1))
       : 0;
 
     // Start drawing first (slightly ahead)
-    const drawPromise = this.drawWithTiming(drawCommands, delayPerCommand);
+    const drawPromise = this.drawWithTiming(run, drawCommands, delayPerCommand);
 
     // Start speech with slight delay so drawing begins first
     await this.delay(200);
-    const speechPromise = narration 
+    const speechPromise = narration && this.isCurrent(run)
       ? elevenLabsService.speak(narration) 
       : Promise.resolve();
 
@@ -63,16 +131,18 @@ class StepSyncController {
     await Promise.all([speechPromise, drawPromise]);
   }
 
-  // Draw commands with timing to match speech duration
-  private async drawWithTiming(commands: DrawCommand[], delayBetween: number): Promise<void> {
+  // Draw commands with timing to match speech duration. Strokes and curves without a duration of
+  // their own are drawn over their share of the speech instead of waiting it out.
+  private async drawWithTiming(run: number, commands: DrawCommand[], delayBetween: number): Promise<void> {
     if (!commands || commands.length === 0) return;
 
     for (const command of commands) {
-      if (this.shouldStop) break;
-      
-      await drawingController.executeDrawCommands([command], 0);
+      if (!this.isCurrent(run)) break;
+
+      const paced = delayBetween > 0 && ANIMATED_TYPES.includes(command.type) && command.props?.duration === undefined;
+      await drawingController.executeDrawCommands([paced ? { ...command, props: { ...command.props, duration: delayBetween } } : command], 0);
       
-      if (delayBetween > 0) {
+      if (delayBetween > 0 && !paced) {
         await this.delay(delayBetween);
       }
     }
@@ -85,8 +155,7 @@ class StepSyncController {
     onSpeechStart?: () => void,
     onComplete?: () => void
   ): Promise<void> {
-    this.isRunning = true;
-    this.shouldStop = false;
+    const run = this.startRun();
 
     if (!drawCommands || drawCommands.length === 0) {
       // No drawing, just speak
@@ -105,7 +174,7 @@ class StepSyncController {
       if (narrateSentences.length > 0) {
         const sentencesPerChunk = Math.max(1, Math.floor(narrateSentences.length / chunks.length));
         
-        for (let i = 0; i < chunks.length && !this.shouldStop; i++) {
+        for (let i = 0; i < chunks.length && this.isCurrent(run); i++) {
           // Get sentences for this chunk
           const startSentence = i * sentencesPerChunk;
           const endSentence = i === chunks.length - 1 
@@ -114,18 +183,90 @@ class StepSyncController {
           const chunkNarration = narrateSentences.slice(startSentence, endSentence).join(' ');
 
           // Speak and draw this chunk
-          await this.executeStepSync(chunkNarration, chunks[i]);
+          await this.executeStepSync(run, chunkNarration, chunks[i]);
         }
       } else {
         // No narration, just draw with delays
-        await drawingController.executeDrawCommands(drawCommands, 400);
+        await drawingController.executeDrawCommands(drawCommands, this.pacing.drawDelayMs);
       }
     }
 
-    this.isRunning = false;
+    this.endRun(run);
     onComplete?.();
   }
 
+  // Start playing a response while it streams: narration sentences are spoken in order and
+  // draw commands are drawn in order, both as soon as they arrive. Tool calls share the
+  // narration's timeline instead, so each one lands on the sentence it was written after.
+  startLiveResponse(onSpeechStart?: () => void): LiveResponse {
+    const run = this.startRun();
+
+    const timeline = new AsyncQueue<string | ToolCall>();
+    // 'restart' erases what this response has drawn so far, in turn with the drawing itself
+    const commandQueue = new AsyncQueue<DrawCommand | 'restart'>();
+    this.liveQueues = [timeline, commandQueue];
+    const tools = new DrawingToolRunner(drawingController);
+
+    const timelineLoop = (async () => {
+      let started = false;
+      let speaking = Promise.resolve();
+      for await (const item of timeline) {
+        if (!this.isCurrent(run)) break;
+        if (typeof item !== 'string') {
+          await tools.run(item);
+          await this.delay(this.pacing.drawDelayMs);
+          continue;
+        }
+
+        // One sentence at a time; the calls after it are drawn while it is spoken
+        await speaking;
+        if (!this.isCurrent(run)) break;
+        if (!started) {
+          started = true;
+          onSpeechStart?.();
+        }
+        speaking = elevenLabsService.speak(item);
+      }
+      await speaking;
+    })();
+
+    const drawLoop = (async () => {
+      const drawnBefore = new Set(drawingController.getAIShapeIds());
+      for await (const command of commandQueue) {
+        if (!this.isCurrent(run)) break;
+        if (command === 'restart') {
+          drawingController.removeAIShapes(drawingController.getAIShapeIds().filter(id => !drawnBefore.has(id)));
+          continue;
+        }
+        await drawingController.executeDrawCommands([command], 0);
+        await this.delay(this.pacing.drawDelayMs);
+      }
+    })();
+
+    return {
+      addNarration: sentence => {
+        const trimmed = sentence.trim();
+        if (trimmed) timeline.push(trimmed);
+      },
+      addDrawCommand: command => commandQueue.push(command),
+      addToolCall: call => timeline.push(call),
+      redraw: (commands, narration) => {
+        commandQueue.clear();
+        commandQueue.push('restart');
+        commands.forEach(command => commandQueue.push(command));
+        timeline.clear();
+        elevenLabsService.stop();
+        if (narration.trim()) timeline.push(narration.trim());
+      },
+      finish: async () => {
+        timeline.close();
+        commandQueue.close();
+        await Promise.all([timelineLoop, drawLoop]);
+        this.endRun(run);
+      }
+    };
+  }
+
   // Split commands into chunks for better step-by-step execution
   private chunkCommands(commands: DrawCommand[], chunkSize: number): DrawCommand[][] {
     const chunks: DrawCommand[][] = [];
@@ -143,9 +284,10 @@ class StepSyncController {
       .filter(s => s.length > 0);
   }
 
-  // Stop execution
+  // Stop execution, dropping whatever a live response still had queued
   stop(): void {
-    this.shouldStop = true;
+    this.generation++;
+    this.closeLiveQueues();
     elevenLabsService.stop();
     this.isRunning = false;
   }
@@ -155,6 +297,32 @@ class StepSyncController {
     return this.isRunning;
   }
 
+  // A new run supersedes any earlier one still playing, and a live response's queued input with it
+  private startRun(): number {
+    this.closeLiveQueues();
+    this.isRunning = true;
+    return ++this.generation;
+  }
+
+  private closeLiveQueues() {
+    this.liveQueues.forEach(queue => {
+      queue.clear();
+      queue.close();
+    });
+    this.liveQueues = [];
+  }
+
+  private isCurrent(run: number): boolean {
+    return run === this.generation;
+  }
+
+  // Only the current run's end means nothing is playing - a superseded one leaves the state alone
+  private endRun(run: number) {
+    if (!this.isCurrent(run)) return;
+    this.liveQueues = [];
+    this.isRunning = false;
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { StreamingJSONParser, takeSentence } from './streamingJsonParser';
+
+// Feeds the text in chunks of `size` characters and records everything the parser reports
+function parse(text: string, size = 3) {
+  const fields: [string, unknown][] = [];
+  const items: [string, unknown, number][] = [];
+  const sentences: [string, string][] = [];
+  const parser = new StreamingJSONParser({
+    onField: (key, value) => fields.push([key, value]),
+    onArrayItem: (key, item, index) => items.push([key, item, index]),
+    onSentence: (key, sentence) => sentences.push([key, sentence])
+  }, { arrayFields: ['drawCommands'], sentenceFields: ['explanation'] });
+
+  for (let i = 0; i < text.length; i += size) parser.push(text.slice(i, i + size));
+  parser.end();
+  return { fields, items, sentences };
+}
+
+describe('StreamingJSONParser', () => {
+  it('reports top-level fields in any chunking', () => {
+    const text = '{"topic": "Orbits", "isNewTopic": true, "steps": 3, "tags": ["a", "b"]}';
+    for (const size of [1, 4, text.length]) {
+      expect(parse(text, size).fields).toEqual([
+        ['topic', 'Orbits'],
+        ['isNewTopic', true],
+        ['steps', 3],
+        ['tags', ['a', 'b']]
+      ]);
+    }
+  });
+
+  it('reports array items as soon as they close', () => {
+    const { items } = parse('{"drawCommands": [{"type": "circle", "props": {"radius": 5}}, {"type": "text"}]}');
+    expect(items).toEqual([
+      ['drawCommands', { type: 'circle', props: { radius: 5 } }, 0],
+      ['drawCommands', { type: 'text' }, 1]
+    ]);
+  });
+
+  it('splits sentence fields and decodes escapes', () => {
+    const { sentences } = parse('{"explanation": "Gravity pulls. It says \\"hi\\"!\\nDone \\u00e9"}');
+    expect(sentences).toEqual([
+      ['explanation', 'Gravity pulls. '],
+      ['explanation', 'It says "hi"!\n'],
+      ['explanation', 'Done é']
+    ]);
+  });
+
+  it('flushes a truncated sentence on end', () => {
+    const { sentences } = parse('{"explanation": "Cut off mid');
+    expect(sentences).toEqual([['explanation', 'Cut off mid']]);
+  });
+
+  it('skips a malformed key and keeps going', () => {
+    const { fields } = parse('{"bad\\x": 1, "topic": "ok"}');
+    expect(fields).toEqual([['topic', 'ok']]);
+  });
+
+  it('reports nothing for an array at the root', () => {
+    expect(parse('[{"topic": "x"}]')).toEqual({ fields: [], items: [], sentences: [] });
+  });
+});
+
+describe('takeSentence', () => {
+  it('splits at a sentence end followed by a capital', () => {
+    expect(takeSentence('One. Two')).toEqual({ sentence: 'One. ', rest: 'Two' });
+    expect(takeSentence('Why? because')).toEqual({ sentence: 'Why? ', rest: 'because' });
+  });
+
+  it('waits for the word after a period', () => {
+    expect(takeSentence('One. ')).toBeNull();
+    expect(takeSentence('One. and more')).toBeNull();
+  });
+
+  it('does not split after an abbreviation', () => {
+    expect(takeSentence('Forces, e.g. Gravity, act')).toBeNull();
+    expect(takeSentence('Mass (i.e. Inertia) matters. Next')).toEqual({ sentence: 'Mass (i.e. Inertia) matters. ', rest: 'Next' });
+  });
+
+  it('always splits at a line break', () => {
+    expect(takeSentence('First line\nsecond')).toEqual({ sentence: 'First line\n', rest: 'second' });
+  });
+});
@@ -0,0 +1,273 @@
+// Incremental JSON parser for streamed AI responses
+// Feeds on raw text chunks and reports pieces of the top-level object as soon as they are complete:
+// - every finished top-level field (topic, isNewTopic, taskBreakdown...)
+// - every finished element of selected array fields (drawCommands)
+// - every finished sentence of selected string fields (explanation, narration)
+
+export interface StreamingJSONHandlers {
+  onField?: (key: string, value: unknown) => void;
+  onArrayItem?: (key: string, item: unknown, index: number) => void;
+  onSentence?: (key: string, sentence: string) => void;
+}
+
+export interface StreamingJSONOptions {
+  arrayFields?: string[];
+  sentenceFields?: string[];
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t'
+};
+
+const SENTENCE_BREAK = /[.!?]\s|\n/g;
+// Dotted lowercase abbreviations (e.g, i.e) just before a period
+const ABBREVIATION = /(?:^|[\s(])[a-z](?:\.[a-z])+$/;
+
+// Splits the first complete sentence off streamed text, or null while there is none yet. A sentence
+// ends at . ! ? followed by whitespace, or at a line break - but not at a period after an
+// abbreviation or before a lowercase word ("e.g. gravity"), so a period waits for the next word.
+export function takeSentence(text: string): { sentence: string; rest: string } | null {
+  for (const match of text.matchAll(SENTENCE_BREAK)) {
+    const end = match.index + match[0].length;
+    if (match[0].startsWith('.') && !match[0].endsWith('\n')) {
+      if (ABBREVIATION.test(text.slice(0, match.index))) continue;
+      const next = /\S/.exec(text.slice(end))?.[0];
+      if (next === undefined || /\p{Ll}/u.test(next)) continue;
+    }
+    return { sentence: text.slice(0, end), rest: text.slice(end) };
+  }
+  return null;
+}
+
+export class StreamingJSONParser {
+  private handlers: StreamingJSONHandlers;
+  private arrayFields: Set<string>;
+  private sentenceFields: Set<string>;
+
+  private buffer = '';
+  private pos = 0;
+  private depth = 0;
+  private inString = false;
+  private escape = false;
+  private unicodeDigits: string | null = null;
+  private done = false;
+
+  // Top-level object bookkeeping
+  private expectingKey = false;
+  private keyStart = -1;
+  private currentKey: string | null = null;
+  private valueStart = -1;
+
+  // Array-of-objects bookkeeping (depth 2 = inside a top-level array)
+  private itemStart = -1;
+  private itemIndex = 0;
+
+  // Decoded text of the top-level string currently being read, not yet emitted
+  private pendingSentence = '';
+
+  constructor(handlers: StreamingJSONHandlers, options: StreamingJSONOptions = {}) {
+    this.handlers = handlers;
+    this.arrayFields = new Set(options.arrayFields || []);
+    this.sentenceFields = new Set(options.sentenceFields || []);
+  }
+
+  push(chunk: string): void {
+    if (this.done) return;
+    this.buffer += chunk;
+
+    for (; this.pos < this.buffer.length && !this.done; this.pos++) {
+      const ch = this.buffer[this.pos];
+      if (this.inString) {
+        this.readStringChar(ch);
+      } else {
+        this.readStructuralChar(ch);
+      }
+    }
+  }
+
+  // Flush whatever sentence is still pending (e.g. truncated output)
+  end(): void {
+    if (this.inString && this.isSentenceValue()) {
+      this.emitSentence();
+    }
+    this.done = true;
+  }
+
+  private isSentenceValue(): boolean {
+    return this.depth === 1 && !this.expectingKey && !!this.currentKey && this.sentenceFields.has(this.currentKey);
+  }
+
+  private readStringChar(ch: string) {
+    const trackText = this.isSentenceValue();
+
+    if (this.unicodeDigits !== null) {
+      this.unicodeDigits += ch;
+      if (this.unicodeDigits.length === 4) {
+        if (trackText) this.appendText(String.fromCharCode(parseInt(this.unicodeDigits, 16)));
+        this.unicodeDigits = null;
+      }
+      return;
+    }
+
+    if (this.escape) {
+      this.escape = false;
+      if (ch === 'u') {
+        this.unicodeDigits = '';
+      } else if (trackText) {
+        this.appendText(SIMPLE_ESCAPES[ch] ?? ch);
+      }
+      return;
+    }
+
+    if (ch === '\\') {
+      this.escape = true;
+      return;
+    }
+
+    if (ch === '"') {
+      this.inString = false;
+      this.closeString();
+      return;
+    }
+
+    if (trackText) this.appendText(ch);
+  }
+
+  private closeString() {
+    if (this.depth !== 1) return;
+
+    if (this.expectingKey) {
+      try {
+        this.currentKey = JSON.parse(this.buffer.slice(this.keyStart, this.pos + 1));
+      } catch {
+        // Malformed key - skip its value and leave it to the final parse
+        this.currentKey = null;
+      }
+      return;
+    }
+
+    if (this.isSentenceValue()) this.emitSentence();
+    this.finishValue(this.pos + 1);
+  }
+
+  private readStructuralChar(ch: string) {
+    switch (ch) {
+      case '"':
+        this.inString = true;
+        if (this.depth === 1) {
+          if (this.expectingKey) {
+            this.keyStart = this.pos;
+          } else {
+            this.valueStart = this.pos;
+            this.pendingSentence = '';
+          }
+        }
+        return;
+
+      case '{':
+      case '[':
+        this.depth++;
+        if (this.depth === 1) {
+          if (ch === '[') {
+            // Not an object at the root - nothing we can report
+            this.done = true;
+            return;
+          }
+          this.expectingKey = true;
+        } else if (this.depth === 2) {
+          this.valueStart = this.pos;
+          this.itemIndex = 0;
+        } else if (this.depth === 3 && this.isArrayField()) {
+          this.itemStart = this.pos;
+        }
+        return;
+
+      case '}':
+      case ']':
+        if (this.depth === 0) return;
+        if (this.depth === 3 && this.itemStart >= 0 && this.isArrayField()) {
+          this.emitArrayItem(this.buffer.slice(this.itemStart, this.pos + 1));
+          this.itemStart = -1;
+        }
+        this.depth--;
+        if (this.depth === 1) {
+          this.finishValue(this.pos + 1);
+        } else if (this.depth === 0) {
+          this.finishValue();
+          this.done = true;
+        }
+        return;
+
+      case ':':
+        if (this.depth === 1) {
+          this.expectingKey = false;
+          this.valueStart = -1;
+        }
+        return;
+
+      case ',':
+        if (this.depth === 1) {
+          this.finishValue();
+          this.expectingKey = true;
+        } else if (this.depth === 2 && this.isArrayField()) {
+          this.itemIndex++;
+        }
+        return;
+
+      default:
+        // Start of a bare literal (true, false, null, number) at the top level
+        if (this.depth === 1 && !this.expectingKey && this.valueStart < 0 && !/\s/.test(ch)) {
+          this.valueStart = this.pos;
+        }
+    }
+  }
+
+  private isArrayField(): boolean {
+    return !!this.currentKey && this.arrayFields.has(this.currentKey);
+  }
+
+  // Report the current top-level value; `endExclusive` defaults to the current position
+  private finishValue(endExclusive = this.pos) {
+    if (this.currentKey === null || this.valueStart < 0) return;
+
+    const raw = this.buffer.slice(this.valueStart, endExclusive).trim();
+    this.valueStart = -1;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      // Malformed value - the final full parse will deal with it
+      return;
+    }
+    this.handlers.onField?.(this.currentKey, value);
+  }
+
+  private emitArrayItem(raw: string) {
+    let item: unknown;
+    try {
+      item = JSON.parse(raw);
+    } catch {
+      // Skip malformed items; they are visible to the final parse
+      return;
+    }
+    this.handlers.onArrayItem?.(this.currentKey as string, item, this.itemIndex);
+  }
+
+  private appendText(text: string) {
+    this.pendingSentence += text;
+
+    let split;
+    while ((split = takeSentence(this.pendingSentence))) {
+      this.pendingSentence = split.rest;
+      this.handlers.onSentence?.(this.currentKey as string, split.sentence);
+    }
+  }
+
+  private emitSentence() {
+    if (this.pendingSentence) {
+      this.handlers.onSentence?.(this.currentKey as string, this.pendingSentence);
+      this.pendingSentence = '';
+    }
+  }
+}
@@ -0,0 +1,101 @@
+// Tutoring session - owns everything one conversation needs: mode, topic history and memory
+// Topic stacks are kept per mode, so switching between canvas and diagram (or running several
+// sessions side by side) never leaks one conversation's "current topic" into another.
+
+import type { LLMMode } from '../types';
+import { ConversationMemory } from './conversationMemory';
+import type { ConversationMemoryOptions } from './conversationMemory';
+import { DEFAULT_LEARNER_PROFILE } from './learnerProfile';
+import type { LearnerProfile } from './learnerProfile';
+import type { LanguageCode } from './language';
+import { usageTracker } from './usageTracker';
+
+export interface TopicFrame {
+  topic: string;
+  // Follow-up subjects explored while this topic was current, oldest first
+  subtopics: string[];
+}
+
+export interface TutorSessionOptions {
+  mode?: LLMMode;
+  memory?: ConversationMemoryOptions;
+  profile?: LearnerProfile;
+  language?: LanguageCode;
+  // USD; 0 means no limit
+  budgetUsd?: number;
+}
+
+// Older topics beyond this are forgotten (the memory summary still covers them)
+const MAX_TOPIC_DEPTH = 10;
+
+let sessionCounter = 0;
+
+export class TutorSession {
+  readonly id: string;
+  readonly memory: ConversationMemory;
+  mode: LLMMode;
+  // Who is being taught - shapes every prompt of this session
+  profile: LearnerProfile;
+  language: LanguageCode;
+  // Once spent, the session switches to the cheapest providers, built-in lessons and the browser voice
+  budgetUsd: number;
+  private topicStacks: Record<LLMMode, TopicFrame[]> = { canvas: [], diagram: [] };
+
+  constructor(options: TutorSessionOptions = {}) {
+    this.id = `session-${Date.now()}-${++sessionCounter}`;
+    this.mode = options.mode || 'canvas';
+    this.memory = new ConversationMemory(options.memory);
+    this.profile = options.profile || DEFAULT_LEARNER_PROFILE;
+    this.language = options.language || 'en';
+    this.budgetUsd = options.budgetUsd || 0;
+  }
+
+  getSpentUsd(): number {
+    return usageTracker.getTotals(this.id).costUsd;
+  }
+
+  isOverBudget(): boolean {
+    return this.budgetUsd > 0 && this.getSpentUsd() >= this.budgetUsd;
+  }
+
+  getCurrentTopic(mode: LLMMode = this.mode): string | null {
+    const stack = this.topicStacks[mode];
+    return stack.length > 0 ? stack[stack.length - 1].topic : null;
+  }
+
+  getCurrentFrame(mode: LLMMode = this.mode): TopicFrame | null {
+    const stack = this.topicStacks[mode];
+    return stack.length > 0 ? { ...stack[stack.length - 1] } : null;
+  }
+
+  // Topic stack for a mode, oldest first
+  getTopicHistory(mode: LLMMode = this.mode): TopicFrame[] {
+    return this.topicStacks[mode].map(frame => ({ ...frame, subtopics: [...frame.subtopics] }));
+  }
+
+  // Apply the model's topic bookkeeping: a new topic starts a frame, a follow-up on a
+  // different subject becomes a subtopic of the current frame
+  recordTopic(mode: LLMMode, topic: string | undefined, isNewTopic: boolean | undefined) {
+    if (!topic) return;
+    const stack = this.topicStacks[mode];
+    const current = stack[stack.length - 1];
+
+    if (isNewTopic || !current) {
+      stack.push({ topic, subtopics: [] });
+      if (stack.length > MAX_TOPIC_DEPTH) stack.shift();
+      return;
+    }
+
+    const known = [current.topic, ...current.subtopics].some(t => t.toLowerCase() === topic.toLowerCase());
+    if (!known) current.subtopics.push(topic);
+  }
+
+  // Return to the previous topic, e.g. after a digression
+  popTopic(mode: LLMMode = this.mode): TopicFrame | null {
+    return this.topicStacks[mode].pop() || null;
+  }
+
+  resetTopics(mode: LLMMode = this.mode) {
+    this.topicStacks[mode] = [];
+  }
+}
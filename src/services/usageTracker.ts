@@ -0,0 +1,160 @@
+// Usage and cost accounting - one record per completion or speech request, tagged by session
+// and mode. Kept in localStorage so totals survive a reload; exported as CSV from the usage panel.
+// Cached and pre-generated answers cost nothing and are not recorded.
+
+import type { LLMMode } from '../types';
+
+export type UsageMode = LLMMode | 'speech';
+
+export interface UsageRecord {
+  timestamp: number;
+  // '' for calls made outside a tutoring session
+  sessionId: string;
+  mode: UsageMode;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // Speech only
+  characters: number;
+  // Wall-clock time as the student experienced it
+  latencyMs: number;
+  costUsd: number;
+  // Token counts were estimated because the provider reported none
+  estimated: boolean;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  characters: number;
+  costUsd: number;
+}
+
+const STORAGE_KEY = 'aitutor.usage';
+const BUDGET_STORAGE_KEY = 'aitutor.sessionBudget';
+// Oldest records are dropped beyond this, so storage stays small
+const MAX_RECORDS = 2000;
+
+const CSV_COLUMNS: (keyof UsageRecord)[] = [
+  'timestamp', 'sessionId', 'mode', 'provider', 'model', 'promptTokens', 'completionTokens',
+  'characters', 'latencyMs', 'costUsd', 'estimated'
+];
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, characters: 0, costUsd: 0 };
+}
+
+function addTo(totals: UsageTotals, record: UsageRecord): UsageTotals {
+  totals.requests++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.characters += record.characters;
+  totals.costUsd += record.costUsd;
+  return totals;
+}
+
+function csvCell(value: unknown): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+class UsageTracker {
+  private records: UsageRecord[] = this.load();
+  private listeners = new Set<() => void>();
+
+  record(record: UsageRecord) {
+    this.records.push(record);
+    if (this.records.length > MAX_RECORDS) {
+      this.records = this.records.slice(-MAX_RECORDS);
+    }
+    this.save();
+    this.listeners.forEach(listener => listener());
+  }
+
+  getRecords(sessionId?: string): UsageRecord[] {
+    return this.records.filter(record => sessionId === undefined || record.sessionId === sessionId);
+  }
+
+  getTotals(sessionId?: string): UsageTotals {
+    return this.getRecords(sessionId).reduce(addTo, emptyTotals());
+  }
+
+  // Totals per "provider / model", most expensive first
+  getTotalsByModel(sessionId?: string): { label: string; totals: UsageTotals }[] {
+    const byModel = new Map<string, UsageTotals>();
+    for (const record of this.getRecords(sessionId)) {
+      const label = `${record.provider} / ${record.model}`;
+      byModel.set(label, addTo(byModel.get(label) || emptyTotals(), record));
+    }
+    return [...byModel.entries()]
+      .map(([label, totals]) => ({ label, totals }))
+      .sort((a, b) => b.totals.costUsd - a.totals.costUsd);
+  }
+
+  toCSV(): string {
+    const rows = this.records.map(record => CSV_COLUMNS
+      .map(column => column === 'timestamp' ? new Date(record.timestamp).toISOString() : record[column])
+      .map(csvCell)
+      .join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+  }
+
+  clear() {
+    this.records = [];
+    this.save();
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Returns the unsubscribe function
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private load(): UsageRecord[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.records));
+    } catch (error) {
+      console.warn('Could not persist usage log:', error);
+    }
+  }
+}
+
+export const usageTracker = new UsageTracker();
+
+// ============ SESSION BUDGET ============
+
+// USD per tutoring session; 0 means no limit
+export function loadSessionBudget(): number {
+  try {
+    const budget = Number(localStorage.getItem(BUDGET_STORAGE_KEY));
+    return Number.isFinite(budget) && budget > 0 ? budget : 0;
+  } catch {
+    return 0;
+  }
+}
+
+export function saveSessionBudget(budgetUsd: number): void {
+  try {
+    localStorage.setItem(BUDGET_STORAGE_KEY, String(budgetUsd));
+  } catch (error) {
+    console.warn('Could not persist session budget:', error);
+  }
+}
+
+export function formatUsd(amount: number): string {
+  return amount > 0 && amount < 0.01 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
@@ -3,10 +3,22 @@ export interface Message {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  // Answer was served from the response cache instead of a fresh AI call
+  fromCache?: boolean;
+  // Photos or screenshots the student attached
+  images?: ChatImage[];
+  // Course-notes passages the answer was grounded in
+  citations?: Citation[];
 }
 
 export interface DrawCommand {
-  type: 'circle' | 'rectangle' | 'arrow' | 'text' | 'line' | 'freehand';
+  type:
+    | 'circle' | 'rectangle' | 'arrow' | 'text' | 'line' | 'freehand' | 'formula'
+    | 'triangle' | 'polygon' | 'star' | 'diamond' | 'cloud' | 'curved-arrow' | 'bracket' | 'note' | 'image'
+    | 'axes' | 'plot';
+  // Name other commands (and later answers) refer to this shape by, e.g. "cpu"
+  id?: string;
+  // Ignored when the shape is placed next to another one
   x: number;
   y: number;
   props?: {
@@ -14,10 +26,54 @@ export interface DrawCommand {
     h?: number;
     radius?: number;
     text?: string;
+    // formula only: LaTeX source, e.g. "F = ma"
+    latex?: string;
+    // Pixels; text and notes snap to the nearest tldraw size
+    fontSize?: number;
     color?: string;
+    fill?: 'none' | 'semi' | 'solid' | 'pattern';
+    dash?: 'draw' | 'solid' | 'dashed' | 'dotted';
+    // Stroke width
+    size?: 's' | 'm' | 'l' | 'xl';
+    // polygon only: 3, 4, 5, 6 or 8
+    sides?: number;
+    // curved-arrow only: how far the middle bows out, in pixels (negative bows the other way)
+    bend?: number;
+    // image only: an embedded data:image/ URL (web URLs are never loaded), or an emoji icon instead
+    src?: string;
+    icon?: string;
+    // axes and plot: the graph fills the w x h box at x/y, showing these value ranges
+    xRange?: [number, number];
+    yRange?: [number, number];
+    // axes only: distance between ticks (a sensible default otherwise), axis titles and gridlines
+    xStep?: number;
+    yStep?: number;
+    xLabel?: string;
+    yLabel?: string;
+    grid?: boolean;
+    // plot only: a formula in x (or t or n), e.g. "x^2", or data points in graph values; drawn over
+    // domain, which defaults to xRange
+    expression?: string;
+    data?: { x: number; y: number }[];
+    domain?: [number, number];
     start?: { x: number; y: number };
     end?: { x: number; y: number };
+    // arrow, line and curved-arrow: ids of the shapes the ends are attached to, instead of start/end
+    from?: string;
+    to?: string;
+    // Placed centered on one side of the shape with this id instead of at x/y, gap pixels away
+    // (default 40). At most one of them.
+    below?: string;
+    above?: string;
+    leftOf?: string;
+    rightOf?: string;
+    gap?: number;
+    // freehand only: page coordinates the stroke passes through, in drawing order
     points?: { x: number; y: number }[];
+    // freehand only: round the corners between points (default true), and how long the stroke
+    // takes to draw in ms
+    smooth?: boolean;
+    duration?: number;
   };
 }
 
@@ -27,8 +83,106 @@ export interface AIResponse {
   narration?: string;
 }
 
+// Full canvas-mode response, including the topic bookkeeping fields
+export interface TutorResponse extends AIResponse {
+  topic?: string;
+  isNewTopic?: boolean;
+  taskBreakdown?: string[];
+  // Set client-side from the course notes the answer was grounded in, not by the model
+  citations?: Citation[];
+}
+
+export type QuizQuestionKind = 'multiple-choice' | 'numeric' | 'short-answer';
+
+export interface QuizQuestion {
+  kind: QuizQuestionKind;
+  question: string;
+  // multiple-choice only; answer is the text of the correct choice
+  choices?: string[];
+  // Correct choice, the expected number, or a model answer for short-answer questions
+  answer: string;
+  // numeric only: accepted absolute difference from the expected number
+  tolerance?: number;
+  // Why the answer is right - shown after grading
+  explanation?: string;
+}
+
+// Tutor's verdict on one quiz answer
+export interface QuizGrade {
+  correct: boolean;
+  feedback: string;
+  // Corrective diagram for a wrong answer (canvas mode only)
+  drawCommands?: DrawCommand[];
+}
+
+// One guiding question of a Socratic lesson and the part of the diagram it unlocks
+export interface SocraticStep {
+  question: string;
+  // What a reply has to show to count as understanding
+  expectedInsight: string;
+  hint?: string;
+  // Spoken and drawn once the student has reasoned it through
+  narration: string;
+  drawCommands: DrawCommand[];
+}
+
+export interface SocraticJudgement {
+  understood: boolean;
+  feedback: string;
+}
+
 export interface TutorState {
   isListening: boolean;
   isSpeaking: boolean;
   isProcessing: boolean;
 }
+
+// Which prompt family is asking - lets canvas and diagram mode use different models
+export type LLMMode = 'canvas' | 'diagram';
+
+// Chat message as sent to the completion endpoints
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  // user messages only: photos or screenshots sent to a vision model
+  images?: ChatImage[];
+}
+
+// One attached image, base64 encoded without the data: URL prefix
+export interface ChatImage {
+  mediaType: string;
+  data: string;
+}
+
+// A function the model may call instead of writing JSON (tool-calling drawing protocol).
+// `parameters` is a JSON Schema object, passed to the provider as-is.
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// One finished tool call, arguments already parsed
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// A course-notes passage quoted to the model and cited as [index]
+export interface Citation {
+  index: number;
+  // File name of the uploaded notes
+  source: string;
+  // "page 3", a Markdown heading, or '' for plain text
+  location: string;
+  text: string;
+}
+
+// What one completion cost, as reported by the backend
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  // The provider reported no counts; tokens were estimated from the text length
+  estimated: boolean;
+  costUsd: number;
+}
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts so the tests run without the dev server's API plugin
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts', 'server/**/*.test.ts'],
+    environment: 'node',
+  },
+})